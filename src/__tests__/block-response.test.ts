@@ -0,0 +1,184 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { createBlockResponse } from '../core/block-response';
+import { Spyglasses } from '../core/spyglasses';
+import { createSpyglassesMiddleware } from '../integrations/express';
+import { MemorySink } from '../sinks';
+import { DetectionResult } from '../types';
+import { createExpressRequest, createExpressResponse } from './fixtures/http';
+
+// Mock fetch for API calls
+global.fetch = vi.fn();
+
+const gptbotUa = 'Mozilla/5.0 (compatible; GPTBot/1.0; +https://openai.com/gptbot)';
+const chatgptUserUa = 'Mozilla/5.0 (compatible; ChatGPT-User/1.0; +https://openai.com/bot)';
+
+const blocked: DetectionResult = { isBot: true, shouldBlock: true, action: 'block', sourceType: 'bot' };
+
+const requestInfo = {
+  url: 'https://example.com/docs',
+  method: 'GET',
+  path: '/docs',
+  userAgent: gptbotUa,
+  headers: {}
+};
+
+describe('createBlockResponse', () => {
+  it('should render a plain 403 by default', () => {
+    expect(createBlockResponse(blocked)).toEqual({
+      status: 403,
+      headers: { 'Content-Type': 'text/plain; charset=utf-8' },
+      body: 'Access Denied'
+    });
+  });
+
+  it('should render configured status codes, JSON bodies and headers', () => {
+    const response = createBlockResponse(blocked, { status: 451, format: 'json', headers: { 'Cache-Control': 'no-store' } });
+
+    expect(response?.status).toBe(451);
+    expect(response?.headers).toEqual({ 'Content-Type': 'application/json; charset=utf-8', 'Cache-Control': 'no-store' });
+    expect(JSON.parse(response!.body)).toEqual({ error: 'access_denied', message: 'Access to this resource has been denied.' });
+  });
+
+  it('should render HTML and custom bodies', () => {
+    expect(createBlockResponse(blocked, { format: 'html' })?.body).toContain('<h1>Access Denied</h1>');
+
+    const body = vi.fn(() => '<p>No crawlers</p>');
+    expect(createBlockResponse(blocked, { format: 'html', body })?.body).toBe('<p>No crawlers</p>');
+    expect(body).toHaveBeenCalledWith(blocked);
+  });
+
+  it('should redirect to the rule target, then the configured one, then block', () => {
+    const redirect: DetectionResult = { ...blocked, action: 'redirect', redirectUrl: 'https://example.com/bots' };
+
+    expect(createBlockResponse(redirect)).toEqual({ status: 302, headers: { Location: 'https://example.com/bots' }, body: '' });
+    expect(createBlockResponse({ ...redirect, redirectUrl: undefined }, { redirectUrl: '/licensing', redirectStatus: 307 }))
+      .toEqual({ status: 307, headers: { Location: '/licensing' }, body: '' });
+    expect(createBlockResponse({ ...redirect, redirectUrl: undefined })?.status).toBe(403);
+  });
+
+  it('should render challenges and throttled requests', () => {
+    const challenge = createBlockResponse({ ...blocked, action: 'challenge' }, { challengeStatus: 401, challengeBody: 'Solve the puzzle' });
+    expect(challenge).toMatchObject({ status: 401, body: 'Solve the puzzle' });
+
+    const throttled = createBlockResponse({
+      isBot: true,
+      shouldBlock: false,
+      action: 'throttle',
+      sourceType: 'bot',
+      rateLimit: { rule: 'category:AI Crawler', throttled: true, remaining: 0, retryAfter: 30 }
+    });
+    expect(throttled?.status).toBe(429);
+    expect(throttled?.headers['Retry-After']).toBe('30');
+  });
+
+  it('should let allowed and log-only requests through', () => {
+    expect(createBlockResponse({ ...blocked, shouldBlock: false, action: 'allow' })).toBeNull();
+    expect(createBlockResponse({ ...blocked, shouldBlock: false, action: 'log-only' })).toBeNull();
+  });
+});
+
+describe('Spyglasses actions', () => {
+  beforeEach(() => {
+    vi.resetAllMocks();
+  });
+
+  it('should set the action on every result', () => {
+    const spyglasses = new Spyglasses({ autoSync: false, customBlocks: ['category:AI Crawler'] });
+
+    expect(spyglasses.detect(gptbotUa).action).toBe('block');
+    expect(spyglasses.detect(chatgptUserUa).action).toBe('allow');
+    expect(spyglasses.detect('Mozilla/5.0 (Windows NT 10.0; Win64; x64)').action).toBe('allow');
+  });
+
+  it('should apply the blockAction config and per-rule actions', () => {
+    const spyglasses = new Spyglasses({
+      autoSync: false,
+      blockAction: 'challenge',
+      blockAiModelTrainers: true,
+      customBlocks: [
+        { rule: 'company:OpenAI', paths: ['/pricing'], action: 'redirect', redirectTo: 'https://example.com/licensing' },
+        { rule: 'company:OpenAI', paths: ['/blog/*'], action: 'log-only' }
+      ]
+    });
+
+    expect(spyglasses.detect(gptbotUa)).toMatchObject({ shouldBlock: true, action: 'challenge' });
+    expect(spyglasses.detect(gptbotUa, undefined, { path: '/pricing' })).toMatchObject({
+      shouldBlock: true,
+      action: 'redirect',
+      redirectUrl: 'https://example.com/licensing'
+    });
+    expect(spyglasses.detect(gptbotUa, undefined, { path: '/blog/post' })).toMatchObject({ shouldBlock: false, action: 'log-only' });
+  });
+
+  it('should ignore scoped rules with unknown actions', () => {
+    const spyglasses = new Spyglasses({
+      autoSync: false,
+      customBlocks: [{ rule: 'company:OpenAI', action: 'tarpit' as 'block' }]
+    });
+
+    expect(spyglasses.detect(gptbotUa).shouldBlock).toBe(false);
+  });
+
+  it('should log log-only requests without blocking them', async () => {
+    const memory = new MemorySink();
+    const spyglasses = new Spyglasses({ autoSync: false, sinks: [memory], blockAction: 'log-only', customBlocks: ['ip:203.0.113.9'] });
+
+    const result = spyglasses.detect('Mozilla/5.0 (Windows NT 10.0; Win64; x64)', undefined, { ip: '203.0.113.9' });
+    expect(result).toMatchObject({ sourceType: 'none', shouldBlock: false, action: 'log-only', matchedRule: 'ip:203.0.113.9' });
+
+    await spyglasses.logRequest(result, requestInfo);
+    expect(memory.records[0].metadata).toMatchObject({ was_blocked: false, action: 'log-only' });
+    expect(memory.records[0].response_status).toBe(200);
+  });
+
+  it('should render handle() responses and report the status that was sent', async () => {
+    const memory = new MemorySink();
+    const spyglasses = new Spyglasses({
+      autoSync: false,
+      sinks: [memory],
+      customBlocks: ['category:AI Crawler'],
+      blockResponseOptions: { status: 451, format: 'json' }
+    });
+
+    const { response, logging } = spyglasses.handle(new Request('https://example.com/docs', { headers: { 'user-agent': gptbotUa } }));
+    await logging;
+
+    expect(response?.status).toBe(451);
+    expect(response?.headers.get('content-type')).toBe('application/json; charset=utf-8');
+    expect(memory.records[0].response_status).toBe(451);
+    expect(memory.records[0].metadata.action).toBe('block');
+  });
+
+  it('should report the rendered status when the caller sends the block response', async () => {
+    const memory = new MemorySink();
+    const spyglasses = new Spyglasses({
+      autoSync: false,
+      sinks: [memory],
+      customBlocks: [{ rule: 'category:AI Crawler', action: 'redirect', redirectTo: '/licensing' }]
+    });
+
+    const result = spyglasses.detect(gptbotUa);
+    expect(spyglasses.createBlockResponse(result)).toEqual({ status: 302, headers: { Location: '/licensing' }, body: '' });
+
+    await spyglasses.logRequest(result, requestInfo);
+    expect(memory.records[0].response_status).toBe(302);
+  });
+
+  it('should send the configured response from the Express middleware', async () => {
+    const spyglasses = new Spyglasses({
+      autoSync: false,
+      customBlocks: ['category:AI Crawler'],
+      blockResponseOptions: { status: 451, format: 'html' }
+    });
+    const req = createExpressRequest({ url: '/docs', headers: { host: 'example.com', 'user-agent': gptbotUa } });
+    const res = createExpressResponse(req);
+    const next = vi.fn();
+
+    await createSpyglassesMiddleware({ spyglasses })(req, res, next);
+
+    expect(next).not.toHaveBeenCalled();
+    expect(res.statusCode).toBe(451);
+    expect(res.getHeader('Content-Type')).toBe('text/html; charset=utf-8');
+    expect(res.body).toContain('Access Denied');
+  });
+});
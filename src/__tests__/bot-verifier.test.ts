@@ -0,0 +1,168 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { BotVerifier } from '../core/bot-verifier';
+import { Spyglasses } from '../core/spyglasses';
+import { BotInfo, BotPattern, DnsResolver } from '../types';
+
+// Mock fetch for API calls
+global.fetch = vi.fn();
+
+const googlebot: BotPattern = {
+  pattern: 'Googlebot\\/[0-9]',
+  type: 'googlebot',
+  category: 'Search Engine',
+  subcategory: 'Search Crawlers',
+  company: 'Google',
+  verification: { reverseDnsDomains: ['googlebot.com'] }
+};
+
+const gptbot: BotPattern = {
+  pattern: 'GPTBot\\/[0-9]',
+  type: 'gptbot',
+  category: 'AI Crawler',
+  subcategory: 'Model Training Crawlers',
+  company: 'OpenAI',
+  isAiModelTrainer: true,
+  verification: { ipRanges: ['192.0.2.0/24', '2001:db8::/32'] }
+};
+
+function createResolver(ptr: Record<string, string[]>, a: Record<string, string[]>): DnsResolver {
+  return {
+    reverse: vi.fn(async (ip: string) => {
+      if (!ptr[ip]) {
+        throw Object.assign(new Error('queryPtr ENOTFOUND'), { code: 'ENOTFOUND' });
+      }
+      return ptr[ip];
+    }),
+    lookup: vi.fn(async (hostname: string) => a[hostname] || [])
+  };
+}
+
+describe('BotVerifier', () => {
+  it('should verify IPs inside published ranges', async () => {
+    const verifier = new BotVerifier({ resolver: createResolver({}, {}) });
+    
+    expect(await verifier.verify(gptbot, '192.0.2.10')).toBe(true);
+    expect(await verifier.verify(gptbot, '2001:db8::5')).toBe(true);
+    expect(await verifier.verify(gptbot, '203.0.113.10')).toBe(false);
+  });
+  
+  it('should require reverse DNS to be forward-confirmed', async () => {
+    const resolver = createResolver(
+      {
+        '66.249.66.1': ['crawl-66-249-66-1.googlebot.com.'],
+        '203.0.113.9': ['crawl-fake.googlebot.com']
+      },
+      {
+        'crawl-66-249-66-1.googlebot.com': ['66.249.66.1'],
+        'crawl-fake.googlebot.com': ['66.249.66.200']
+      }
+    );
+    const verifier = new BotVerifier({ resolver });
+    
+    expect(await verifier.verify(googlebot, '66.249.66.1')).toBe(true);
+    expect(await verifier.verify(googlebot, '203.0.113.9')).toBe(false);
+    expect(await verifier.verify(googlebot, '198.51.100.1')).toBe(false);
+  });
+  
+  it('should report unknown when lookups fail or the bot has no verification data', async () => {
+    const resolver: DnsResolver = {
+      reverse: async () => { throw Object.assign(new Error('timeout'), { code: 'ETIMEOUT' }); },
+      lookup: async () => []
+    };
+    const verifier = new BotVerifier({ resolver });
+    
+    expect(await verifier.verify(googlebot, '66.249.66.1')).toBe('unknown');
+    expect(await verifier.verify({ ...googlebot, verification: undefined }, '66.249.66.1')).toBe('unknown');
+  });
+  
+  it('should use an injected range source', async () => {
+    const rangeSource = { getRanges: vi.fn(async () => ['198.51.100.0/24']) };
+    const verifier = new BotVerifier({ resolver: createResolver({}, {}), rangeSource });
+    
+    expect(await verifier.verify({ ...gptbot, verification: {} }, '198.51.100.20')).toBe(true);
+    expect(rangeSource.getRanges).toHaveBeenCalled();
+  });
+  
+  it('should cache verdicts and answer synchronously once known', async () => {
+    const resolver = createResolver({}, {});
+    const verifier = new BotVerifier({ resolver });
+    
+    expect(verifier.getStatus(googlebot, '198.51.100.1')).toBe('unknown');
+    await verifier.verify(googlebot, '198.51.100.1');
+    
+    expect(verifier.getStatus(googlebot, '198.51.100.1')).toBe(false);
+    expect(resolver.reverse).toHaveBeenCalledTimes(1);
+  });
+  
+  it('should limit concurrent and pending lookups', async () => {
+    const releases: Array<() => void> = [];
+    const resolver: DnsResolver = {
+      reverse: vi.fn(() => new Promise<string[]>(resolve => releases.push(() => resolve([])))),
+      lookup: vi.fn(async () => [])
+    };
+    const verifier = new BotVerifier({ resolver, maxConcurrentLookups: 2, maxPendingLookups: 3 });
+    const settle = () => new Promise(resolve => setTimeout(resolve, 0));
+    
+    const verdicts = ['198.51.100.1', '198.51.100.2', '198.51.100.3'].map(ip => verifier.verify(googlebot, ip));
+    expect(verifier.getStatus(googlebot, '198.51.100.4')).toBe('unknown');
+    await settle();
+    expect(resolver.reverse).toHaveBeenCalledTimes(2);
+    
+    releases.shift()?.();
+    await settle();
+    expect(resolver.reverse).toHaveBeenCalledTimes(3);
+    
+    releases.splice(0).forEach(release => release());
+    expect(await Promise.all(verdicts)).toEqual([false, false, false]);
+    expect(resolver.reverse).not.toHaveBeenCalledWith('198.51.100.4');
+  });
+});
+
+describe('Spyglasses bot verification', () => {
+  const impostorUa = 'Mozilla/5.0 (compatible; GPTBot/1.0; +https://openai.com/gptbot)';
+  
+  beforeEach(() => {
+    vi.resetAllMocks();
+    vi.mocked(fetch).mockResolvedValue({
+      ok: true,
+      json: async () => ({
+        version: '1.0.0',
+        patterns: [gptbot],
+        aiReferrers: [],
+        propertySettings: { blockAiModelTrainers: false, customBlocks: [], customAllows: ['type:AI Crawler:Model Training Crawlers:gptbot'] }
+      })
+    } as Response);
+  });
+  
+  it('should mark verified bots and block impostors when configured', async () => {
+    const spyglasses = new Spyglasses({
+      apiKey: 'test-api-key',
+      autoSync: false,
+      verifyBots: { resolver: createResolver({}, {}) },
+      blockUnverifiedBots: true
+    });
+    await spyglasses.syncPatterns();
+    
+    const genuine = await spyglasses.detectVerified(impostorUa, undefined, { ip: '192.0.2.44' });
+    expect((genuine.info as BotInfo).verified).toBe(true);
+    expect(genuine.shouldBlock).toBe(false);
+    
+    const impostor = await spyglasses.detectVerified(impostorUa, undefined, { ip: '203.0.113.10' });
+    expect((impostor.info as BotInfo).verified).toBe(false);
+    expect(impostor.shouldBlock).toBe(true);
+  });
+  
+  it('should report unknown without an IP and not block', async () => {
+    const spyglasses = new Spyglasses({
+      apiKey: 'test-api-key',
+      autoSync: false,
+      verifyBots: { resolver: createResolver({}, {}) },
+      blockUnverifiedBots: true
+    });
+    await spyglasses.syncPatterns();
+    
+    const result = spyglasses.detect(impostorUa);
+    expect((result.info as BotInfo).verified).toBe('unknown');
+    expect(result.shouldBlock).toBe(false);
+  });
+});
@@ -0,0 +1,47 @@
+import { describe, it, expect } from 'vitest';
+import { CircuitBreaker } from '../core/circuit-breaker';
+
+describe('CircuitBreaker', () => {
+  it('should open after the failure threshold is reached', () => {
+    const breaker = new CircuitBreaker({ failureThreshold: 3, resetTimeout: 1000 });
+    
+    breaker.recordFailure(0);
+    breaker.recordFailure(0);
+    expect(breaker.canRequest(0)).toBe(true);
+    
+    breaker.recordFailure(0);
+    expect(breaker.getState()).toEqual({ state: 'open', failures: 3, openedAt: 0 });
+    expect(breaker.canRequest(500)).toBe(false);
+  });
+  
+  it('should let a single probe through after the reset timeout', () => {
+    const breaker = new CircuitBreaker({ failureThreshold: 1, resetTimeout: 1000 });
+    breaker.recordFailure(0);
+    
+    expect(breaker.canRequest(1000)).toBe(true);
+    expect(breaker.getState().state).toBe('half-open');
+    expect(breaker.canRequest(1001)).toBe(false);
+    
+    breaker.recordSuccess();
+    expect(breaker.getState()).toEqual({ state: 'closed', failures: 0, openedAt: null });
+  });
+  
+  it('should reopen when the probe fails', () => {
+    const breaker = new CircuitBreaker({ failureThreshold: 5, resetTimeout: 1000 });
+    for (let i = 0; i < 5; i++) breaker.recordFailure(0);
+    
+    expect(breaker.canRequest(1000)).toBe(true);
+    breaker.recordFailure(1000);
+    
+    expect(breaker.getState()).toEqual({ state: 'open', failures: 6, openedAt: 1000 });
+    expect(breaker.canRequest(1500)).toBe(false);
+  });
+  
+  it('should never block when disabled', () => {
+    const breaker = new CircuitBreaker(false);
+    for (let i = 0; i < 10; i++) breaker.recordFailure(0);
+    
+    expect(breaker.canRequest(0)).toBe(true);
+    expect(breaker.getState()).toEqual({ state: 'closed', failures: 10, openedAt: null });
+  });
+});
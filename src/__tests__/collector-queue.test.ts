@@ -0,0 +1,87 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { CollectorQueue } from '../core/collector-queue';
+import { CollectorPayload } from '../types';
+import { createPayload } from './fixtures/http';
+
+describe('CollectorQueue', () => {
+  beforeEach(() => {
+    vi.useFakeTimers();
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('should flush when a batch fills up', async () => {
+    const send = vi.fn<(batch: CollectorPayload[]) => Promise<void>>(async () => {});
+    const queue = new CollectorQueue(send, { maxBatchSize: 2, flushInterval: 60000 });
+
+    queue.enqueue(createPayload('/a'));
+    expect(send).not.toHaveBeenCalled();
+
+    queue.enqueue(createPayload('/b'));
+    await queue.flush();
+
+    expect(send).toHaveBeenCalledTimes(1);
+    expect(send.mock.calls[0][0].map(p => p.request_path)).toEqual(['/a', '/b']);
+  });
+
+  it('should flush a partial batch after the interval', async () => {
+    const send = vi.fn<(batch: CollectorPayload[]) => Promise<void>>(async () => {});
+    const queue = new CollectorQueue(send, { maxBatchSize: 10, flushInterval: 1000 });
+
+    queue.enqueue(createPayload('/a'));
+    await vi.advanceTimersByTimeAsync(999);
+    expect(send).not.toHaveBeenCalled();
+
+    await vi.advanceTimersByTimeAsync(1);
+    expect(send).toHaveBeenCalledTimes(1);
+    expect(queue.getStats()).toEqual({ queued: 0, sent: 1, failed: 0, dropped: 0 });
+  });
+
+  it('should count batches that fail to send', async () => {
+    const send = vi.fn<(batch: CollectorPayload[]) => Promise<void>>(async () => {});
+    send.mockRejectedValueOnce(new Error('Collector HTTP error 500'));
+    const queue = new CollectorQueue(send, { maxBatchSize: 2, flushInterval: 60000 });
+
+    for (const path of ['/a', '/b', '/c']) {
+      queue.enqueue(createPayload(path));
+    }
+    await queue.flush();
+
+    expect(queue.getStats()).toEqual({ queued: 0, sent: 1, failed: 2, dropped: 0 });
+  });
+
+  it('should drop the oldest payloads when the queue is full', async () => {
+    const send = vi.fn<(batch: CollectorPayload[]) => Promise<void>>(async () => {});
+    // Hold the first batch in flight so the queue fills up behind it
+    let release: () => void = () => {};
+    send.mockImplementationOnce(() => new Promise<void>(resolve => { release = resolve; }));
+    const queue = new CollectorQueue(send, { maxBatchSize: 2, maxQueueSize: 3, flushInterval: 60000 });
+
+    queue.enqueue(createPayload('/1'));
+    queue.enqueue(createPayload('/2'));
+    await Promise.resolve();
+    for (const path of ['/3', '/4', '/5', '/6']) {
+      queue.enqueue(createPayload(path));
+    }
+
+    release();
+    await queue.flush();
+
+    expect(queue.getStats().dropped).toBe(1);
+    const sentPaths = send.mock.calls.flatMap(([batch]) => batch.map(p => p.request_path));
+    expect(sentPaths).toEqual(['/1', '/2', '/4', '/5', '/6']);
+  });
+
+  it('should reject new payloads after shutdown', async () => {
+    const send = vi.fn<(batch: CollectorPayload[]) => Promise<void>>(async () => {});
+    const queue = new CollectorQueue(send, { maxBatchSize: 10 });
+
+    queue.enqueue(createPayload('/a'));
+    await queue.shutdown();
+
+    expect(send).toHaveBeenCalledTimes(1);
+    expect(queue.enqueue(createPayload('/b'))).toBe(false);
+  });
+});
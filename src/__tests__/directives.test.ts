@@ -0,0 +1,77 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { Spyglasses } from '../core/spyglasses';
+import { spyglassesPlugin } from '../integrations/fastify';
+import { MemorySink } from '../sinks';
+import { RobotsDirectiveRule } from '../types';
+import { TestFastify, TestReply, createFastifyRequest } from './fixtures/http';
+
+// Mock fetch for API calls
+global.fetch = vi.fn();
+
+const gptbotUa = 'Mozilla/5.0 (compatible; GPTBot/1.0; +https://openai.com/gptbot)';
+const chatgptUserUa = 'Mozilla/5.0 (compatible; ChatGPT-User/1.0; +https://openai.com/bot)';
+const chromeUa = 'Mozilla/5.0 (Windows NT 10.0; Win64; x64) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/124.0.0.0 Safari/537.36';
+
+const robotsDirectives: RobotsDirectiveRule[] = [
+  { rule: 'subcategory:AI Crawler:Model Training Crawlers', directives: ['noai'] },
+  { rule: 'subcategory:AI Crawler:Model Training Crawlers', contentTypes: ['image/*'], directives: ['noai', 'noimageai'] },
+  { rule: 'type:AI Agent:AI Assistants:chatgpt-user', paths: ['/drafts/**'], directives: ['noindex'] }
+];
+
+describe('X-Robots-Tag directives', () => {
+  beforeEach(() => {
+    vi.resetAllMocks();
+  });
+
+  it('should combine the directives of every matching rule', () => {
+    const spyglasses = new Spyglasses({ autoSync: false, robotsDirectives });
+    const result = spyglasses.detect(gptbotUa);
+
+    expect(spyglasses.getResponseHeaders(result)).toEqual({ 'X-Robots-Tag': 'noai' });
+    expect(spyglasses.getResponseHeaders(result, { path: '/photo.jpg', contentType: 'image/jpeg' })).toEqual({ 'X-Robots-Tag': 'noai, noimageai' });
+  });
+
+  it('should scope directives per bot type and path', () => {
+    const spyglasses = new Spyglasses({ autoSync: false, robotsDirectives });
+    const context = { path: '/drafts/post' };
+
+    expect(spyglasses.getResponseHeaders(spyglasses.detect(chatgptUserUa, undefined, context), context)).toEqual({ 'X-Robots-Tag': 'noindex' });
+    expect(spyglasses.getResponseHeaders(spyglasses.detect(chatgptUserUa), { path: '/posts/1' })).toEqual({});
+    expect(spyglasses.getResponseHeaders(spyglasses.detect(chromeUa), context)).toEqual({});
+  });
+
+  it('should not send directives with blocked responses and skip invalid rules', () => {
+    const spyglasses = new Spyglasses({
+      autoSync: false,
+      customBlocks: ['company:OpenAI'],
+      robotsDirectives: [...robotsDirectives, { rule: 'category' as 'category:x', directives: ['noai'] }]
+    });
+
+    expect(spyglasses.getResponseHeaders(spyglasses.detect(gptbotUa))).toEqual({});
+  });
+
+  it('should return the headers from handle() and record them in collector metadata', async () => {
+    const memory = new MemorySink();
+    const spyglasses = new Spyglasses({ autoSync: false, sinks: [memory], robotsDirectives });
+
+    const { response, headers, logging } = spyglasses.handle(new Request('https://example.com/gallery/cat.png', {
+      headers: { 'user-agent': gptbotUa }
+    }));
+    await logging;
+
+    expect(response).toBeNull();
+    expect(headers).toEqual({ 'X-Robots-Tag': 'noai, noimageai' });
+    expect(memory.records[0].metadata.robots_directives).toEqual(['noai', 'noimageai']);
+  });
+
+  it('should add the headers in the Fastify plugin', async () => {
+    const fastify = new TestFastify();
+    await spyglassesPlugin(fastify, { spyglasses: new Spyglasses({ autoSync: false, robotsDirectives }) });
+    const reply = new TestReply();
+
+    await fastify.onRequest(createFastifyRequest({ url: '/articles/1', headers: { 'user-agent': gptbotUa } }), reply);
+
+    expect(reply.getHeader('X-Robots-Tag')).toBe('noai');
+    expect(reply.sent).toBe(false);
+  });
+});
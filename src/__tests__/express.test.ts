@@ -0,0 +1,183 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import type { IncomingMessage, ServerResponse } from 'http';
+import { Spyglasses } from '../core/spyglasses';
+import { createSpyglassesMiddleware } from '../integrations/express';
+import { ExpressRequestInit, createExpressRequest, createExpressResponse } from './fixtures/http';
+
+// Mock fetch for API calls
+global.fetch = vi.fn();
+
+const GPTBOT_UA = 'Mozilla/5.0 (compatible; GPTBot/1.0; +https://openai.com/gptbot)';
+
+function createRequest(init: ExpressRequestInit = {}) {
+  return createExpressRequest({
+    url: '/docs/page?ref=1',
+    headers: { host: 'example.com', 'user-agent': GPTBOT_UA },
+    remoteAddress: '10.0.0.1',
+    ...init
+  });
+}
+
+describe('Express middleware', () => {
+  let spyglasses: Spyglasses;
+
+  beforeEach(() => {
+    vi.resetAllMocks();
+    vi.mocked(fetch).mockResolvedValue({ ok: true, text: async () => 'OK' } as Response);
+
+    spyglasses = new Spyglasses({
+      apiKey: 'test-api-key',
+      autoSync: false
+    });
+  });
+
+  it('should pass through regular browsers without logging', async () => {
+    const middleware = createSpyglassesMiddleware({ spyglasses });
+    const req = createRequest({ headers: { 'user-agent': 'Mozilla/5.0 (Windows NT 10.0; Win64; x64)' } });
+    const res = createExpressResponse();
+    const next = vi.fn();
+
+    await middleware(req, res, next);
+    res.end();
+
+    expect(next).toHaveBeenCalled();
+    expect(fetch).not.toHaveBeenCalled();
+  });
+
+  it('should log the final response status once the response finishes', async () => {
+    const logSpy = vi.spyOn(spyglasses, 'logRequest');
+    const middleware = createSpyglassesMiddleware({ spyglasses });
+    const req = createRequest({ ip: '203.0.113.7', protocol: 'https', originalUrl: '/docs/page?ref=1', path: '/docs/page' });
+    const res = createExpressResponse();
+    const next = vi.fn();
+
+    await middleware(req, res, next);
+    expect(next).toHaveBeenCalled();
+    expect(logSpy).not.toHaveBeenCalled();
+
+    res.statusCode = 404;
+    res.end();
+
+    expect(logSpy).toHaveBeenCalledWith(
+      expect.objectContaining({ sourceType: 'bot' }),
+      expect.objectContaining({
+        url: 'https://example.com/docs/page?ref=1',
+        path: '/docs/page',
+        query: 'ref=1',
+        ip: '203.0.113.7',
+        responseStatus: 404
+      })
+    );
+  });
+
+  it('should keep a literal ? in the logged query', async () => {
+    const logSpy = vi.spyOn(spyglasses, 'logRequest');
+    const res = createExpressResponse();
+
+    await createSpyglassesMiddleware({ spyglasses })(createRequest({ url: '/x?q=a?b' }), res, vi.fn());
+    res.end();
+
+    expect(logSpy.mock.calls[0][1]).toMatchObject({ path: '/x', query: 'q=a?b' });
+  });
+
+  it('should use X-Forwarded-For only when trustProxy is enabled', async () => {
+    const logSpy = vi.spyOn(spyglasses, 'logRequest');
+    const headers = { host: 'example.com', 'user-agent': GPTBOT_UA, 'x-forwarded-for': '198.51.100.4, 10.0.0.2' };
+
+    const untrusted = createExpressResponse();
+    await createSpyglassesMiddleware({ spyglasses })(createRequest({ headers }), untrusted, vi.fn());
+    untrusted.end();
+
+    const trusted = createExpressResponse();
+    await createSpyglassesMiddleware({ spyglasses, trustProxy: true })(createRequest({ headers }), trusted, vi.fn());
+    trusted.end();
+
+    expect(logSpy.mock.calls[0][1].ip).toBe('10.0.0.1');
+    expect(logSpy.mock.calls[1][1].ip).toBe('198.51.100.4');
+  });
+
+  it('should block and report the status that was sent', async () => {
+    const logSpy = vi.spyOn(spyglasses, 'logRequest');
+    vi.spyOn(spyglasses, 'detect').mockReturnValue({
+      isBot: true,
+      shouldBlock: true,
+      sourceType: 'bot',
+      matchedPattern: 'GPTBot\\/[0-9]'
+    });
+
+    const onBlocked = vi.fn((_req: IncomingMessage, res: ServerResponse) => {
+      res.statusCode = 451;
+      res.end('Unavailable');
+    });
+    const middleware = createSpyglassesMiddleware({ spyglasses, onBlocked });
+    const res = createExpressResponse();
+    const next = vi.fn();
+
+    await middleware(createRequest(), res, next);
+
+    expect(next).not.toHaveBeenCalled();
+    expect(onBlocked).toHaveBeenCalled();
+    expect(logSpy.mock.calls[0][1].responseStatus).toBe(451);
+  });
+
+  it('should pass errors to next instead of rejecting', async () => {
+    const error = new Error('handler failed');
+    const onBlocked = vi.fn(() => {
+      throw error;
+    });
+    const blocking = new Spyglasses({ autoSync: false, customBlocks: ['company:OpenAI'] });
+    const next = vi.fn();
+
+    await expect(createSpyglassesMiddleware({ spyglasses: blocking, onBlocked })(createRequest(), createExpressResponse(), next)).resolves.toBeUndefined();
+    expect(next).toHaveBeenCalledTimes(1);
+    expect(next).toHaveBeenCalledWith(error);
+  });
+
+  it('should log aborted requests on close, and each request only once', async () => {
+    const logSpy = vi.spyOn(spyglasses, 'logRequest');
+    const middleware = createSpyglassesMiddleware({ spyglasses });
+
+    const aborted = createExpressResponse();
+    await middleware(createRequest(), aborted, vi.fn());
+    aborted.emit('close');
+
+    const finished = createExpressResponse();
+    await middleware(createRequest(), finished, vi.fn());
+    finished.end();
+    finished.emit('close');
+
+    expect(logSpy).toHaveBeenCalledTimes(2);
+  });
+
+  it('should answer throttled bots with 429 and Retry-After', async () => {
+    const limited = new Spyglasses({
+      apiKey: 'test-api-key',
+      autoSync: false,
+      rateLimits: [{ rule: 'category:AI Crawler', limit: 1, interval: 60000 }]
+    });
+    const middleware = createSpyglassesMiddleware({ spyglasses: limited });
+    const next = vi.fn();
+
+    await middleware(createRequest(), createExpressResponse(), next);
+    expect(next).toHaveBeenCalledTimes(1);
+
+    const res = createExpressResponse();
+    await middleware(createRequest(), res, next);
+
+    expect(next).toHaveBeenCalledTimes(1);
+    expect(res.statusCode).toBe(429);
+    expect(res.getHeader('Retry-After')).toBe('60');
+  });
+
+  it('should skip configured paths', async () => {
+    const detectSpy = vi.spyOn(spyglasses, 'detect');
+    const middleware = createSpyglassesMiddleware({ spyglasses, skipPaths: ['/healthz', /^\/static\//] });
+    const next = vi.fn();
+
+    await middleware(createRequest({ url: '/healthz' }), createExpressResponse(), next);
+    await middleware(createRequest({ url: '/static/app.js' }), createExpressResponse(), next);
+
+    expect(next).toHaveBeenCalledTimes(2);
+    expect(detectSpy).not.toHaveBeenCalled();
+  });
+});
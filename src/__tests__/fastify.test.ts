@@ -0,0 +1,183 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { readFileSync } from 'fs';
+import { join } from 'path';
+import ts from 'typescript';
+import { Spyglasses } from '../core/spyglasses';
+import { FastifyRequestLike, spyglassesPlugin } from '../integrations/fastify';
+import { MemorySink } from '../sinks';
+import { TestFastify, TestReply, createFastifyRequest } from './fixtures/http';
+
+// Mock fetch for API calls
+global.fetch = vi.fn();
+
+const GPTBOT_UA = 'Mozilla/5.0 (compatible; GPTBot/1.0; +https://openai.com/gptbot)';
+
+function createRequest(init: Partial<FastifyRequestLike> = {}) {
+  return createFastifyRequest({
+    url: '/articles/1?ref=feed',
+    ip: '203.0.113.5',
+    protocol: 'https',
+    hostname: 'example.com',
+    headers: { 'user-agent': GPTBOT_UA },
+    ...init
+  });
+}
+
+function createReply() {
+  return Object.assign(new TestReply(), { elapsedTime: 12.4 });
+}
+
+describe('Fastify plugin', () => {
+  let spyglasses: Spyglasses;
+
+  beforeEach(() => {
+    vi.resetAllMocks();
+    vi.mocked(fetch).mockResolvedValue({ ok: true, text: async () => 'OK' } as Response);
+
+    spyglasses = new Spyglasses({
+      apiKey: 'test-api-key',
+      autoSync: false
+    });
+  });
+
+  it('should share its decorator and hooks with the parent scope', () => {
+    expect(spyglassesPlugin[Symbol.for('skip-override')]).toBe(true);
+  });
+
+  it('should decorate the request with the detection result', async () => {
+    const fastify = new TestFastify();
+    await spyglassesPlugin(fastify, { spyglasses });
+
+    const request = createRequest();
+    const reply = createReply();
+    await fastify.onRequest(request, reply);
+
+    expect(fastify.decorations).toEqual({ spyglasses: null });
+    expect(request.spyglasses?.sourceType).toBe('bot');
+    expect(reply.sent).toBe(false);
+  });
+
+  it('should log from onResponse with the final status and response time', async () => {
+    const logSpy = vi.spyOn(spyglasses, 'logRequest');
+    const fastify = new TestFastify();
+    await spyglassesPlugin(fastify, { spyglasses });
+
+    const request = createRequest();
+    const reply = createReply();
+    await fastify.onRequest(request, reply);
+    reply.statusCode = 201;
+    await fastify.onResponse(request, reply);
+
+    expect(logSpy).toHaveBeenCalledWith(
+      expect.objectContaining({ sourceType: 'bot' }),
+      expect.objectContaining({
+        url: 'https://example.com/articles/1?ref=feed',
+        path: '/articles/1',
+        query: 'ref=feed',
+        ip: '203.0.113.5',
+        responseStatus: 201,
+        responseTime: 12
+      })
+    );
+  });
+
+  it('should keep a literal ? in the logged query', async () => {
+    const logSpy = vi.spyOn(spyglasses, 'logRequest');
+    const fastify = new TestFastify();
+    await spyglassesPlugin(fastify, { spyglasses });
+
+    const request = createRequest({ url: '/search?q=a?b' });
+    const reply = createReply();
+    await fastify.onRequest(request, reply);
+    await fastify.onResponse(request, reply);
+
+    expect(logSpy.mock.calls[0][1]).toMatchObject({ path: '/search', query: 'q=a?b' });
+  });
+
+  it('should block through the reply API unless the route opts out', async () => {
+    vi.spyOn(spyglasses, 'detect').mockReturnValue({
+      isBot: true,
+      shouldBlock: true,
+      sourceType: 'bot'
+    });
+    const fastify = new TestFastify();
+    await spyglassesPlugin(fastify, { spyglasses });
+
+    const blockedReply = createReply();
+    await fastify.onRequest(createRequest(), blockedReply);
+    expect(blockedReply.statusCode).toBe(403);
+    expect(blockedReply.payload).toBe('Access Denied');
+
+    const optedOutReply = createReply();
+    const optedOutRequest = createRequest({ routeOptions: { config: { spyglasses: { block: false } } } });
+    await fastify.onRequest(optedOutRequest, optedOutReply);
+    expect(optedOutReply.sent).toBe(false);
+    expect(optedOutRequest.spyglasses).toMatchObject({ shouldBlock: false, action: 'log-only', wouldBlock: true });
+  });
+
+  it('should log requests let through on opted-out routes as not blocked', async () => {
+    const memory = new MemorySink();
+    const blocking = new Spyglasses({ autoSync: false, sinks: [memory], customBlocks: ['company:OpenAI'] });
+    const fastify = new TestFastify();
+    await spyglassesPlugin(fastify, { spyglasses: blocking });
+
+    const request = createRequest({ routeOptions: { config: { spyglasses: { block: false } } } });
+    const reply = createReply();
+    await fastify.onRequest(request, reply);
+    await fastify.onResponse(request, reply);
+    await blocking.flush();
+
+    expect(memory.records[0].response_status).toBe(200);
+    expect(memory.records[0].metadata).toMatchObject({ was_blocked: false, would_block: true, action: 'log-only' });
+  });
+
+  it('should reply 429 to throttled bots', async () => {
+    const limited = new Spyglasses({
+      apiKey: 'test-api-key',
+      autoSync: false,
+      rateLimits: [{ rule: 'company:OpenAI', limit: 1, interval: 60000 }]
+    });
+    const fastify = new TestFastify();
+    await spyglassesPlugin(fastify, { spyglasses: limited });
+
+    await fastify.onRequest(createRequest(), createReply());
+    const reply = createReply();
+    await fastify.onRequest(createRequest(), reply);
+
+    expect(reply.statusCode).toBe(429);
+    expect(reply.getHeader('Retry-After')).toBe('60');
+    expect(reply.payload).toBe('Too Many Requests');
+  });
+});
+
+describe('Fastify plugin types', () => {
+  it('should compile the README example against Fastify\'s own types', () => {
+    const root = join(__dirname, '..', '..');
+    const readme = readFileSync(join(root, 'README.md'), 'utf8');
+    const example = /```typescript\n([\s\S]*?)```/.exec(readme.slice(readme.indexOf('## Fastify Integration')))?.[1] || '';
+    const fileName = join(root, 'src', '__tests__', 'readme-fastify-example.ts');
+    const options: ts.CompilerOptions = {
+      strict: true,
+      noEmit: true,
+      skipLibCheck: true,
+      esModuleInterop: true,
+      target: ts.ScriptTarget.ES2022,
+      module: ts.ModuleKind.ESNext,
+      moduleResolution: ts.ModuleResolutionKind.Bundler,
+      baseUrl: root,
+      paths: { '@spyglasses/sdk/fastify': ['src/integrations/fastify.ts'] }
+    };
+
+    // Serve the example as a virtual source file
+    const host = ts.createCompilerHost(options);
+    const { fileExists, readFile } = host;
+    host.fileExists = name => name === fileName || fileExists(name);
+    host.readFile = name => name === fileName ? example : readFile(name);
+
+    const program = ts.createProgram([fileName], options, host);
+    const errors = ts.getPreEmitDiagnostics(program).map(diagnostic => ts.flattenDiagnosticMessageText(diagnostic.messageText, '\n'));
+
+    expect(example).toContain('request.spyglasses?.sourceType');
+    expect(errors).toEqual([]);
+  }, 60000);
+});
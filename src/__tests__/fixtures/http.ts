@@ -0,0 +1,147 @@
+import { IncomingMessage, ServerResponse } from 'http';
+import { Socket } from 'net';
+import type { ExpressRequestLike } from '../../integrations/express';
+import type { FastifyInstanceLike, FastifyReplyLike, FastifyRequestLike } from '../../integrations/fastify';
+import type { CollectorPayload } from '../../types';
+
+type FastifyHookName = Parameters<FastifyInstanceLike['addHook']>[0];
+type FastifyHook = Parameters<FastifyInstanceLike['addHook']>[1];
+
+/**
+ * Express request fields to set, plus the address the socket reports
+ */
+export type ExpressRequestInit = Partial<Pick<ExpressRequestLike, 'method' | 'url' | 'headers' | 'ip' | 'hostname' | 'path' | 'protocol' | 'originalUrl'>> & {
+  remoteAddress?: string;
+};
+
+/**
+ * Build a Node.js request as the Express middleware receives it. Leave out
+ * the Express fields to get a plain Connect/Node request.
+ */
+export function createExpressRequest(init: ExpressRequestInit = {}): ExpressRequestLike {
+  const { remoteAddress, ...fields } = init;
+  const socket = new Socket();
+  if (remoteAddress) {
+    Object.defineProperty(socket, 'remoteAddress', { value: remoteAddress });
+  }
+  return Object.assign(new IncomingMessage(socket), { method: 'GET', url: '/', headers: {}, ...fields });
+}
+
+/**
+ * Node.js response with no socket attached. It records the body and
+ * finishes as soon as it is ended.
+ */
+export class TestResponse extends ServerResponse {
+  public body: unknown;
+
+  /**
+   * End the response, keeping the body and emitting 'finish'
+   */
+  public end(chunk?: unknown): this {
+    this.body = chunk;
+    super.end();
+    this.emit('finish');
+    return this;
+  }
+}
+
+/**
+ * Build a response for a request from createExpressRequest()
+ */
+export function createExpressResponse(req: IncomingMessage = createExpressRequest()): TestResponse {
+  return new TestResponse(req);
+}
+
+/**
+ * Build a Fastify request, with the raw Node.js request behind it
+ */
+export function createFastifyRequest(init: Partial<FastifyRequestLike> = {}): FastifyRequestLike {
+  return { raw: new IncomingMessage(new Socket()), method: 'GET', url: '/', headers: {}, ...init };
+}
+
+/**
+ * Fastify reply that records what the plugin sends
+ */
+export class TestReply implements FastifyReplyLike {
+  public statusCode = 200;
+  public elapsedTime?: number;
+  public headers: Record<string, string> = {};
+  public sent = false;
+  public payload: unknown;
+
+  public code(statusCode: number): this {
+    this.statusCode = statusCode;
+    return this;
+  }
+
+  public header(name: string, value: string): this {
+    this.headers[name.toLowerCase()] = value;
+    return this;
+  }
+
+  public getHeader(name: string): string | undefined {
+    return this.headers[name.toLowerCase()];
+  }
+
+  public send(payload?: unknown): this {
+    this.sent = true;
+    this.payload = payload;
+    return this;
+  }
+}
+
+/**
+ * Fastify instance that records the plugin's decorators and hooks, and runs
+ * the hooks the way Fastify would
+ */
+export class TestFastify implements FastifyInstanceLike {
+  public decorations: Record<string, unknown> = {};
+  private hooks: Partial<Record<FastifyHookName, FastifyHook>> = {};
+
+  public decorateRequest(name: string, value: unknown): void {
+    this.decorations[name] = value;
+  }
+
+  public addHook(name: FastifyHookName, hook: FastifyHook): void {
+    this.hooks[name] = hook;
+  }
+
+  /**
+   * Run the onRequest hook, as Fastify does when a request arrives
+   */
+  public onRequest(request: FastifyRequestLike, reply: FastifyReplyLike): Promise<unknown> {
+    return this.runHook('onRequest', request, reply);
+  }
+
+  /**
+   * Run the onResponse hook, as Fastify does once the reply has been sent
+   */
+  public onResponse(request: FastifyRequestLike, reply: FastifyReplyLike): Promise<unknown> {
+    return this.runHook('onResponse', request, reply);
+  }
+
+  private async runHook(name: FastifyHookName, request: FastifyRequestLike, reply: FastifyReplyLike): Promise<unknown> {
+    const hook = this.hooks[name];
+    if (!hook) {
+      throw new Error(`No ${name} hook registered`);
+    }
+    return hook(request, reply);
+  }
+}
+
+/**
+ * Build the collector payload for a GPTBot GET request to a path
+ */
+export function createPayload(path: string): CollectorPayload {
+  return {
+    url: `https://example.com${path}`,
+    user_agent: 'GPTBot/1.0',
+    request_method: 'GET',
+    request_path: path,
+    response_status: 200,
+    response_time_ms: 5,
+    headers: {},
+    timestamp: new Date().toISOString(),
+    metadata: { was_blocked: false }
+  };
+}
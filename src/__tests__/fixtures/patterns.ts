@@ -0,0 +1,58 @@
+import { BotPattern } from '../../types';
+
+const BOT_NAMES = [
+  'GPTBot', 'ChatGPT-User', 'OAI-SearchBot', 'ClaudeBot', 'Claude-User', 'Claude-SearchBot', 'anthropic-ai',
+  'PerplexityBot', 'Perplexity-User', 'Google-Extended', 'Googlebot', 'Googlebot-Image', 'Googlebot-News',
+  'Bingbot', 'BingPreview', 'DuckDuckBot', 'YandexBot', 'Baiduspider', 'Applebot', 'Applebot-Extended',
+  'Bytespider', 'CCBot', 'Diffbot', 'FacebookBot', 'meta-externalagent', 'meta-externalfetcher', 'Amazonbot',
+  'cohere-ai', 'YouBot', 'AhrefsBot', 'SemrushBot', 'MJ12bot', 'DotBot', 'PetalBot', 'SeznamBot', 'Sogou',
+  'Exabot', 'ia_archiver', 'archive.org_bot', 'Twitterbot', 'LinkedInBot', 'Slackbot', 'Discordbot',
+  'TelegramBot', 'WhatsApp', 'Pinterestbot', 'redditbot', 'Timpibot', 'ImagesiftBot', 'omgili', 'Webzio',
+  'ICC-Crawler', 'Kangaroo Bot', 'img2dataset', 'Scrapy', 'python-requests', 'Go-http-client', 'curl', 'Wget',
+  'HeadlessChrome', 'PhantomJS', 'Puppeteer', 'Playwright', 'Selenium', 'axios', 'node-fetch', 'okhttp',
+  'Java', 'libwww-perl', 'httpx', 'aiohttp', 'colly', 'Nutch', 'Heritrix', 'SiteAuditBot', 'Screaming Frog',
+  'UptimeRobot', 'Pingdom', 'StatusCake', 'BLEXBot', 'DataForSeoBot', 'serpstatbot', 'Barkrowler', 'MegaIndex'
+];
+
+/**
+ * Build a realistic pattern list of a few hundred entries, mixing simple
+ * versioned patterns with alternations, optional parts and anchors
+ */
+export function createPatterns(count: number = 400): BotPattern[] {
+  const patterns: BotPattern[] = [];
+  for (let i = 0; patterns.length < count; i++) {
+    const name = BOT_NAMES[i % BOT_NAMES.length].replace(/[.*+?^${}()|[\]\\/]/g, '\\$&');
+    const variant = Math.floor(i / BOT_NAMES.length);
+    const source = [
+      `${name}\\/[0-9]`,
+      `${name}-v${variant}\\/[0-9.]+`,
+      `(?:compatible; )?${name}${variant}`,
+      `${name}_(?:crawler|spider)${variant}`,
+      `^${name}-${variant}`
+    ][variant % 5];
+    patterns.push({
+      pattern: source,
+      type: `bot-${i}`,
+      category: 'Crawler',
+      subcategory: 'Other',
+      company: null
+    });
+  }
+  return patterns;
+}
+
+export const BROWSER_USER_AGENTS = [
+  'Mozilla/5.0 (Windows NT 10.0; Win64; x64) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/124.0.0.0 Safari/537.36',
+  'Mozilla/5.0 (Macintosh; Intel Mac OS X 10_15_7) AppleWebKit/605.1.15 (KHTML, like Gecko) Version/17.4 Safari/605.1.15',
+  'Mozilla/5.0 (iPhone; CPU iPhone OS 17_4 like Mac OS X) AppleWebKit/605.1.15 (KHTML, like Gecko) Version/17.4 Mobile/15E148 Safari/604.1',
+  'Mozilla/5.0 (X11; Linux x86_64; rv:125.0) Gecko/20100101 Firefox/125.0',
+  'Mozilla/5.0 (Linux; Android 14; Pixel 8) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/124.0.0.0 Mobile Safari/537.36'
+];
+
+export const BOT_USER_AGENTS = [
+  'Mozilla/5.0 AppleWebKit/537.36 (KHTML, like Gecko; compatible; GPTBot/1.2; +https://openai.com/gptbot)',
+  'Mozilla/5.0 (compatible; Googlebot/2.1; +http://www.google.com/bot.html)',
+  'Mozilla/5.0 (compatible; AhrefsBot/7.0; +http://ahrefs.com/robot/)',
+  'python-requests/2.31.0',
+  'curl/8.4.0'
+];
@@ -0,0 +1,144 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { mkdtemp, writeFile } from 'fs/promises';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { IpClassifier, parseRangeFile } from '../core/ip-classifier';
+import { Spyglasses } from '../core/spyglasses';
+import { MemorySink } from '../sinks';
+
+// Mock fetch for API calls
+global.fetch = vi.fn();
+
+const awsRanges = {
+  syncToken: '1',
+  prefixes: [{ ip_prefix: '3.5.140.0/22', region: 'ap-northeast-2', service: 'EC2' }],
+  ipv6_prefixes: [{ ipv6_prefix: '2600:1f14::/35', region: 'us-west-2', service: 'EC2' }]
+};
+
+const gcpRanges = {
+  syncToken: '1',
+  prefixes: [{ ipv4Prefix: '34.80.0.0/15', service: 'Google Cloud', scope: 'asia-east1' }]
+};
+
+const azureRanges = {
+  changeNumber: 1,
+  cloud: 'Public',
+  values: [
+    { name: 'AzureCloud.westeurope', properties: { region: 'westeurope', systemService: '', addressPrefixes: ['20.50.0.0/18'] } }
+  ]
+};
+
+const chromeUa = 'Mozilla/5.0 (Windows NT 10.0; Win64; x64) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/124.0.0.0 Safari/537.36';
+const requestInfo = {
+  url: 'https://example.com/page',
+  method: 'GET',
+  path: '/page',
+  userAgent: chromeUa,
+  headers: {}
+};
+
+describe('IpClassifier', () => {
+  it('should parse AWS, GCP and Azure range files', () => {
+    expect(parseRangeFile(awsRanges)).toEqual([
+      { provider: 'aws', range: '3.5.140.0/22', region: 'ap-northeast-2', service: 'EC2' },
+      { provider: 'aws', range: '2600:1f14::/35', region: 'us-west-2', service: 'EC2' }
+    ]);
+    expect(parseRangeFile(gcpRanges)).toEqual([
+      { provider: 'gcp', range: '34.80.0.0/15', region: 'asia-east1', service: 'Google Cloud' }
+    ]);
+    expect(parseRangeFile(azureRanges)).toEqual([
+      { provider: 'azure', range: '20.50.0.0/18', region: 'westeurope', service: 'AzureCloud.westeurope' }
+    ]);
+    expect(parseRangeFile(['198.51.100.0/24'], 'hetzner')).toEqual([{ provider: 'hetzner', range: '198.51.100.0/24' }]);
+    expect(() => parseRangeFile({ foo: 'bar' })).toThrow('Unrecognized range file format');
+  });
+  
+  it('should load range files and report per-file errors', async () => {
+    const dir = await mkdtemp(join(tmpdir(), 'spyglasses-'));
+    await writeFile(join(dir, 'aws.json'), JSON.stringify(awsRanges));
+    await writeFile(join(dir, 'gcp.json'), JSON.stringify(gcpRanges));
+    await writeFile(join(dir, 'broken.json'), '{ not json');
+    
+    const classifier = new IpClassifier({
+      rangeFiles: [join(dir, 'aws.json'), { path: join(dir, 'gcp.json'), provider: 'google' }, join(dir, 'broken.json')]
+    });
+    const result = await classifier.load();
+    
+    expect(result.loaded).toBe(3);
+    expect(result.errors).toHaveLength(1);
+    expect(result.errors[0]).toContain('broken.json');
+    expect(classifier.classify('3.5.141.7')?.provider).toBe('aws');
+    expect(classifier.classify('2600:1f14::10')?.region).toBe('us-west-2');
+    expect(classifier.classify('34.81.0.1')?.provider).toBe('google');
+    expect(classifier.classify('203.0.113.1')).toBeNull();
+  });
+  
+  it('should classify inline ranges without loading files', () => {
+    const classifier = new IpClassifier({ ranges: { hetzner: ['198.51.100.0/24'] } });
+    
+    expect(classifier.classify('198.51.100.7')).toEqual({ provider: 'hetzner', range: '198.51.100.0/24' });
+    expect(classifier.classify(undefined)).toBeNull();
+  });
+});
+
+describe('Spyglasses datacenter classification', () => {
+  beforeEach(() => {
+    vi.resetAllMocks();
+  });
+  
+  it('should flag browser traffic from datacenter IPs by default', () => {
+    const spyglasses = new Spyglasses({ autoSync: false, datacenter: { ranges: { aws: ['3.5.140.0/22'] } } });
+    
+    const result = spyglasses.detect(chromeUa, undefined, { ip: '3.5.140.20' });
+    expect(result).toEqual({
+      isBot: false,
+      shouldBlock: false,
+      action: 'allow',
+      sourceType: 'datacenter',
+      datacenter: { provider: 'aws', range: '3.5.140.0/22' }
+    });
+    
+    expect(spyglasses.detect(chromeUa, undefined, { ip: '203.0.113.1' }).sourceType).toBe('none');
+  });
+  
+  it('should block datacenter browser traffic with the block policy', () => {
+    const spyglasses = new Spyglasses({ autoSync: false, datacenter: { ranges: { aws: ['3.5.140.0/22'] }, policy: 'block' } });
+    
+    expect(spyglasses.detect(chromeUa, undefined, { ip: '3.5.140.20' }).shouldBlock).toBe(true);
+  });
+  
+  it('should only annotate results with the allow policy', () => {
+    const spyglasses = new Spyglasses({ autoSync: false, datacenter: { ranges: { aws: ['3.5.140.0/22'] }, policy: 'allow' } });
+    
+    const result = spyglasses.detect(chromeUa, undefined, { ip: '3.5.140.20' });
+    expect(result.sourceType).toBe('none');
+    expect(result.datacenter?.provider).toBe('aws');
+  });
+  
+  it('should keep bot classification for crawlers in datacenters', () => {
+    const spyglasses = new Spyglasses({ autoSync: false, datacenter: { ranges: { aws: ['3.5.140.0/22'] }, policy: 'block' } });
+    
+    const result = spyglasses.detect('Mozilla/5.0 (compatible; ChatGPT-User/1.0)', undefined, { ip: '3.5.140.20' });
+    expect(result.sourceType).toBe('bot');
+    expect(result.shouldBlock).toBe(false);
+    expect(result.datacenter?.provider).toBe('aws');
+  });
+  
+  it('should include datacenter details in collector metadata', async () => {
+    const memory = new MemorySink();
+    const spyglasses = new Spyglasses({ autoSync: false, sinks: [memory], datacenter: { ranges: { gcp: ['34.80.0.0/15'] } } });
+    
+    const result = spyglasses.detect(chromeUa, undefined, { ip: '34.80.1.1' });
+    await spyglasses.logRequest(result, { ...requestInfo, ip: '34.80.1.1' });
+    
+    expect(memory.records[0].metadata).toEqual({
+      was_blocked: false,
+      would_block: false,
+      action: 'allow',
+      source_type: 'datacenter',
+      detection_method: 'ip_range',
+      is_datacenter: true,
+      datacenter_provider: 'gcp'
+    });
+  });
+});
@@ -0,0 +1,68 @@
+import { describe, it, expect } from 'vitest';
+import { CidrSet, ipEquals, ipInCidr, parseCidr, parseIp } from '../utils/ip';
+
+describe('IP utilities', () => {
+  it('should parse IPv4 and IPv6 addresses', () => {
+    expect(parseIp('192.0.2.1')).toEqual({ version: 4, bytes: [192, 0, 2, 1] });
+    expect(parseIp('2001:db8::1')?.bytes).toEqual([0x20, 0x01, 0x0d, 0xb8, 0, 0, 0, 0, 0, 0, 0, 0, 0, 0, 0, 1]);
+    expect(parseIp('::ffff:192.0.2.1')).toEqual({ version: 4, bytes: [192, 0, 2, 1] });
+  });
+  
+  it('should reject invalid addresses', () => {
+    expect(parseIp('256.0.0.1')).toBeNull();
+    expect(parseIp('1.2.3')).toBeNull();
+    expect(parseIp('2001:db8::1::2')).toBeNull();
+    expect(parseIp('not-an-ip')).toBeNull();
+  });
+  
+  it('should match addresses against CIDR blocks', () => {
+    expect(ipInCidr('192.0.2.77', '192.0.2.0/24')).toBe(true);
+    expect(ipInCidr('192.0.3.1', '192.0.2.0/24')).toBe(false);
+    expect(ipInCidr('10.1.2.3', '10.0.0.0/12')).toBe(true);
+    expect(ipInCidr('10.16.0.1', '10.0.0.0/12')).toBe(false);
+    expect(ipInCidr('2001:db8:abcd::1', '2001:db8::/32')).toBe(true);
+    expect(ipInCidr('2001:db9::1', '2001:db8::/32')).toBe(false);
+    expect(ipInCidr('::ffff:192.0.2.5', '192.0.2.0/24')).toBe(true);
+    expect(ipInCidr('192.0.2.5', '2001:db8::/32')).toBe(false);
+  });
+  
+  it('should treat a bare address as a single-host block', () => {
+    expect(parseCidr('192.0.2.1')?.prefixLength).toBe(32);
+    expect(parseCidr('192.0.2.0/33')).toBeNull();
+  });
+  
+  it('should compare addresses regardless of notation', () => {
+    expect(ipEquals('2001:db8:0:0:0:0:0:1', '2001:db8::1')).toBe(true);
+    expect(ipEquals('::ffff:192.0.2.1', '192.0.2.1')).toBe(true);
+    expect(ipEquals('192.0.2.1', '192.0.2.2')).toBe(false);
+  });
+  
+  describe('CidrSet', () => {
+    it('should return the most specific matching block', () => {
+      const set = new CidrSet<string>();
+      set.add('10.0.0.0/8', 'wide');
+      set.add('10.1.0.0/16', 'narrow');
+      set.add('2001:db8::/32', 'v6');
+      
+      expect(set.match('10.1.2.3')).toEqual({ cidr: '10.1.0.0/16', value: 'narrow' });
+      expect(set.match('10.2.0.1')?.value).toBe('wide');
+      expect(set.match('::ffff:10.1.0.1')?.value).toBe('narrow');
+      expect(set.match('2001:db8::1')?.value).toBe('v6');
+      expect(set.match('192.0.2.1')).toBeNull();
+      expect(set.has('not-an-ip')).toBe(false);
+    });
+    
+    it('should count distinct blocks and skip invalid ones', () => {
+      const set = new CidrSet<boolean>();
+      
+      expect(set.add('192.0.2.0/24', true)).toBe(true);
+      expect(set.add('192.0.2.0/24', false)).toBe(true);
+      expect(set.add('192.0.2.0/40', true)).toBe(false);
+      expect(set.size).toBe(1);
+      expect(set.match('192.0.2.9')?.value).toBe(true);
+      
+      set.clear();
+      expect(set.has('192.0.2.9')).toBe(false);
+    });
+  });
+});
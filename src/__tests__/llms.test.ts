@@ -0,0 +1,106 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { buildLlmsFullTxt, buildLlmsTxt } from '../core/llms';
+import { Spyglasses } from '../core/spyglasses';
+import { createSpyglassesMiddleware } from '../integrations/express';
+import { MemorySink } from '../sinks';
+import { LlmsTxtManifest } from '../types';
+import { createExpressRequest, createExpressResponse } from './fixtures/http';
+
+// Mock fetch for API calls
+global.fetch = vi.fn();
+
+const chatgptUserUa = 'Mozilla/5.0 (compatible; ChatGPT-User/1.0; +https://openai.com/bot)';
+const gptbotUa = 'Mozilla/5.0 (compatible; GPTBot/1.0; +https://openai.com/gptbot)';
+
+const manifest: LlmsTxtManifest = {
+  title: 'Example Docs',
+  summary: 'Guides and API reference for Example.',
+  pages: [
+    { title: 'Quick Start', url: 'https://example.com/docs/start', summary: 'Install and configure', body: '# Quick Start\n\nRun `npm install example`.' },
+    { title: 'Changelog', url: 'https://example.com/changelog', section: 'Optional' },
+    { title: 'API', url: 'https://example.com/docs/api', summary: 'Every endpoint', section: 'Reference' }
+  ]
+};
+
+describe('llms.txt builders', () => {
+  it('should list pages by section with the Optional section last', () => {
+    expect(buildLlmsTxt(manifest)).toBe([
+      '# Example Docs',
+      '',
+      '> Guides and API reference for Example.',
+      '',
+      '## Pages',
+      '',
+      '- [Quick Start](https://example.com/docs/start): Install and configure',
+      '',
+      '## Reference',
+      '',
+      '- [API](https://example.com/docs/api): Every endpoint',
+      '',
+      '## Optional',
+      '',
+      '- [Changelog](https://example.com/changelog)',
+      ''
+    ].join('\n'));
+  });
+
+  it('should include page bodies in llms-full.txt, falling back to summaries', () => {
+    const full = buildLlmsFullTxt({ ...manifest, details: 'Everything on one page.' });
+
+    expect(full).toMatch(/^# Example Docs\n\n> Guides and API reference for Example.\n\nEverything on one page.\n\n## Quick Start\n\nSource: https:\/\/example.com\/docs\/start\n\n# Quick Start\n\nRun `npm install example`.\n/);
+    expect(full).toContain('## API\n\nSource: https://example.com/docs/api\n\nEvery endpoint\n');
+    expect(full).toContain('## Changelog\n\nSource: https://example.com/changelog\n');
+  });
+});
+
+describe('Spyglasses llms.txt', () => {
+  beforeEach(() => {
+    vi.resetAllMocks();
+  });
+
+  it('should serve llms.txt and log AI agent hits as their own event type', async () => {
+    const memory = new MemorySink();
+    const spyglasses = new Spyglasses({ autoSync: false, sinks: [memory], llmsTxt: manifest });
+
+    const { response, logging } = spyglasses.handle(new Request('https://example.com/llms.txt', {
+      headers: { 'user-agent': chatgptUserUa }
+    }));
+    await logging;
+
+    expect(response?.status).toBe(200);
+    expect(response?.headers.get('content-type')).toBe('text/markdown; charset=utf-8');
+    expect(await response?.text()).toBe(buildLlmsTxt(manifest));
+    expect(memory.records[0]).toMatchObject({ event_type: 'llms_txt', request_path: '/llms.txt', response_status: 200 });
+    expect(memory.records[0].metadata.intent).toBe('UserQuery');
+  });
+
+  it('should not set an event type for other requests', async () => {
+    const memory = new MemorySink();
+    const spyglasses = new Spyglasses({ autoSync: false, sinks: [memory], llmsTxt: manifest });
+
+    await spyglasses.handle(new Request('https://example.com/docs', { headers: { 'user-agent': chatgptUserUa } })).logging;
+    await spyglasses.handle(new Request('https://example.com/llms.txt', { headers: { 'user-agent': 'Mozilla/5.0 (Windows NT 10.0; Win64; x64)' } })).logging;
+
+    expect(memory.records).toHaveLength(1);
+    expect(memory.records[0].event_type).toBeUndefined();
+  });
+
+  it('should withhold llms.txt files from blocked bots', () => {
+    const spyglasses = new Spyglasses({ autoSync: false, llmsTxt: manifest, customBlocks: ['category:AI Crawler'] });
+
+    const { response } = spyglasses.handle(new Request('https://example.com/llms-full.txt', { headers: { 'user-agent': gptbotUa } }));
+    expect(response?.status).toBe(403);
+    expect(spyglasses.getFileResponse('/llms-full.txt')?.body).toBe(buildLlmsFullTxt(manifest));
+  });
+
+  it('should serve llms-full.txt from the Express middleware', async () => {
+    const spyglasses = new Spyglasses({ autoSync: false, llmsTxt: manifest });
+    const request = createExpressRequest({ url: '/llms-full.txt', headers: { host: 'example.com', 'user-agent': chatgptUserUa } });
+    const res = createExpressResponse(request);
+    const next = vi.fn();
+
+    await createSpyglassesMiddleware({ spyglasses })(request, res, next);
+    expect(next).not.toHaveBeenCalled();
+    expect(res.body).toBe(buildLlmsFullTxt(manifest));
+  });
+});
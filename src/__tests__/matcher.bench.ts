@@ -0,0 +1,51 @@
+import { bench, describe } from 'vitest';
+import { PatternMatcher } from '../core/matcher';
+import { BOT_USER_AGENTS, BROWSER_USER_AGENTS, createPatterns } from './fixtures/patterns';
+
+const patterns = createPatterns(400);
+const regexes = patterns.map(pattern => new RegExp(pattern.pattern, 'i'));
+const matcher = new PatternMatcher(patterns);
+
+/**
+ * The previous detectBot strategy: test every regex in order
+ */
+function sequentialMatch(userAgent: string): number {
+  for (let i = 0; i < regexes.length; i++) {
+    if (regexes[i].test(userAgent)) {
+      return i;
+    }
+  }
+  return -1;
+}
+
+describe('browser user agents (no match)', () => {
+  bench('sequential regexes', () => {
+    for (const userAgent of BROWSER_USER_AGENTS) {
+      sequentialMatch(userAgent);
+    }
+  });
+
+  bench('PatternMatcher', () => {
+    for (const userAgent of BROWSER_USER_AGENTS) {
+      matcher.match(userAgent);
+    }
+  });
+});
+
+describe('bot user agents', () => {
+  bench('sequential regexes', () => {
+    for (const userAgent of BOT_USER_AGENTS) {
+      sequentialMatch(userAgent);
+    }
+  });
+
+  bench('PatternMatcher', () => {
+    for (const userAgent of BOT_USER_AGENTS) {
+      matcher.match(userAgent);
+    }
+  });
+});
+
+bench('PatternMatcher compile (400 patterns)', () => {
+  new PatternMatcher(patterns);
+});
@@ -0,0 +1,90 @@
+import { describe, it, expect } from 'vitest';
+import { extractLiteral, PatternMatcher } from '../core/matcher';
+import { BotPattern } from '../types';
+import { BOT_USER_AGENTS, BROWSER_USER_AGENTS, createPatterns } from './fixtures/patterns';
+
+function createPattern(pattern: string): BotPattern {
+  return { pattern, type: pattern, category: 'Crawler', subcategory: 'Other', company: null };
+}
+
+/**
+ * Reference implementation: test each pattern in order
+ */
+function naiveMatch(patterns: BotPattern[], userAgent: string): BotPattern | null {
+  for (const pattern of patterns) {
+    try {
+      if (new RegExp(pattern.pattern, 'i').test(userAgent)) {
+        return pattern;
+      }
+    } catch (error) {
+      // Invalid patterns are skipped
+    }
+  }
+  return null;
+}
+
+describe('extractLiteral', () => {
+  it('should extract the longest required literal', () => {
+    expect(extractLiteral('GPTBot\\/[0-9]')).toBe('gptbot/');
+    expect(extractLiteral('Chrome-Lighthouse')).toBe('chrome-lighthouse');
+    expect(extractLiteral('^python-requests\\/')).toBe('python-requests/');
+    expect(extractLiteral('(?:compatible; )?Bingbot\\d')).toBe('bingbot');
+  });
+  
+  it('should drop optional characters', () => {
+    expect(extractLiteral('Googlebots?')).toBe('googlebot');
+    expect(extractLiteral('abc*defg')).toBe('defg');
+    expect(extractLiteral('ab{0,2}c')).toBe('a');
+  });
+  
+  it('should give up on ambiguous patterns', () => {
+    expect(extractLiteral('foo|bar')).toBeNull();
+    expect(extractLiteral('\\x41bc')).toBeNull();
+    expect(extractLiteral('[a-z]+')).toBeNull();
+    expect(extractLiteral('(unclosed')).toBeNull();
+  });
+});
+
+describe('PatternMatcher', () => {
+  it('should return the first pattern in list order, not the leftmost match', () => {
+    const patterns = [createPattern('bar'), createPattern('foo')];
+    const matcher = new PatternMatcher(patterns);
+    
+    expect(matcher.match('foo bar')?.pattern).toBe('bar');
+  });
+  
+  it('should keep list order across groups', () => {
+    const patterns = [createPattern('alpha'), createPattern('beta'), createPattern('gamma'), createPattern('bot')];
+    const matcher = new PatternMatcher(patterns, 2);
+    
+    expect(matcher.match('gamma bot beta')?.pattern).toBe('beta');
+    expect(matcher.match('gamma bot')?.pattern).toBe('gamma');
+    expect(matcher.match('nothing here')).toBeNull();
+  });
+  
+  it('should handle patterns that cannot be combined or compiled', () => {
+    const patterns = [createPattern('(a)\\1x'), createPattern('(?<name>zz)y'), createPattern('bad[('), createPattern('CaseBot')];
+    const matcher = new PatternMatcher(patterns);
+    
+    expect(matcher.match('aax')?.pattern).toBe('(a)\\1x');
+    expect(matcher.match('zzy')?.pattern).toBe('(?<name>zz)y');
+    expect(matcher.match('casebot')?.pattern).toBe('CaseBot');
+    expect(matcher.getInvalidPatterns()).toEqual(['bad[(']);
+    expect(matcher.size).toBe(3);
+  });
+  
+  it('should return the same first match as testing every pattern in order', () => {
+    const patterns = [...createPatterns(400), createPattern('bot'), createPattern('(?:crawl|spider)')];
+    const matcher = new PatternMatcher(patterns);
+    const userAgents = [
+      ...BROWSER_USER_AGENTS,
+      ...BOT_USER_AGENTS,
+      ...patterns.slice(0, 120).map((pattern, i) => `Mozilla/5.0 (compatible; ${pattern.type} ${i}) ${['GPTBot/1.0', 'ClaudeBot3', 'Scrapy_spider2', 'curl-v1/8.1', 'DotBot-4'][i % 5]}`),
+      'SomeCrawler', 'my-spider', 'İstanbul GPTBOT/9', ''
+    ];
+    
+    for (const userAgent of userAgents) {
+      expect(matcher.match(userAgent)?.pattern, userAgent).toBe(naiveMatch(patterns, userAgent)?.pattern);
+    }
+  });
+});
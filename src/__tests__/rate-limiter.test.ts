@@ -0,0 +1,166 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { RateLimiter, validateRateLimit } from '../core/rate-limiter';
+import { Spyglasses } from '../core/spyglasses';
+import { MemoryRateLimitStore } from '../rate-limits';
+import { MemorySink } from '../sinks';
+import { BotPattern, RateLimitStore } from '../types';
+
+// Mock fetch for API calls
+global.fetch = vi.fn();
+
+const chatgptUser: BotPattern = {
+  pattern: 'ChatGPT-User\\/[0-9]',
+  type: 'chatgpt-user',
+  category: 'AI Agent',
+  subcategory: 'AI Assistants',
+  company: 'OpenAI'
+};
+
+const gptbotUa = 'Mozilla/5.0 (compatible; GPTBot/1.0; +https://openai.com/gptbot)';
+
+describe('MemoryRateLimitStore', () => {
+  it('should refill tokens at the configured rate', () => {
+    const store = new MemoryRateLimitStore();
+    const bucket = { capacity: 2, refillRate: 1 / 1000 };
+    
+    expect(store.take('bot', bucket, 0)).toEqual({ allowed: true, remaining: 1, retryAfter: 0 });
+    expect(store.take('bot', bucket, 0)).toEqual({ allowed: true, remaining: 0, retryAfter: 0 });
+    expect(store.take('bot', bucket, 250)).toEqual({ allowed: false, remaining: 0, retryAfter: 750 });
+    expect(store.take('bot', bucket, 1000).allowed).toBe(true);
+    
+    // Refills never exceed the capacity
+    expect(store.take('bot', bucket, 60000)).toEqual({ allowed: true, remaining: 1, retryAfter: 0 });
+  });
+  
+  it('should keep separate buckets per key and drop the least recently used', () => {
+    const store = new MemoryRateLimitStore({ maxKeys: 1 });
+    const bucket = { capacity: 1, refillRate: 1 / 60000 };
+    
+    expect(store.take('a', bucket, 0).allowed).toBe(true);
+    expect(store.take('a', bucket, 0).allowed).toBe(false);
+    expect(store.take('b', bucket, 0).allowed).toBe(true);
+    
+    // 'a' was evicted, so it starts with a full bucket again
+    expect(store.take('a', bucket, 0).allowed).toBe(true);
+  });
+});
+
+describe('RateLimiter', () => {
+  it('should apply the first matching limit and report Retry-After in seconds', () => {
+    const limiter = new RateLimiter([
+      { rule: 'category:AI Crawler', limit: 100 },
+      { rule: 'company:OpenAI', limit: 1, interval: 10000 }
+    ], new MemoryRateLimitStore());
+    
+    expect(limiter.check(chatgptUser, undefined, 0)).toEqual({ rule: 'company:OpenAI', throttled: false, remaining: 0, retryAfter: 0 });
+    expect(limiter.check(chatgptUser, undefined, 2000)).toEqual({ rule: 'company:OpenAI', throttled: true, remaining: 0, retryAfter: 8 });
+    expect(limiter.check({ ...chatgptUser, company: 'Other' }, undefined, 0)).toBeNull();
+  });
+  
+  it('should keep per-IP buckets when configured', () => {
+    const limiter = new RateLimiter([{ rule: 'pattern:ChatGPT-User\\/[0-9]', limit: 1, per: 'ip' }], new MemoryRateLimitStore());
+    
+    expect(limiter.check(chatgptUser, '192.0.2.1', 0)).toMatchObject({ throttled: false });
+    expect(limiter.check(chatgptUser, '192.0.2.1', 0)).toMatchObject({ throttled: true });
+    expect(limiter.check(chatgptUser, '192.0.2.2', 0)).toMatchObject({ throttled: false });
+  });
+  
+  it('should pass bucket parameters to custom stores', () => {
+    const store: RateLimitStore = { take: vi.fn(() => ({ allowed: true, remaining: 4, retryAfter: 0 })) };
+    const limiter = new RateLimiter([{ rule: 'company:OpenAI', limit: 60, burst: 5 }], store);
+    
+    limiter.check(chatgptUser, undefined, 123);
+    
+    expect(store.take).toHaveBeenCalledWith('company:OpenAI\nChatGPT-User\\/[0-9]', { capacity: 5, refillRate: 60 / 60000 }, 123);
+  });
+  
+  it('should skip invalid limits', () => {
+    expect(validateRateLimit({ rule: 'ip:192.0.2.1', limit: 1 })).toBe('rate limits apply to bots, not IP rules');
+    expect(validateRateLimit({ rule: 'company:OpenAI', limit: 0 })).toBe('limit must be a positive number');
+    expect(validateRateLimit({ rule: 'company:OpenAI', limit: 1, interval: -1 })).toBe('interval must be a positive number of milliseconds');
+    expect(validateRateLimit({ rule: 'company:OpenAI', limit: 1, burst: 0 })).toBe('burst must be at least 1');
+    
+    const limiter = new RateLimiter([{ rule: 'company:', limit: 1 } as never, { rule: 'company:OpenAI', limit: 1 }], new MemoryRateLimitStore());
+    expect(limiter.size).toBe(1);
+    expect(limiter.getInvalidLimits()).toEqual(['company:: expected company after "company:"']);
+  });
+});
+
+describe('Spyglasses rate limiting', () => {
+  beforeEach(() => {
+    vi.resetAllMocks();
+  });
+  
+  it('should throttle with a 429 and Retry-After instead of blocking', async () => {
+    let now = 0;
+    const memory = new MemorySink();
+    const spyglasses = new Spyglasses({
+      apiKey: 'test-api-key',
+      autoSync: false,
+      sinks: [memory],
+      clock: () => now,
+      rateLimits: [{ rule: 'category:AI Crawler', limit: 1, interval: 30000 }]
+    });
+    const request = () => new Request('https://example.com/page', { headers: { 'user-agent': gptbotUa } });
+    
+    const first = spyglasses.handle(request());
+    expect(first.response).toBeNull();
+    expect(first.result.rateLimit).toEqual({ rule: 'category:AI Crawler', throttled: false, remaining: 0, retryAfter: 0 });
+    
+    now = 10000;
+    const second = spyglasses.handle(request());
+    await Promise.all([first.logging, second.logging]);
+    
+    expect(second.result.shouldBlock).toBe(false);
+    expect(second.response?.status).toBe(429);
+    expect(second.response?.headers.get('Retry-After')).toBe('20');
+    
+    expect(memory.records[0].metadata).toMatchObject({ was_blocked: false, was_throttled: false, rate_limit: 'category:AI Crawler' });
+    expect(memory.records[1].response_status).toBe(429);
+    expect(memory.records[1].metadata).toMatchObject({ was_blocked: false, was_throttled: true, rate_limit: 'category:AI Crawler' });
+  });
+  
+  it('should not spend tokens on blocked bots or leave detect() rate limited', () => {
+    const store: RateLimitStore = { take: vi.fn(() => ({ allowed: false, remaining: 0, retryAfter: 1000 })) };
+    const spyglasses = new Spyglasses({
+      apiKey: 'test-api-key',
+      autoSync: false,
+      rateLimits: [{ rule: 'category:AI Crawler', limit: 1 }],
+      rateLimitStore: store
+    });
+    
+    expect(spyglasses.detect(gptbotUa).rateLimit).toBeUndefined();
+    expect(store.take).not.toHaveBeenCalled();
+    
+    spyglasses.updateConfig({ customBlocks: ['category:AI Crawler'] });
+    const blocked = spyglasses.applyRateLimit(spyglasses.detect(gptbotUa));
+    
+    expect(blocked.shouldBlock).toBe(true);
+    expect(blocked.rateLimit).toBeUndefined();
+    expect(store.take).not.toHaveBeenCalled();
+  });
+  
+  it('should wait for asynchronous stores in handleAsync() and let requests through when they fail', async () => {
+    const memoryStore = new MemoryRateLimitStore();
+    const take = vi.fn(async (...args: Parameters<RateLimitStore['take']>) => memoryStore.take(...args));
+    const spyglasses = new Spyglasses({
+      apiKey: 'test-api-key',
+      autoSync: false,
+      clock: () => 0,
+      rateLimits: [{ rule: 'category:AI Crawler', limit: 1, interval: 60000 }],
+      rateLimitStore: { take }
+    });
+    const request = () => new Request('https://example.com/page', { headers: { 'user-agent': gptbotUa } });
+    
+    expect((await spyglasses.handleAsync(request())).response).toBeNull();
+    expect((await spyglasses.handleAsync(request())).response?.status).toBe(429);
+    
+    // handle() can't wait for the store, so it lets the request through
+    expect(spyglasses.handle(request()).result.rateLimit).toBeUndefined();
+    
+    take.mockRejectedValueOnce(new Error('Connection refused'));
+    const failed = await spyglasses.applyRateLimitAsync(spyglasses.detect(gptbotUa));
+    expect(failed).toMatchObject({ action: 'allow' });
+    expect(failed.rateLimit).toBeUndefined();
+  });
+});
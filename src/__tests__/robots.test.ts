@@ -0,0 +1,350 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { RobotsTxt, buildRobotsTxt, getProductToken, globToRobotsPaths } from '../core/robots';
+import { RuleSet } from '../core/rules';
+import { Spyglasses } from '../core/spyglasses';
+import { createSpyglassesMiddleware } from '../integrations/express';
+import { MemorySink } from '../sinks';
+import { BotPattern } from '../types';
+import { createExpressRequest, createExpressResponse } from './fixtures/http';
+
+// Mock fetch for API calls
+global.fetch = vi.fn();
+
+const gptbot: BotPattern = {
+  pattern: 'GPTBot\\/[0-9]',
+  type: 'gptbot',
+  category: 'AI Crawler',
+  subcategory: 'Model Training Crawlers',
+  company: 'OpenAI',
+  isAiModelTrainer: true
+};
+
+const claudebot: BotPattern = {
+  pattern: 'ClaudeBot\\/[0-9]',
+  type: 'claudebot',
+  category: 'AI Crawler',
+  subcategory: 'Model Training Crawlers',
+  company: 'Anthropic',
+  isAiModelTrainer: true
+};
+
+const chatgptUser: BotPattern = {
+  pattern: 'ChatGPT-User\\/[0-9]',
+  type: 'chatgpt-user',
+  category: 'AI Agent',
+  subcategory: 'AI Assistants',
+  company: 'OpenAI'
+};
+
+function createPolicy(blocks: ConstructorParameters<typeof RuleSet>[0] = [], allows: ConstructorParameters<typeof RuleSet>[0] = [], blockAiModelTrainers = false, shadowMode = false) {
+  return {
+    blockRules: new RuleSet(blocks),
+    allowRules: new RuleSet(allows),
+    blockAiModelTrainers,
+    blockAction: 'block' as const,
+    shadowMode
+  };
+}
+
+describe('getProductToken', () => {
+  it('should take the literal start of the pattern', () => {
+    expect(getProductToken(gptbot)).toBe('GPTBot');
+    expect(getProductToken(chatgptUser)).toBe('ChatGPT-User');
+    expect(getProductToken({ ...gptbot, pattern: '^archive\\.org_bot' })).toBe('archive.org_bot');
+    expect(getProductToken({ ...gptbot, pattern: '(?:compatible; )?Bytespider3' })).toBe('Bytespider3');
+    expect(getProductToken({ ...gptbot, pattern: '[Cc]rawler' })).toBeNull();
+  });
+
+  it('should skip browser tokens and fall back to the bot\'s own product', () => {
+    expect(getProductToken({ ...gptbot, pattern: 'Mozilla\\/5\\.0.*GPTBot\\/[0-9]' })).toBe('GPTBot');
+    expect(getProductToken({ ...gptbot, pattern: 'Mozilla\\/5\\.0 \\(compatible;\\sarchive\\.org_bot\\/' })).toBe('archive.org_bot');
+    expect(getProductToken({ ...gptbot, pattern: 'Mozilla\\/5\\.0.*[a-z]Bot\\/' })).toBeNull();
+    expect(getProductToken({ ...gptbot, pattern: 'Mozilla.*Chrome\\/[0-9.]+ Safari' })).toBeNull();
+  });
+});
+
+describe('globToRobotsPaths', () => {
+  it('should convert path globs to robots.txt paths', () => {
+    expect(globToRobotsPaths('/private/**')).toEqual(['/private$', '/private/']);
+    expect(globToRobotsPaths('/docs/*.pdf')).toEqual(['/docs/*.pdf$']);
+    expect(globToRobotsPaths('/search*')).toEqual(['/search*']);
+    expect(globToRobotsPaths('/pricing')).toEqual(['/pricing$']);
+  });
+});
+
+describe('buildRobotsTxt', () => {
+  const patterns = [gptbot, claudebot, chatgptUser];
+
+  it('should group bots with the same rules under their product tokens', () => {
+    const robots = buildRobotsTxt(patterns, createPolicy([], [], true));
+
+    expect(robots).toBe('User-agent: GPTBot\nUser-agent: ClaudeBot\nDisallow: /\n');
+  });
+
+  it('should leave out allowed bots and express path-scoped rules', () => {
+    const robots = buildRobotsTxt(patterns, createPolicy(
+      ['company:OpenAI', { rule: 'company:Anthropic', paths: ['/premium/**'] }],
+      ['pattern:ChatGPT-User\\/[0-9]', { rule: 'company:OpenAI', paths: ['/blog/*'] }]
+    ));
+
+    expect(robots).toBe([
+      'User-agent: GPTBot',
+      'Disallow: /',
+      'Allow: /blog/*',
+      '',
+      'User-agent: ClaudeBot',
+      'Disallow: /premium$',
+      'Disallow: /premium/',
+      ''
+    ].join('\n'));
+  });
+
+  it('should skip rules robots.txt cannot express and rules that only log', () => {
+    const robots = buildRobotsTxt(patterns, createPolicy([
+      { rule: 'company:OpenAI', hosts: ['api.example.com'] },
+      { rule: 'company:Anthropic', paths: ['/docs/**'], action: 'log-only' },
+      'cidr:203.0.113.0/24'
+    ]));
+
+    expect(robots).toBe('');
+  });
+
+  it('should never emit a group for a browser token', () => {
+    const headless: BotPattern = { ...gptbot, pattern: 'Mozilla\\/5\\.0.*HeadlessChrome', type: 'headless', isAiModelTrainer: false };
+    const disguised: BotPattern = { ...claudebot, pattern: 'Mozilla\\/5\\.0 \\(compatible; ClaudeBot\\/[0-9]' };
+    const robots = buildRobotsTxt([headless, disguised], createPolicy(['category:AI Crawler']));
+
+    expect(robots).toBe('User-agent: ClaudeBot\nDisallow: /\n');
+  });
+
+  it('should not disallow anything in shadow mode', () => {
+    expect(buildRobotsTxt(patterns, createPolicy(['company:OpenAI'], [], true, true))).toBe('');
+  });
+
+  it('should merge the base rules and sitemaps', () => {
+    const robots = buildRobotsTxt([gptbot], createPolicy(['category:AI Crawler']), {
+      baseRules: 'User-agent: *\nDisallow: /admin/\nSitemap: https://example.com/sitemap.xml\n',
+      sitemaps: ['https://example.com/news-sitemap.xml', 'https://example.com/sitemap.xml']
+    });
+
+    expect(robots).toBe([
+      'User-agent: *',
+      'Disallow: /admin/',
+      '',
+      'User-agent: GPTBot',
+      'Disallow: /',
+      '',
+      'Sitemap: https://example.com/sitemap.xml',
+      'Sitemap: https://example.com/news-sitemap.xml',
+      ''
+    ].join('\n'));
+  });
+
+  it('should repeat the base * rules in path-scoped groups so they stay in force', () => {
+    const robots = buildRobotsTxt([gptbot, claudebot], createPolicy([{ rule: 'category:AI Crawler', paths: ['/docs/premium/**'] }]), {
+      baseRules: 'User-agent: *\nDisallow: /admin\nAllow: /admin/help\n\nUser-agent: ClaudeBot\nDisallow: /drafts'
+    });
+
+    expect(robots).toBe([
+      'User-agent: *',
+      'Disallow: /admin',
+      'Allow: /admin/help',
+      '',
+      'User-agent: ClaudeBot',
+      'Disallow: /drafts',
+      '',
+      'User-agent: GPTBot',
+      'Disallow: /admin',
+      'Allow: /admin/help',
+      'Disallow: /docs/premium$',
+      'Disallow: /docs/premium/',
+      '',
+      'User-agent: ClaudeBot',
+      'Disallow: /docs/premium$',
+      'Disallow: /docs/premium/',
+      ''
+    ].join('\n'));
+    expect(new RobotsTxt(robots).check('GPTBot', '/admin')).toEqual({ userAgent: 'GPTBot', rule: 'Disallow: /admin' });
+    expect(new RobotsTxt(robots).check('ClaudeBot', '/drafts/1')).toEqual({ userAgent: 'ClaudeBot', rule: 'Disallow: /drafts' });
+  });
+});
+
+describe('Spyglasses robots.txt', () => {
+  beforeEach(() => {
+    vi.resetAllMocks();
+  });
+
+  it('should generate robots.txt from synced patterns and merged settings', async () => {
+    vi.mocked(fetch).mockResolvedValue({
+      ok: true,
+      json: async () => ({
+        version: '1.0.0',
+        patterns: [gptbot, claudebot, chatgptUser],
+        aiReferrers: [],
+        propertySettings: { blockAiModelTrainers: true, customBlocks: [], customAllows: [] }
+      })
+    } as Response);
+    const spyglasses = new Spyglasses({ apiKey: 'test-api-key', autoSync: false, customAllows: ['company:Anthropic'] });
+    await spyglasses.syncPatterns();
+
+    expect(spyglasses.generateRobotsTxt({ sitemaps: ['https://example.com/sitemap.xml'] }))
+      .toBe('User-agent: GPTBot\nDisallow: /\n\nSitemap: https://example.com/sitemap.xml\n');
+  });
+
+  it('should serve robots.txt from handle(), even to blocked bots, and regenerate it when rules change', async () => {
+    const memory = new MemorySink();
+    const spyglasses = new Spyglasses({
+      autoSync: false,
+      sinks: [memory],
+      customBlocks: ['category:AI Crawler'],
+      robotsTxt: { baseRules: 'User-agent: *\nAllow: /' }
+    });
+    const request = () => new Request('https://example.com/robots.txt', {
+      headers: { 'user-agent': 'Mozilla/5.0 (compatible; GPTBot/1.0; +https://openai.com/gptbot)' }
+    });
+
+    const { response, result, logging } = spyglasses.handle(request());
+    await logging;
+
+    expect(result.shouldBlock).toBe(true);
+    expect(response?.status).toBe(200);
+    expect(response?.headers.get('content-type')).toBe('text/plain; charset=utf-8');
+    const robots = await response?.text();
+    expect(robots).toMatch(/^User-agent: \*\nAllow: \/\n\n/);
+    expect(robots).toContain('User-agent: GPTBot\n');
+    expect(memory.records[0].response_status).toBe(200);
+
+    spyglasses.updateConfig({ customBlocks: [] });
+    expect(await spyglasses.handle(request()).response?.text()).toBe('User-agent: *\nAllow: /\n');
+  });
+
+  it('should leave trialled rules out of robots.txt until shadow mode is turned off', () => {
+    const spyglasses = new Spyglasses({ autoSync: false, shadowMode: true, blockAiModelTrainers: true, robotsTxt: true });
+
+    expect(spyglasses.getFileResponse('/robots.txt')?.body).toBe('');
+
+    spyglasses.updateConfig({ shadowMode: false });
+    expect(spyglasses.getFileResponse('/robots.txt')?.body).toContain('User-agent: GPTBot\n');
+  });
+
+  it('should only serve robots.txt when configured', () => {
+    const spyglasses = new Spyglasses({ autoSync: false });
+
+    expect(spyglasses.getFileResponse('/robots.txt')).toBeNull();
+    spyglasses.updateConfig({ robotsTxt: true });
+    expect(spyglasses.getFileResponse('/robots.txt')?.status).toBe(200);
+    expect(spyglasses.getFileResponse('/robots.txt', 'POST')).toBeNull();
+  });
+
+  it('should serve robots.txt from the Express middleware', async () => {
+    const spyglasses = new Spyglasses({ autoSync: false, robotsTxt: true, blockAiModelTrainers: true });
+    const req = createExpressRequest({
+      url: '/robots.txt',
+      headers: { host: 'example.com', 'user-agent': 'Mozilla/5.0 (Windows NT 10.0; Win64; x64)' }
+    });
+    const res = createExpressResponse(req);
+    const next = vi.fn();
+
+    await createSpyglassesMiddleware({ spyglasses })(req, res, next);
+
+    expect(next).not.toHaveBeenCalled();
+    expect(res.statusCode).toBe(200);
+    expect(res.body).toContain('User-agent: GPTBot');
+  });
+});
+
+describe('RobotsTxt', () => {
+  const robots = new RobotsTxt([
+    'User-agent: *',
+    'Disallow: /admin/',
+    '',
+    '# Training crawlers',
+    'User-agent: GPTBot',
+    'User-agent: ClaudeBot',
+    'Disallow: /articles/',
+    'Allow: /articles/free/',
+    'Disallow: /*.pdf$',
+    '',
+    'User-agent: gptbot',
+    'Disallow: /drafts',
+    'Sitemap: https://example.com/sitemap.xml'
+  ].join('\n'));
+
+  it('should use the group for the product token, case-insensitively', () => {
+    expect(robots.check('GPTBot', '/articles/paid')).toEqual({ userAgent: 'GPTBot', rule: 'Disallow: /articles/' });
+    expect(robots.check('ClaudeBot', '/admin/')).toBeNull();
+  });
+
+  it('should merge groups for the same token', () => {
+    expect(robots.check('GPTBot', '/drafts/1')).toEqual({ userAgent: 'GPTBot', rule: 'Disallow: /drafts' });
+    expect(robots.check('ClaudeBot', '/drafts/1')).toBeNull();
+  });
+
+  it('should fall back to the * group', () => {
+    expect(robots.check('Bytespider', '/admin/users')).toEqual({ userAgent: '*', rule: 'Disallow: /admin/' });
+    expect(robots.check('Bytespider', '/articles/paid')).toBeNull();
+  });
+
+  it('should let the longest match win and support wildcards', () => {
+    expect(robots.check('GPTBot', '/articles/free/intro')).toBeNull();
+    expect(robots.check('GPTBot', '/files/report.pdf')).toEqual({ userAgent: 'GPTBot', rule: 'Disallow: /*.pdf$' });
+    expect(robots.check('GPTBot', '/files/report.pdf.html')).toBeNull();
+  });
+
+  it('should always allow robots.txt and everything when no group applies', () => {
+    expect(new RobotsTxt('User-agent: *\nDisallow: /').check('GPTBot', '/robots.txt')).toBeNull();
+    expect(new RobotsTxt('User-agent: GPTBot\nDisallow: /').check('ClaudeBot', '/')).toBeNull();
+    expect(new RobotsTxt('User-agent: *\nDisallow:').check('ClaudeBot', '/')).toBeNull();
+  });
+});
+
+describe('Spyglasses robots.txt compliance', () => {
+  const gptbotUa = 'Mozilla/5.0 (compatible; GPTBot/1.0; +https://openai.com/gptbot)';
+  const content = 'User-agent: GPTBot\nDisallow: /private/';
+
+  beforeEach(() => {
+    vi.resetAllMocks();
+  });
+
+  it('should record robots.txt violations without blocking by default', async () => {
+    const memory = new MemorySink();
+    const spyglasses = new Spyglasses({ autoSync: false, sinks: [memory], robotsCheck: { content } });
+
+    const result = spyglasses.detect(gptbotUa, undefined, { path: '/private/report' });
+    expect(result).toMatchObject({ shouldBlock: false, robotsViolation: { userAgent: 'GPTBot', rule: 'Disallow: /private/' } });
+    expect(spyglasses.detect(gptbotUa, undefined, { path: '/public' }).robotsViolation).toBeUndefined();
+
+    await spyglasses.logRequest(result, { url: 'https://example.com/private/report', method: 'GET', path: '/private/report', userAgent: gptbotUa, headers: {} });
+    expect(memory.records[0].metadata).toMatchObject({ robots_violation: true, robots_rule: 'Disallow: /private/' });
+  });
+
+  it('should block bots only on the paths they were told not to crawl', () => {
+    const spyglasses = new Spyglasses({ autoSync: false, robotsCheck: { content, block: true }, detectionCacheSize: 10 });
+
+    expect(spyglasses.detect(gptbotUa, undefined, { path: '/private/report' })).toMatchObject({ shouldBlock: true, action: 'block' });
+    expect(spyglasses.detect(gptbotUa, undefined, { path: '/public' }).shouldBlock).toBe(false);
+    expect(spyglasses.detect(gptbotUa).shouldBlock).toBe(false);
+  });
+
+  it('should let allow rules and shadow mode override robots.txt blocking', () => {
+    const allowed = new Spyglasses({ autoSync: false, robotsCheck: { content, block: true }, customAllows: ['company:OpenAI'] });
+    expect(allowed.detect(gptbotUa, undefined, { path: '/private/report' })).toMatchObject({ shouldBlock: false, robotsViolation: { rule: 'Disallow: /private/' } });
+
+    const shadow = new Spyglasses({ autoSync: false, robotsCheck: { content, block: true }, shadowMode: true });
+    expect(shadow.detect(gptbotUa, undefined, { path: '/private/report' })).toMatchObject({ shouldBlock: false, wouldBlock: true, matchedRule: 'robots' });
+  });
+
+  it('should check against the generated robots.txt by default', () => {
+    const spyglasses = new Spyglasses({
+      autoSync: false,
+      robotsCheck: true,
+      customBlocks: [{ rule: 'company:OpenAI', paths: ['/premium/**'] }]
+    });
+
+    expect(spyglasses.detect(gptbotUa, undefined, { path: '/premium/a' })).toMatchObject({
+      shouldBlock: true,
+      robotsViolation: { userAgent: 'GPTBot', rule: 'Disallow: /premium/' }
+    });
+    expect(spyglasses.detect('Mozilla/5.0 (compatible; ClaudeBot/1.0)', undefined, { path: '/premium/a' }).robotsViolation).toBeUndefined();
+  });
+});
@@ -0,0 +1,487 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { RuleSet, globToRegExp, validateRule } from '../core/rules';
+import { rule } from '../core/rule-builder';
+import { Spyglasses } from '../core/spyglasses';
+import { MemorySink } from '../sinks';
+import { MemorySnapshotStore } from '../snapshots';
+import { BotPattern } from '../types';
+import { getContentTypeFromPath } from '../utils/headers';
+
+// Mock fetch for API calls
+global.fetch = vi.fn();
+
+const gptbot: BotPattern = {
+  pattern: 'GPTBot\\/[0-9]',
+  type: 'gptbot',
+  category: 'AI Crawler',
+  subcategory: 'Model Training Crawlers',
+  company: 'OpenAI',
+  isAiModelTrainer: true
+};
+
+const chromeUa = 'Mozilla/5.0 (Macintosh; Intel Mac OS X 10_15_7) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/124.0.0.0 Safari/537.36';
+const gptbotUa = 'Mozilla/5.0 (compatible; GPTBot/1.0; +https://openai.com/gptbot)';
+
+function mockSettings(customBlocks: string[], customAllows: string[], blockAiModelTrainers = false): void {
+  vi.mocked(fetch).mockResolvedValue({
+    ok: true,
+    json: async () => ({
+      version: '1.0.0',
+      patterns: [gptbot],
+      aiReferrers: [{ id: 'chatgpt', name: 'ChatGPT', company: 'OpenAI', patterns: ['chat.openai.com'] }],
+      propertySettings: { blockAiModelTrainers, customBlocks, customAllows }
+    })
+  } as Response);
+}
+
+async function createSpyglasses(options = {}): Promise<Spyglasses> {
+  const spyglasses = new Spyglasses({ apiKey: 'test-api-key', autoSync: false, ...options });
+  await spyglasses.syncPatterns();
+  return spyglasses;
+}
+
+describe('RuleSet', () => {
+  it('should match pattern rules before their parents', () => {
+    const rules = new RuleSet(['category:AI Crawler', 'pattern:GPTBot\\/[0-9]']);
+    
+    expect(rules.matchPattern(gptbot)).toBe('pattern:GPTBot\\/[0-9]');
+    expect(new RuleSet(['type:AI Crawler:Model Training Crawlers:gptbot']).matchPattern(gptbot)).toBe('type:AI Crawler:Model Training Crawlers:gptbot');
+    expect(new RuleSet(['category:Scraper']).matchPattern(gptbot)).toBeNull();
+  });
+  
+  it('should match ip and cidr rules for IPv4 and IPv6', () => {
+    const rules = new RuleSet(['ip:192.0.2.10', 'cidr:198.51.100.0/24', 'ip:2001:db8::1', 'cidr:2001:db8:ff00::/40']);
+    
+    expect(rules.matchIp('192.0.2.10')).toBe('ip:192.0.2.10');
+    expect(rules.matchIp('192.0.2.11')).toBeNull();
+    expect(rules.matchIp('198.51.100.200')).toBe('cidr:198.51.100.0/24');
+    expect(rules.matchIp('2001:0db8:0000::0001')).toBe('ip:2001:db8::1');
+    expect(rules.matchIp('2001:db8:ff12::9')).toBe('cidr:2001:db8:ff00::/40');
+    expect(rules.matchIp(undefined)).toBeNull();
+  });
+  
+  it('should report invalid ip rules', () => {
+    const rules = new RuleSet(['ip:999.0.0.1', 'cidr:198.51.100.0', 'ip:192.0.2.0/24', 'cidr:192.0.2.0/24']);
+    
+    expect(rules.getInvalidRules()).toEqual(['ip:999.0.0.1', 'cidr:198.51.100.0', 'ip:192.0.2.0/24']);
+  });
+  
+  it('should stay fast with thousands of CIDR rules', () => {
+    const cidrs = Array.from({ length: 5000 }, (_, i) => `cidr:10.${i >> 8}.${i & 255}.0/24`);
+    const rules = new RuleSet(cidrs);
+    
+    const start = Date.now();
+    for (let i = 0; i < 10000; i++) {
+      rules.matchIp(`10.${(i >> 8) % 20}.${i & 255}.7`);
+    }
+    
+    expect(rules.matchIp('10.19.135.7')).toBe('cidr:10.19.135.0/24');
+    expect(Date.now() - start).toBeLessThan(1000);
+  });
+});
+
+describe('validateRule', () => {
+  it('should accept well-formed rules', () => {
+    expect(validateRule('pattern:GPTBot\\/[0-9]')).toBeNull();
+    expect(validateRule('category:AI Crawler')).toBeNull();
+    expect(validateRule('subcategory:AI Crawler:Model Training Crawlers')).toBeNull();
+    expect(validateRule('type:AI Crawler:Model Training Crawlers:gptbot')).toBeNull();
+    expect(validateRule('ip:2001:db8::1')).toBeNull();
+    expect(validateRule('cidr:203.0.113.0/24')).toBeNull();
+    expect(validateRule('company:OpenAI')).toBeNull();
+  });
+  
+  it('should describe malformed rules', () => {
+    expect(validateRule('Scraper')).toBe('missing rule prefix');
+    expect(validateRule('categroy:Scraper')).toBe('unknown rule prefix "categroy"');
+    expect(validateRule('subcategory:Model Training Crawlers')).toBe('expected category:subcategory after "subcategory:"');
+    expect(validateRule('type:AI Crawler:gptbot')).toBe('expected category:subcategory:type after "type:"');
+    expect(validateRule('category:')).toBe('expected category after "category:"');
+    expect(validateRule('pattern:GPTBot(')).toBe('pattern is not a valid regular expression');
+    expect(validateRule('ip:203.0.113.0/24')).toBe('invalid IP address');
+    expect(validateRule('cidr:203.0.113.0/33')).toBe('invalid CIDR block');
+  });
+  
+  it('should report malformed rules of every kind from RuleSet', () => {
+    const rules = new RuleSet(['category:Scraper', 'categroy:Scraper', 'subcategory:Scraper']);
+    
+    expect(rules.getInvalidRules()).toEqual(['categroy:Scraper', 'subcategory:Scraper']);
+  });
+  
+  it('should match company rules after the pattern hierarchy', () => {
+    const rules = new RuleSet(['company:OpenAI']);
+    
+    expect(rules.matchPattern(gptbot)).toBe('company:OpenAI');
+    expect(rules.matchPattern({ ...gptbot, company: null })).toBeNull();
+  });
+});
+
+describe('rule builder', () => {
+  it('should format rules', () => {
+    expect(rule.pattern('GPTBot\\/[0-9]')).toBe('pattern:GPTBot\\/[0-9]');
+    expect(rule.category('AI Crawler')).toBe('category:AI Crawler');
+    expect(rule.subcategory('AI Crawler', 'Model Training Crawlers')).toBe('subcategory:AI Crawler:Model Training Crawlers');
+    expect(rule.type('AI Crawler', 'Model Training Crawlers', 'gptbot')).toBe('type:AI Crawler:Model Training Crawlers:gptbot');
+    expect(rule.company('OpenAI')).toBe('company:OpenAI');
+    expect(rule.ip('203.0.113.7')).toBe('ip:203.0.113.7');
+    expect(rule.cidr('2001:db8::/32')).toBe('cidr:2001:db8::/32');
+  });
+  
+  it('should throw on invalid rules', () => {
+    expect(() => rule.category('')).toThrow('Invalid rule "category:"');
+    expect(() => rule.subcategory('AI:Crawler', 'Model Training Crawlers')).toThrow('expected category:subcategory');
+    expect(() => rule.ip('not-an-ip')).toThrow('invalid IP address');
+    expect(() => rule.cidr('203.0.113.7')).toThrow('invalid CIDR block');
+    expect(() => rule.pattern('[')).toThrow('not a valid regular expression');
+  });
+});
+
+describe('Spyglasses local blocking policy', () => {
+  beforeEach(() => {
+    vi.resetAllMocks();
+  });
+  
+  it('should apply local rules before any sync', () => {
+    const spyglasses = new Spyglasses({
+      apiKey: 'test-api-key',
+      autoSync: false,
+      customBlocks: [rule.cidr('203.0.113.0/24')]
+    });
+    
+    const result = spyglasses.detect(chromeUa, undefined, { ip: '203.0.113.7' });
+    expect(result.shouldBlock).toBe(true);
+    expect(result.matchedRule).toBe('cidr:203.0.113.0/24');
+  });
+  
+  it('should merge local and platform rules, with allows winning over blocks', async () => {
+    mockSettings(['category:AI Crawler'], []);
+    const spyglasses = await createSpyglasses({
+      customBlocks: [rule.ip('198.51.100.1')],
+      customAllows: [rule.type('AI Crawler', 'Model Training Crawlers', 'gptbot')]
+    });
+    
+    // The local allow beats the platform's category block
+    const allowed = spyglasses.detect(gptbotUa);
+    expect(allowed.shouldBlock).toBe(false);
+    expect(allowed.matchedRule).toBe('type:AI Crawler:Model Training Crawlers:gptbot');
+    
+    // Local blocks still apply after the platform settings arrived
+    expect(spyglasses.detect(chromeUa, undefined, { ip: '198.51.100.1' }).shouldBlock).toBe(true);
+  });
+  
+  it('should let a platform allow win over a local block', async () => {
+    mockSettings([], ['pattern:GPTBot\\/[0-9]']);
+    const spyglasses = await createSpyglasses({ customBlocks: ['category:AI Crawler'] });
+    
+    expect(spyglasses.detect(gptbotUa).shouldBlock).toBe(false);
+  });
+  
+  it('should let local blockAiModelTrainers override the platform setting', async () => {
+    mockSettings([], [], true);
+    const optedOut = await createSpyglasses({ blockAiModelTrainers: false });
+    expect(optedOut.detect(gptbotUa).shouldBlock).toBe(false);
+    
+    mockSettings([], [], false);
+    const optedIn = await createSpyglasses({ blockAiModelTrainers: true });
+    expect(optedIn.detect(gptbotUa).shouldBlock).toBe(true);
+    
+    const deferring = await createSpyglasses();
+    expect(deferring.detect(gptbotUa).shouldBlock).toBe(false);
+  });
+  
+  it('should keep local rules out of pattern snapshots', async () => {
+    mockSettings(['category:Scraper'], []);
+    const store = new MemorySnapshotStore();
+    const spyglasses = await createSpyglasses({ customBlocks: ['category:AI Crawler'], snapshotStore: store });
+    
+    // A 304 saves the current state rather than the API response
+    vi.mocked(fetch).mockResolvedValueOnce({ ok: false, status: 304 } as Response);
+    await spyglasses.syncPatterns();
+    
+    expect(store.load()?.data.propertySettings.customBlocks).toEqual(['category:Scraper']);
+  });
+  
+  it('should recompile rules and clear cached results on updateConfig', async () => {
+    mockSettings([], []);
+    const spyglasses = await createSpyglasses({ detectionCacheSize: 10 });
+    expect(spyglasses.detect(gptbotUa).shouldBlock).toBe(false);
+    
+    spyglasses.updateConfig({ customBlocks: ['category:AI Crawler'] });
+    
+    expect(spyglasses.detect(gptbotUa).shouldBlock).toBe(true);
+  });
+});
+
+describe('Scoped rules', () => {
+  const imageCrawler: BotPattern = {
+    pattern: 'img2dataset',
+    type: 'img2dataset',
+    category: 'AI Crawler',
+    subcategory: 'Image Training Crawlers',
+    company: null,
+    isAiModelTrainer: true
+  };
+  
+  it('should convert path globs', () => {
+    expect(globToRegExp('/blog/**').test('/blog')).toBe(true);
+    expect(globToRegExp('/blog/**').test('/blog/2024/post')).toBe(true);
+    expect(globToRegExp('/blog/**').test('/blogroll')).toBe(false);
+    expect(globToRegExp('/docs/*/intro').test('/docs/v2/intro')).toBe(true);
+    expect(globToRegExp('/docs/*/intro').test('/docs/v2/beta/intro')).toBe(false);
+    expect(globToRegExp('/**/*.png').test('/assets/img/logo.png')).toBe(true);
+    expect(globToRegExp('/file?.txt').test('/file1.txt')).toBe(true);
+    expect(globToRegExp('/a.b').test('/axb')).toBe(false);
+  });
+  
+  it('should infer content types from file extensions', () => {
+    expect(getContentTypeFromPath('/assets/photo.JPG')).toBe('image/jpeg');
+    expect(getContentTypeFromPath('/docs/guide.pdf')).toBe('application/pdf');
+    expect(getContentTypeFromPath('/docs/guide')).toBeUndefined();
+  });
+  
+  it('should only match requests inside every scope that is set', () => {
+    const rules = new RuleSet([{ rule: 'category:AI Crawler', hosts: ['*.example.com'], paths: ['/docs/premium/**'] }]);
+    
+    expect(rules.match(gptbot, { host: 'docs.example.com:443', path: '/docs/premium/guide' })).toEqual({
+      rule: 'category:AI Crawler',
+      scope: { host: '*.example.com', path: '/docs/premium/**' }
+    });
+    expect(rules.match(gptbot, { host: 'example.com', path: '/docs/premium/guide' })).toBeNull();
+    expect(rules.match(gptbot, { host: 'docs.example.com', path: '/docs/free' })).toBeNull();
+    expect(rules.match(gptbot, {})).toBeNull();
+  });
+  
+  it('should match content types with wildcards and parameters', () => {
+    const rules = new RuleSet([{ rule: 'subcategory:AI Crawler:Image Training Crawlers', contentTypes: ['image/*'] }]);
+    
+    expect(rules.match(imageCrawler, { contentType: 'image/png' })?.scope).toEqual({ contentType: 'image/*' });
+    expect(rules.match(imageCrawler, { contentType: 'text/html; charset=utf-8' })).toBeNull();
+    expect(rules.match(gptbot, { contentType: 'image/png' })).toBeNull();
+  });
+  
+  it('should scope IP rules', () => {
+    const rules = new RuleSet([{ rule: 'cidr:203.0.113.0/24', paths: ['/admin/**'] }]);
+    
+    expect(rules.match(null, { ip: '203.0.113.7', path: '/admin/users' })?.rule).toBe('cidr:203.0.113.0/24');
+    expect(rules.match(null, { ip: '203.0.113.7', path: '/' })).toBeNull();
+    expect(rules.match(null, { ip: '198.51.100.1', path: '/admin' })).toBeNull();
+  });
+  
+  it('should report invalid scoped rules', () => {
+    const rules = new RuleSet([
+      { rule: 'category:AI Crawler', paths: [] },
+      { rule: 'category:AI Crawler', paths: ['blog/**'] },
+      { rule: 'categroy:AI Crawler' as 'category:AI Crawler', hosts: ['example.com'] }
+    ]);
+    
+    expect(rules.getInvalidRules()).toEqual(['category:AI Crawler', 'category:AI Crawler', 'categroy:AI Crawler']);
+    expect(rules.hasScopedRules).toBe(false);
+  });
+  
+  it('should allow and block the same bot on different paths', () => {
+    const spyglasses = new Spyglasses({
+      apiKey: 'test-api-key',
+      autoSync: false,
+      detectionCacheSize: 10,
+      customBlocks: [{ rule: rule.pattern('GPTBot\\/[0-9]'), paths: ['/docs/premium/**'] }],
+      customAllows: [{ rule: rule.pattern('GPTBot\\/[0-9]'), paths: ['/blog/**'] }]
+    });
+    
+    const blocked = spyglasses.detect(gptbotUa, undefined, { path: '/docs/premium/pricing' });
+    expect(blocked.shouldBlock).toBe(true);
+    expect(blocked.matchedRule).toBe('pattern:GPTBot\\/[0-9]');
+    expect(blocked.matchedScope).toEqual({ path: '/docs/premium/**' });
+    
+    const allowed = spyglasses.detect(gptbotUa, undefined, { path: '/blog/hello' });
+    expect(allowed.shouldBlock).toBe(false);
+    expect(allowed.matchedScope).toEqual({ path: '/blog/**' });
+    
+    // Cached context-free results don't leak scoped decisions
+    expect(spyglasses.detect(gptbotUa).shouldBlock).toBe(false);
+    expect(spyglasses.detect(gptbotUa, undefined, { path: '/docs/premium/faq' }).shouldBlock).toBe(true);
+  });
+  
+  it('should record the matched scope in collector metadata', async () => {
+    const memory = new MemorySink();
+    const spyglasses = new Spyglasses({
+      apiKey: 'test-api-key',
+      autoSync: false,
+      sinks: [memory],
+      customBlocks: [{ rule: 'category:AI Crawler', hosts: ['example.com'], contentTypes: ['image/*'] }]
+    });
+    
+    const { response, logging } = spyglasses.handle(new Request('https://example.com/assets/photo.png', {
+      headers: { 'user-agent': gptbotUa }
+    }));
+    await logging;
+    
+    expect(response?.status).toBe(403);
+    expect(memory.records[0].metadata).toMatchObject({
+      was_blocked: true,
+      matched_rule: 'category:AI Crawler',
+      matched_scope: { host: 'example.com', content_type: 'image/*' }
+    });
+    
+    const page = spyglasses.handle(new Request('https://example.com/about', { headers: { 'user-agent': gptbotUa } }));
+    expect(page.response).toBeNull();
+  });
+});
+
+describe('Spyglasses IP rules', () => {
+  beforeEach(() => {
+    vi.resetAllMocks();
+  });
+  
+  it('should block non-bot traffic from blocked ranges', async () => {
+    mockSettings(['cidr:203.0.113.0/24'], []);
+    const spyglasses = await createSpyglasses();
+    
+    const result = spyglasses.detect(chromeUa, undefined, { ip: '203.0.113.50' });
+    expect(result).toMatchObject({ isBot: false, shouldBlock: true, sourceType: 'none', matchedRule: 'cidr:203.0.113.0/24' });
+    expect(spyglasses.detect(chromeUa, undefined, { ip: '192.0.2.1' }).shouldBlock).toBe(false);
+  });
+  
+  it('should block AI referrer visits from blocked IPs', async () => {
+    mockSettings(['ip:2001:db8::bad'], []);
+    const spyglasses = await createSpyglasses();
+    
+    const result = spyglasses.detect(chromeUa, 'https://chat.openai.com/', { ip: '2001:db8::bad' });
+    expect(result.sourceType).toBe('ai_referrer');
+    expect(result.shouldBlock).toBe(true);
+  });
+  
+  it('should let allowed IPs through even when the bot is blocked', async () => {
+    mockSettings(['category:AI Crawler'], ['cidr:192.0.2.0/28'], true);
+    const spyglasses = await createSpyglasses();
+    
+    const allowed = spyglasses.detect(gptbotUa, undefined, { ip: '192.0.2.3' });
+    expect(allowed.shouldBlock).toBe(false);
+    expect(allowed.matchedRule).toBe('cidr:192.0.2.0/28');
+    
+    const blocked = spyglasses.detect(gptbotUa, undefined, { ip: '192.0.2.100' });
+    expect(blocked.shouldBlock).toBe(true);
+    expect(blocked.matchedRule).toBe('category:AI Crawler');
+  });
+  
+  it('should let pattern allows win over IP blocks', async () => {
+    mockSettings(['cidr:198.51.100.0/24'], ['pattern:GPTBot\\/[0-9]']);
+    const spyglasses = await createSpyglasses();
+    
+    expect(spyglasses.detect(gptbotUa, undefined, { ip: '198.51.100.1' }).shouldBlock).toBe(false);
+  });
+  
+  it('should let allowed IPs bypass the datacenter block policy', async () => {
+    mockSettings([], ['ip:3.5.140.9']);
+    const spyglasses = await createSpyglasses({ datacenter: { ranges: { aws: ['3.5.140.0/22'] }, policy: 'block' } });
+    
+    expect(spyglasses.detect(chromeUa, undefined, { ip: '3.5.140.9' }).shouldBlock).toBe(false);
+    expect(spyglasses.detect(chromeUa, undefined, { ip: '3.5.140.10' }).shouldBlock).toBe(true);
+  });
+  
+  it('should log blocked requests with the matched rule', async () => {
+    mockSettings(['cidr:203.0.113.0/24'], []);
+    const memory = new MemorySink();
+    const spyglasses = await createSpyglasses({ sinks: [memory] });
+    
+    const { response, logging } = spyglasses.handle(new Request('https://example.com/page', {
+      headers: { 'user-agent': chromeUa, 'x-forwarded-for': '203.0.113.7' }
+    }), { trustProxy: true });
+    await logging;
+    
+    expect(response?.status).toBe(403);
+    expect(memory.records).toHaveLength(1);
+    expect(memory.records[0].metadata).toMatchObject({ was_blocked: true, matched_rule: 'cidr:203.0.113.0/24' });
+  });
+
+  it('should ignore proxy headers in handle() unless trustProxy is set', async () => {
+    mockSettings(['category:AI Crawler'], ['ip:198.51.100.5']);
+    const spyglasses = await createSpyglasses();
+    const request = () => new Request('https://example.com/page', {
+      headers: { 'user-agent': gptbotUa, 'x-forwarded-for': '198.51.100.5', 'cf-connecting-ip': '203.0.113.1' }
+    });
+
+    expect(spyglasses.handle(request()).result).toMatchObject({ shouldBlock: true, action: 'block' });
+    expect(spyglasses.handle(request(), { trustProxy: 'x-forwarded-for' }).result).toMatchObject({ shouldBlock: false, action: 'allow' });
+    expect(spyglasses.handle(request(), { trustProxy: true }).result.shouldBlock).toBe(true);
+  });
+});
+
+describe('Shadow mode', () => {
+  beforeEach(() => {
+    vi.resetAllMocks();
+  });
+  
+  it('should report what would be blocked without blocking it', async () => {
+    mockSettings(['cidr:203.0.113.0/24'], [], true);
+    const spyglasses = await createSpyglasses({ shadowMode: true });
+    
+    expect(spyglasses.detect(gptbotUa)).toMatchObject({ shouldBlock: false, wouldBlock: true, action: 'log-only' });
+    expect(spyglasses.detect(chromeUa, undefined, { ip: '203.0.113.7' })).toMatchObject({
+      shouldBlock: false,
+      wouldBlock: true,
+      action: 'log-only',
+      matchedRule: 'cidr:203.0.113.0/24'
+    });
+    expect(spyglasses.detect(chromeUa, undefined, { ip: '198.51.100.1' }).wouldBlock).toBeUndefined();
+  });
+  
+  it('should not report allowed requests as would-be blocked', async () => {
+    mockSettings(['category:AI Crawler'], ['pattern:GPTBot\\/[0-9]']);
+    const spyglasses = await createSpyglasses({ shadowMode: true });
+    
+    expect(spyglasses.detect(gptbotUa)).toMatchObject({ shouldBlock: false, action: 'allow' });
+    expect(spyglasses.detect(gptbotUa).wouldBlock).toBeUndefined();
+  });
+  
+  it('should name the setting that would have blocked the request', async () => {
+    mockSettings([], [], true);
+    const spyglasses = await createSpyglasses({ shadowMode: true, datacenter: { ranges: { aws: ['3.5.140.0/22'] }, policy: 'block' } });
+    
+    expect(spyglasses.detect(gptbotUa)).toMatchObject({ action: 'log-only', wouldBlock: true, matchedRule: 'blockAiModelTrainers' });
+    expect(spyglasses.detect(chromeUa, undefined, { ip: '3.5.140.10' })).toMatchObject({ action: 'log-only', wouldBlock: true, matchedRule: 'datacenter' });
+  });
+  
+  it('should keep enforcing rate limits on requests that would have been blocked', async () => {
+    mockSettings([], [], true);
+    const spyglasses = await createSpyglasses({ shadowMode: true, rateLimits: [{ rule: 'category:AI Crawler', limit: 1 }] });
+    
+    expect(spyglasses.applyRateLimit(spyglasses.detect(gptbotUa)).action).toBe('log-only');
+    expect(spyglasses.applyRateLimit(spyglasses.detect(gptbotUa))).toMatchObject({ action: 'throttle', wouldBlock: true });
+  });
+  
+  it('should record would_block next to was_blocked and let the request through', async () => {
+    mockSettings(['cidr:203.0.113.0/24'], []);
+    const memory = new MemorySink();
+    const spyglasses = await createSpyglasses({ sinks: [memory], shadowMode: true });
+    
+    const { response, logging } = spyglasses.handle(new Request('https://example.com/page', {
+      headers: { 'user-agent': chromeUa, 'x-forwarded-for': '203.0.113.7' }
+    }), { trustProxy: true });
+    await logging;
+    
+    expect(response).toBeNull();
+    expect(memory.records[0].response_status).toBe(200);
+    expect(memory.records[0].metadata).toMatchObject({ was_blocked: false, would_block: true, matched_rule: 'cidr:203.0.113.0/24' });
+  });
+  
+  it('should record would_block for enforced blocks too', async () => {
+    mockSettings([], [], true);
+    const memory = new MemorySink();
+    const spyglasses = await createSpyglasses({ sinks: [memory] });
+    
+    const result = spyglasses.detect(gptbotUa);
+    expect(result).toMatchObject({ shouldBlock: true, wouldBlock: true });
+    
+    await spyglasses.logRequest(result, { url: 'https://example.com/', method: 'GET', path: '/', userAgent: gptbotUa, headers: {} });
+    expect(memory.records[0].metadata).toMatchObject({ was_blocked: true, would_block: true });
+  });
+  
+  it('should enforce the rules once shadow mode is switched off', async () => {
+    mockSettings([], [], true);
+    const spyglasses = await createSpyglasses({ shadowMode: true, detectionCacheSize: 10 });
+    
+    expect(spyglasses.detect(gptbotUa).shouldBlock).toBe(false);
+    spyglasses.updateConfig({ shadowMode: false });
+    expect(spyglasses.detect(gptbotUa)).toMatchObject({ shouldBlock: true, action: 'block' });
+  });
+});
@@ -0,0 +1,111 @@
+import { describe, it, expect, vi } from 'vitest';
+import { Schedule, validateSchedule } from '../core/schedule';
+import { Spyglasses } from '../core/spyglasses';
+import { MemorySink } from '../sinks';
+import { RuleSchedule } from '../types';
+
+// Mock fetch for API calls
+global.fetch = vi.fn();
+
+const businessHours: RuleSchedule = {
+  timeZone: 'Europe/Berlin',
+  windows: [{ days: ['mon', 'tue', 'wed', 'thu', 'fri'], start: '08:00', end: '20:00' }]
+};
+
+const gptbotUa = 'Mozilla/5.0 (compatible; GPTBot/1.0; +https://openai.com/gptbot)';
+
+describe('Schedule', () => {
+  it('should evaluate windows in the schedule time zone', () => {
+    const schedule = new Schedule(businessHours);
+    
+    // Monday 4 March 2024, CET (UTC+1)
+    expect(schedule.match(Date.parse('2024-03-04T07:30:00Z'))).toBe('mon,tue,wed,thu,fri 08:00-20:00 Europe/Berlin');
+    expect(schedule.match(Date.parse('2024-03-04T06:59:00Z'))).toBeNull();
+    expect(schedule.match(Date.parse('2024-03-04T19:00:00Z'))).toBeNull();
+    
+    // Saturday
+    expect(schedule.match(Date.parse('2024-03-09T10:00:00Z'))).toBeNull();
+  });
+  
+  it('should follow daylight saving time', () => {
+    const schedule = new Schedule({ timeZone: 'Europe/Berlin', windows: [{ start: '08:00', end: '20:00' }] });
+    
+    // Monday 1 April 2024, CEST (UTC+2)
+    expect(schedule.match(Date.parse('2024-04-01T06:30:00Z'))).toBe('daily 08:00-20:00 Europe/Berlin');
+    expect(schedule.match(Date.parse('2024-04-01T18:30:00Z'))).toBeNull();
+  });
+  
+  it('should run windows past midnight into the next day', () => {
+    const schedule = new Schedule({ windows: [{ days: ['fri'], start: '22:00', end: '06:00' }] });
+    
+    expect(schedule.match(Date.parse('2024-03-08T23:00:00Z'))).not.toBeNull(); // Friday
+    expect(schedule.match(Date.parse('2024-03-09T05:59:00Z'))).not.toBeNull(); // Saturday morning
+    expect(schedule.match(Date.parse('2024-03-09T06:00:00Z'))).toBeNull();
+    expect(schedule.match(Date.parse('2024-03-09T23:00:00Z'))).toBeNull(); // Saturday night
+  });
+  
+  it('should allow windows ending at midnight', () => {
+    const schedule = new Schedule({ windows: [{ start: '20:00', end: '24:00' }] });
+    
+    expect(schedule.match(Date.parse('2024-03-04T23:59:00Z'))).not.toBeNull();
+    expect(schedule.match(Date.parse('2024-03-05T00:00:00Z'))).toBeNull();
+  });
+  
+  it('should describe invalid schedules', () => {
+    expect(validateSchedule({ windows: [] })).toBe('schedule needs at least one window');
+    expect(validateSchedule({ timeZone: 'Mars/Olympus', windows: [{ start: '08:00', end: '20:00' }] })).toBe('unknown time zone "Mars/Olympus"');
+    expect(validateSchedule({ windows: [{ start: '8:00', end: '20:00' }] })).toBe('invalid window times 8:00-20:00');
+    expect(validateSchedule({ windows: [{ start: '08:00', end: '24:30' }] })).toBe('invalid window times 08:00-24:30');
+    expect(validateSchedule({ windows: [{ start: '08:00', end: '08:00' }] })).toBe('window 08:00-08:00 is empty');
+    expect(validateSchedule({ windows: [{ days: [], start: '08:00', end: '20:00' }] })).toContain('window days');
+    expect(() => new Schedule({ windows: [] })).toThrow('Invalid schedule');
+  });
+});
+
+describe('Scheduled rules', () => {
+  it('should block crawlers only inside the window using the injected clock', () => {
+    let now = Date.parse('2024-03-04T09:00:00Z'); // Monday 10:00 in Berlin
+    const spyglasses = new Spyglasses({
+      apiKey: 'test-api-key',
+      autoSync: false,
+      detectionCacheSize: 10,
+      clock: () => now,
+      customBlocks: [{ rule: 'category:AI Crawler', schedule: businessHours }]
+    });
+    
+    const blocked = spyglasses.detect(gptbotUa);
+    expect(blocked.shouldBlock).toBe(true);
+    expect(blocked.matchedScope).toEqual({ schedule: 'mon,tue,wed,thu,fri 08:00-20:00 Europe/Berlin' });
+    
+    // Overnight, served from the same cache entry
+    now = Date.parse('2024-03-04T22:00:00Z');
+    expect(spyglasses.detect(gptbotUa).shouldBlock).toBe(false);
+    
+    now = Date.parse('2024-03-09T09:00:00Z'); // Saturday
+    expect(spyglasses.detect(gptbotUa).shouldBlock).toBe(false);
+  });
+  
+  it('should combine schedules with other scopes and report them to the collector', async () => {
+    const memory = new MemorySink();
+    const spyglasses = new Spyglasses({
+      apiKey: 'test-api-key',
+      autoSync: false,
+      sinks: [memory],
+      clock: () => Date.parse('2024-03-04T09:00:00Z'),
+      customBlocks: [{ rule: 'category:AI Crawler', paths: ['/shop/**'], schedule: businessHours }]
+    });
+    
+    expect(spyglasses.detect(gptbotUa, undefined, { path: '/blog' }).shouldBlock).toBe(false);
+    
+    const { response, logging } = spyglasses.handle(new Request('https://example.com/shop/item', {
+      headers: { 'user-agent': gptbotUa }
+    }));
+    await logging;
+    
+    expect(response?.status).toBe(403);
+    expect(memory.records[0].metadata.matched_scope).toEqual({
+      path: '/shop/**',
+      schedule: 'mon,tue,wed,thu,fri 08:00-20:00 Europe/Berlin'
+    });
+  });
+});
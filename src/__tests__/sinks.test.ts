@@ -0,0 +1,148 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { mkdtemp, readFile } from 'fs/promises';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { Spyglasses } from '../core/spyglasses';
+import { MemorySink, NdjsonSink, WebhookSink, SpyglassesHttpSink } from '../sinks';
+import { CollectorSink, DetectionResult } from '../types';
+import { createPayload } from './fixtures/http';
+
+// Mock fetch for API calls
+global.fetch = vi.fn();
+
+const botResult: DetectionResult = { isBot: true, shouldBlock: false, sourceType: 'bot' };
+const requestInfo = {
+  url: 'https://example.com/page',
+  method: 'GET',
+  path: '/page',
+  userAgent: 'GPTBot/1.0',
+  headers: {}
+};
+
+describe('Sinks', () => {
+  beforeEach(() => {
+    vi.resetAllMocks();
+    vi.mocked(fetch).mockResolvedValue({ ok: true, status: 200, statusText: 'OK' } as Response);
+  });
+
+  describe('Built-in sinks', () => {
+    it('should keep records in memory up to the limit', async () => {
+      const sink = new MemorySink(2);
+
+      await sink.send([createPayload('/a'), createPayload('/b'), createPayload('/c')]);
+
+      expect(sink.records.map(record => record.request_path)).toEqual(['/b', '/c']);
+    });
+
+    it('should write one JSON line per payload to a stream', async () => {
+      const chunks: string[] = [];
+      const sink = new NdjsonSink({ stream: { write: (chunk: string) => chunks.push(chunk) } });
+
+      await sink.send([createPayload('/a'), createPayload('/b')]);
+
+      const lines = chunks.join('').trim().split('\n');
+      expect(lines).toHaveLength(2);
+      expect(JSON.parse(lines[1]).request_path).toBe('/b');
+    });
+
+    it('should append NDJSON to a file', async () => {
+      const path = join(await mkdtemp(join(tmpdir(), 'spyglasses-')), 'events.ndjson');
+      const sink = new NdjsonSink({ path });
+
+      await sink.send([createPayload('/a')]);
+      await sink.send([createPayload('/b')]);
+      await sink.close();
+
+      const lines = (await readFile(path, 'utf8')).trim().split('\n');
+      expect(lines.map(line => JSON.parse(line).request_path)).toEqual(['/a', '/b']);
+    });
+
+    it('should post to a webhook and reject on HTTP errors', async () => {
+      const sink = new WebhookSink({ url: 'https://hooks.example.com/ingest', headers: { authorization: 'Bearer token' } });
+
+      await sink.send([createPayload('/a')]);
+      expect(fetch).toHaveBeenCalledWith(
+        'https://hooks.example.com/ingest',
+        expect.objectContaining({
+          method: 'POST',
+          headers: expect.objectContaining({ authorization: 'Bearer token' })
+        })
+      );
+
+      vi.mocked(fetch).mockResolvedValueOnce({ ok: false, status: 500, statusText: 'Server Error' } as Response);
+      await expect(sink.send([createPayload('/b')])).rejects.toThrow('Webhook HTTP error 500');
+    });
+
+    it('should post each payload to the Spyglasses collector on its own', async () => {
+      const sink = new SpyglassesHttpSink({ apiKey: 'test-api-key' });
+
+      await sink.send([createPayload('/a'), createPayload('/b')]);
+
+      expect(fetch).toHaveBeenCalledTimes(2);
+      expect(fetch).toHaveBeenCalledWith(
+        'https://www.spyglasses.io/api/collect',
+        expect.objectContaining({
+          headers: expect.objectContaining({ 'x-api-key': 'test-api-key' })
+        })
+      );
+      expect(JSON.parse(vi.mocked(fetch).mock.calls[1][1]?.body as string)).toMatchObject({ request_path: '/b' });
+    });
+  });
+
+  describe('Spyglasses sink dispatch', () => {
+    it('should send to sinks alongside the collector', async () => {
+      const memory = new MemorySink();
+      const spyglasses = new Spyglasses({ apiKey: 'test-api-key', autoSync: false, sinks: [memory] });
+
+      const response = await spyglasses.logRequest(botResult, requestInfo);
+
+      expect(response).toBeDefined();
+      expect(fetch).toHaveBeenCalledWith('https://www.spyglasses.io/api/collect', expect.anything());
+      expect(memory.records).toHaveLength(1);
+      expect(memory.records[0].request_path).toBe('/page');
+    });
+
+    it('should log to sinks without an API key', async () => {
+      const memory = new MemorySink();
+      const spyglasses = new Spyglasses({ autoSync: false, sinks: [memory] });
+
+      await spyglasses.logRequest(botResult, requestInfo);
+
+      expect(fetch).not.toHaveBeenCalled();
+      expect(memory.records).toHaveLength(1);
+    });
+
+    it('should isolate failing sinks from the others', async () => {
+      const memory = new MemorySink();
+      const failing: CollectorSink = {
+        name: 'failing',
+        send: () => {
+          throw new Error('boom');
+        }
+      };
+      const spyglasses = new Spyglasses({ autoSync: false, sinks: [failing, memory] });
+
+      await expect(spyglasses.logRequest(botResult, requestInfo)).resolves.toBeUndefined();
+      expect(memory.records).toHaveLength(1);
+    });
+
+    it('should deliver batches to every sink and close them on shutdown', async () => {
+      const memory = new MemorySink();
+      const close = vi.fn(async () => {});
+      const spyglasses = new Spyglasses({
+        apiKey: 'test-api-key',
+        autoSync: false,
+        batching: { maxBatchSize: 10, flushInterval: 60000 },
+        sinks: [memory, { name: 'closable', send: async () => {}, close }]
+      });
+
+      await spyglasses.logRequest(botResult, requestInfo);
+      await spyglasses.logRequest(botResult, requestInfo);
+      await spyglasses.shutdown();
+
+      expect(memory.records).toHaveLength(2);
+      expect(fetch).toHaveBeenCalledTimes(2);
+      expect(close).toHaveBeenCalled();
+    });
+  });
+});
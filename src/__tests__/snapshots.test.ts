@@ -0,0 +1,177 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { mkdtemp, readdir, readFile, writeFile } from 'fs/promises';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { Spyglasses } from '../core/spyglasses';
+import { FileSnapshotStore, MemorySnapshotStore } from '../snapshots';
+import { ApiPatternResponse, PatternSnapshot } from '../types';
+
+// Mock fetch for API calls
+global.fetch = vi.fn();
+
+const gptbotUa = 'Mozilla/5.0 (compatible; GPTBot/1.0; +https://openai.com/gptbot)';
+const scraperUa = 'AcmeScraper/2.0';
+
+const patternData: ApiPatternResponse = {
+  version: '3.1.0',
+  patterns: [
+    { pattern: 'AcmeScraper\\/[0-9]', type: 'acme', category: 'Scraper', subcategory: 'Data Scrapers', company: 'Acme' },
+    { pattern: 'GPTBot\\/[0-9]', type: 'gptbot', category: 'AI Crawler', subcategory: 'Model Training Crawlers', company: 'OpenAI', isAiModelTrainer: true }
+  ],
+  aiReferrers: [],
+  propertySettings: { blockAiModelTrainers: false, customBlocks: ['category:Scraper'], customAllows: [] }
+};
+
+function createSnapshot(ageMs: number, data: ApiPatternResponse = patternData): PatternSnapshot {
+  return { data, savedAt: Date.now() - ageMs, etag: '"v3"' };
+}
+
+describe('Pattern Snapshots', () => {
+  beforeEach(() => {
+    vi.resetAllMocks();
+  });
+  
+  it('should restore patterns and property settings before any network sync', () => {
+    vi.mocked(fetch).mockRejectedValue(new Error('offline'));
+    const spyglasses = new Spyglasses({
+      apiKey: 'test-api-key',
+      snapshotStore: new MemorySnapshotStore(createSnapshot(60 * 1000))
+    });
+    
+    expect(fetch).not.toHaveBeenCalled();
+    expect(spyglasses.getPatternVersion()).toBe('3.1.0');
+    expect(spyglasses.detect(scraperUa).shouldBlock).toBe(true);
+  });
+  
+  it('should ignore snapshots older than the max age', async () => {
+    const spyglasses = new Spyglasses({
+      autoSync: false,
+      snapshotStore: new MemorySnapshotStore(createSnapshot(2 * 60 * 60 * 1000)),
+      snapshotMaxAge: 60 * 60 * 1000
+    });
+    
+    expect(await spyglasses.loadSnapshot()).toBe(false);
+    expect(spyglasses.detect(scraperUa).isBot).toBe(false);
+  });
+  
+  it('should save the last good response after a sync', async () => {
+    vi.mocked(fetch).mockResolvedValue({
+      ok: true,
+      status: 200,
+      headers: new Headers({ etag: '"v3"' }),
+      json: async () => patternData
+    } as Response);
+    const store = new MemorySnapshotStore();
+    const spyglasses = new Spyglasses({ apiKey: 'test-api-key', autoSync: false, snapshotStore: store });
+    
+    await spyglasses.syncPatterns();
+    
+    expect(store.load()).toEqual({
+      data: patternData,
+      savedAt: spyglasses.getLastPatternSync(),
+      etag: '"v3"',
+      lastModified: null
+    });
+  });
+  
+  it('should keep snapshot patterns when the API fails and send its ETag', async () => {
+    vi.mocked(fetch).mockResolvedValue({ ok: false, status: 503, statusText: 'Unavailable' } as Response);
+    const spyglasses = new Spyglasses({
+      apiKey: 'test-api-key',
+      autoSync: false,
+      snapshotStore: new MemorySnapshotStore(createSnapshot(1000))
+    });
+    
+    expect(typeof await spyglasses.syncPatterns()).toBe('string');
+    
+    const headers = vi.mocked(fetch).mock.lastCall?.[1]?.headers as Record<string, string>;
+    expect(headers['If-None-Match']).toBe('"v3"');
+    expect(spyglasses.detect(scraperUa).shouldBlock).toBe(true);
+  });
+  
+  it('should refresh the snapshot age on 304 Not Modified', async () => {
+    vi.mocked(fetch).mockResolvedValue({ ok: false, status: 304, statusText: 'Not Modified' } as Response);
+    const store = new MemorySnapshotStore(createSnapshot(60 * 60 * 1000));
+    const spyglasses = new Spyglasses({ apiKey: 'test-api-key', autoSync: false, snapshotStore: store });
+    
+    await spyglasses.syncPatterns();
+    
+    expect(Date.now() - store.load()!.savedAt).toBeLessThan(1000);
+    expect(store.load()!.data.version).toBe('3.1.0');
+  });
+  
+  it('should not let a late snapshot overwrite a fresher sync', async () => {
+    vi.mocked(fetch).mockResolvedValue({
+      ok: true,
+      status: 200,
+      json: async () => ({ ...patternData, version: '4.0.0' })
+    } as Response);
+    let resolveLoad: (snapshot: PatternSnapshot) => void = () => {};
+    const spyglasses = new Spyglasses({
+      apiKey: 'test-api-key',
+      autoSync: false,
+      snapshotStore: {
+        load: () => new Promise<PatternSnapshot>(resolve => { resolveLoad = resolve; }),
+        save: () => {}
+      }
+    });
+    
+    await spyglasses.syncPatterns();
+    resolveLoad(createSnapshot(1000));
+    await new Promise(resolve => setTimeout(resolve, 0));
+    
+    expect(spyglasses.getPatternVersion()).toBe('4.0.0');
+  });
+  
+  it('should sync only after an asynchronous snapshot has loaded', async () => {
+    vi.mocked(fetch).mockResolvedValue({ ok: false, status: 304, statusText: 'Not Modified' } as Response);
+    const dir = await mkdtemp(join(tmpdir(), 'spyglasses-'));
+    const path = join(dir, 'patterns.json');
+    await writeFile(path, JSON.stringify(createSnapshot(1000)));
+    
+    const spyglasses = new Spyglasses({ apiKey: 'test-api-key', snapshotStore: new FileSnapshotStore({ path }) });
+    expect(fetch).not.toHaveBeenCalled();
+    
+    await vi.waitFor(() => expect(fetch).toHaveBeenCalled());
+    const headers = vi.mocked(fetch).mock.calls[0][1]?.headers as Record<string, string>;
+    expect(headers['If-None-Match']).toBe('"v3"');
+    expect(spyglasses.detect(gptbotUa).isBot).toBe(true);
+  });
+  
+  describe('FileSnapshotStore', () => {
+    it('should round-trip snapshots and create missing directories', async () => {
+      const dir = await mkdtemp(join(tmpdir(), 'spyglasses-'));
+      const store = new FileSnapshotStore({ path: join(dir, 'nested', 'patterns.json') });
+      const snapshot = createSnapshot(0);
+      
+      expect(await store.load()).toBeNull();
+      await store.save(snapshot);
+      
+      expect(await store.load()).toEqual(snapshot);
+    });
+    
+    it('should keep the snapshot whole when stores in several processes share the path', async () => {
+      const dir = await mkdtemp(join(tmpdir(), 'spyglasses-'));
+      const path = join(dir, 'patterns.json');
+      const stores = [new FileSnapshotStore({ path }), new FileSnapshotStore({ path })];
+      
+      await Promise.all(Array.from({ length: 10 }, (_, i) => stores[i % 2].save(createSnapshot(i))));
+      
+      expect((await stores[0].load())?.data.version).toBe('3.1.0');
+      expect(await readdir(dir)).toEqual(['patterns.json']);
+    });
+    
+    it('should reject corrupt snapshot files', async () => {
+      const dir = await mkdtemp(join(tmpdir(), 'spyglasses-'));
+      const path = join(dir, 'patterns.json');
+      await writeFile(path, JSON.stringify({ savedAt: 'yesterday' }));
+      const store = new FileSnapshotStore({ path });
+      
+      await expect(store.load()).rejects.toThrow('Invalid pattern snapshot');
+      
+      const spyglasses = new Spyglasses({ autoSync: false, snapshotStore: store });
+      expect(await spyglasses.loadSnapshot()).toBe(false);
+      expect(await readFile(path, 'utf8')).toContain('yesterday');
+    });
+  });
+});
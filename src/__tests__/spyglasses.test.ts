@@ -1,6 +1,7 @@
-import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
 import { Spyglasses } from '../core/spyglasses';
 import { DetectionResult, AiReferrerInfo, BotInfo } from '../types';
+import { getJitteredDelay } from '../utils/http';
 
 // Mock fetch for API calls
 global.fetch = vi.fn();
@@ -8,7 +9,7 @@ global.fetch = vi.fn();
 describe('Spyglasses Core', () => {
   let spyglasses: Spyglasses;
   
-  beforeEach(() => {
+  beforeEach(async () => {
     vi.resetAllMocks();
     
     // Mock successful API responses
@@ -77,6 +78,9 @@ describe('Spyglasses Core', () => {
       apiKey: 'test-api-key',
       debug: false
     });
+    
+    // Let the initial sync settle so tests that sync again start a new request
+    await spyglasses.ready();
   });
   
   describe('Pattern Syncing', () => {
@@ -211,6 +215,96 @@ describe('Spyglasses Core', () => {
     });
   });
   
+  describe('Timeouts, Retries and Circuit Breaker', () => {
+    it('should retry failed syncs with backoff when retries are configured', async () => {
+      const retryingSpyglasses = new Spyglasses({
+        apiKey: 'test-api-key',
+        autoSync: false,
+        syncRetries: 2,
+        retryDelay: 1
+      });
+      vi.mocked(fetch)
+        .mockRejectedValueOnce(new Error('Network error'))
+        .mockResolvedValueOnce({ ok: false, status: 503, statusText: 'Service Unavailable' } as Response);
+      
+      const callsBefore = vi.mocked(fetch).mock.calls.length;
+      const result = await retryingSpyglasses.syncPatterns();
+      
+      expect(vi.mocked(fetch).mock.calls.length - callsBefore).toBe(3);
+      expect(typeof result).toBe('object');
+    });
+    
+    it('should not retry client errors', async () => {
+      const retryingSpyglasses = new Spyglasses({
+        apiKey: 'test-api-key',
+        autoSync: false,
+        syncRetries: 2,
+        retryDelay: 1
+      });
+      vi.mocked(fetch).mockResolvedValueOnce({ ok: false, status: 401, statusText: 'Unauthorized' } as Response);
+      
+      const callsBefore = vi.mocked(fetch).mock.calls.length;
+      const result = await retryingSpyglasses.syncPatterns();
+      
+      expect(vi.mocked(fetch).mock.calls.length - callsBefore).toBe(1);
+      expect(result).toContain('Pattern sync HTTP error 401');
+    });
+    
+    it('should abort requests that exceed the timeout', async () => {
+      const slowSpyglasses = new Spyglasses({
+        apiKey: 'test-api-key',
+        autoSync: false,
+        requestTimeout: 10
+      });
+      vi.mocked(fetch).mockImplementationOnce((_url, options) => new Promise((_resolve, reject) => {
+        options?.signal?.addEventListener('abort', () => reject(new Error('aborted')));
+      }));
+      
+      const result = await slowSpyglasses.syncPatterns();
+      
+      expect(result).toContain('Request timed out after 10ms');
+    });
+
+    it('should abort responses whose body stalls after the headers arrive', async () => {
+      const slowSpyglasses = new Spyglasses({
+        apiKey: 'test-api-key',
+        autoSync: false,
+        requestTimeout: 10
+      });
+      vi.mocked(fetch).mockImplementationOnce(async (_url, options) => ({
+        ok: true,
+        status: 200,
+        json: () => new Promise((_resolve, reject) => {
+          options?.signal?.addEventListener('abort', () => reject(new Error('aborted')));
+        })
+      } as Response));
+
+      const result = await slowSpyglasses.syncPatterns();
+
+      expect(result).toContain('Request timed out after 10ms');
+    });
+
+    it('should stop calling the collector once the circuit opens', async () => {
+      const breakerSpyglasses = new Spyglasses({
+        apiKey: 'test-api-key',
+        autoSync: false,
+        circuitBreaker: { failureThreshold: 2, resetTimeout: 60000 }
+      });
+      vi.mocked(fetch).mockRejectedValue(new Error('Network error'));
+      const result: DetectionResult = { isBot: true, shouldBlock: false, sourceType: 'bot' };
+      const requestInfo = { url: 'https://example.com/', method: 'GET', path: '/', userAgent: 'GPTBot/1.0', headers: {} };
+      
+      const callsBefore = vi.mocked(fetch).mock.calls.length;
+      await breakerSpyglasses.logRequest(result, requestInfo);
+      await breakerSpyglasses.logRequest(result, requestInfo);
+      await breakerSpyglasses.logRequest(result, requestInfo);
+      
+      expect(vi.mocked(fetch).mock.calls.length - callsBefore).toBe(2);
+      expect(breakerSpyglasses.getCircuitBreakerState().collector.state).toBe('open');
+      expect(breakerSpyglasses.getCircuitBreakerState().patterns.state).toBe('closed');
+    });
+  });
+  
   describe('Bot Detection', () => {
     it('should detect AI bots', () => {
       const result = spyglasses.detectBot('Mozilla/5.0 (compatible; GPTBot/1.0; +https://openai.com/gptbot)');
@@ -599,4 +693,369 @@ describe('Spyglasses Core', () => {
       expect(response).toBeUndefined();
     });
   });
+  
+  describe('Batched Collection', () => {
+    it('should queue payloads and send the batch on flush, one event per request', async () => {
+      const batchedSpyglasses = new Spyglasses({
+        apiKey: 'test-api-key',
+        autoSync: false,
+        batching: { maxBatchSize: 10, flushInterval: 60000 }
+      });
+      const result: DetectionResult = {
+        isBot: true,
+        shouldBlock: false,
+        sourceType: 'bot',
+        info: {
+          pattern: 'GPTBot\\/[0-9]',
+          type: 'gptbot',
+          category: 'AI Crawler',
+          subcategory: 'Model Training Crawlers',
+          company: 'OpenAI',
+          isCompliant: true,
+          isAiModelTrainer: true,
+          intent: 'DataCollection'
+        }
+      };
+      const requestInfo = {
+        url: 'https://example.com/test',
+        method: 'GET',
+        path: '/test',
+        userAgent: 'Mozilla/5.0 (compatible; GPTBot/1.0; +https://openai.com/gptbot)',
+        headers: {}
+      };
+      
+      const collectCalls = () => vi.mocked(fetch).mock.calls.filter(([url]) => url.toString().includes('/collect'));
+      
+      await batchedSpyglasses.logRequest(result, requestInfo);
+      await batchedSpyglasses.logRequest(result, requestInfo);
+      
+      expect(collectCalls()).toHaveLength(0);
+      expect(batchedSpyglasses.getQueueStats()).toEqual({ queued: 2, sent: 0, failed: 0, dropped: 0 });
+      
+      await batchedSpyglasses.shutdown();
+      
+      expect(collectCalls()).toHaveLength(2);
+      const body = JSON.parse(collectCalls()[0][1]?.body as string);
+      expect(Array.isArray(body)).toBe(false);
+      expect(body.request_path).toBe('/test');
+      expect(batchedSpyglasses.getQueueStats()).toEqual({ queued: 0, sent: 2, failed: 0, dropped: 0 });
+    });
+    
+    it('should send batches to the collect endpoint set by updateConfig', async () => {
+      const batchedSpyglasses = new Spyglasses({
+        apiKey: 'test-api-key',
+        autoSync: false,
+        batching: { maxBatchSize: 10, flushInterval: 60000 }
+      });
+      const result: DetectionResult = { isBot: true, shouldBlock: false, sourceType: 'bot' };
+      const requestInfo = { url: 'https://example.com/', method: 'GET', path: '/', userAgent: 'GPTBot/1.0', headers: {} };
+      
+      batchedSpyglasses.updateConfig({ collectEndpoint: 'https://collector.example.com/collect' });
+      await batchedSpyglasses.logRequest(result, requestInfo);
+      await batchedSpyglasses.flush();
+      
+      expect(fetch).toHaveBeenCalledWith('https://collector.example.com/collect', expect.anything());
+    });
+    
+    it('should count batches the collector rejects as failed', async () => {
+      const batchedSpyglasses = new Spyglasses({
+        apiKey: 'test-api-key',
+        autoSync: false,
+        batching: { maxBatchSize: 10, flushInterval: 60000 }
+      });
+      vi.mocked(fetch).mockResolvedValue({ ok: false, status: 500, statusText: 'Internal Server Error' } as Response);
+      const result: DetectionResult = { isBot: true, shouldBlock: false, sourceType: 'bot' };
+      const requestInfo = { url: 'https://example.com/', method: 'GET', path: '/', userAgent: 'GPTBot/1.0', headers: {} };
+      
+      await batchedSpyglasses.logRequest(result, requestInfo);
+      await batchedSpyglasses.flush();
+      
+      expect(batchedSpyglasses.getQueueStats()).toEqual({ queued: 0, sent: 0, failed: 1, dropped: 0 });
+    });
+  });
+  
+  describe('Detection Cache', () => {
+    const gptbotUa = 'Mozilla/5.0 (compatible; GPTBot/1.0; +https://openai.com/gptbot)';
+    
+    it('should be disabled by default', () => {
+      expect(spyglasses.getCacheStats()).toBeNull();
+    });
+    
+    it('should count hits and misses per user agent and referrer', () => {
+      const cachedSpyglasses = new Spyglasses({ autoSync: false, detectionCacheSize: 10 });
+      
+      const first = cachedSpyglasses.detect(gptbotUa);
+      const second = cachedSpyglasses.detect(gptbotUa);
+      cachedSpyglasses.detect(gptbotUa, 'https://chat.openai.com/');
+      
+      expect(second).toEqual(first);
+      expect(second).not.toBe(first);
+      expect(cachedSpyglasses.getCacheStats()).toEqual({ hits: 1, misses: 2, size: 2, maxSize: 10 });
+    });
+    
+    it('should evict the least recently used entry', () => {
+      const cachedSpyglasses = new Spyglasses({ autoSync: false, detectionCacheSize: 2 });
+      
+      cachedSpyglasses.detect('agent-a');
+      cachedSpyglasses.detect('agent-b');
+      cachedSpyglasses.detect('agent-a');
+      cachedSpyglasses.detect('agent-c');
+      cachedSpyglasses.detect('agent-a');
+      cachedSpyglasses.detect('agent-b');
+      
+      expect(cachedSpyglasses.getCacheStats()).toEqual({ hits: 2, misses: 4, size: 2, maxSize: 2 });
+    });
+    
+    it('should invalidate cached results when patterns and settings sync', async () => {
+      const cachedSpyglasses = new Spyglasses({ apiKey: 'test-api-key', autoSync: false, detectionCacheSize: 10 });
+      
+      expect(cachedSpyglasses.detect(gptbotUa).shouldBlock).toBe(false);
+      
+      vi.mocked(fetch).mockResolvedValueOnce({
+        ok: true,
+        json: async () => ({
+          version: '1.0.1',
+          patterns: cachedSpyglasses.getPatterns(),
+          aiReferrers: [],
+          propertySettings: { blockAiModelTrainers: true, customBlocks: [], customAllows: [] }
+        })
+      } as Response);
+      await cachedSpyglasses.syncPatterns();
+      
+      expect(cachedSpyglasses.getCacheStats()?.size).toBe(0);
+      expect(cachedSpyglasses.detect(gptbotUa).shouldBlock).toBe(true);
+    });
+    
+    it('should apply IP-dependent rules to cached results', async () => {
+      const cachedSpyglasses = new Spyglasses({ apiKey: 'test-api-key', autoSync: false, detectionCacheSize: 10 });
+      vi.mocked(fetch).mockResolvedValueOnce({
+        ok: true,
+        json: async () => ({
+          version: '1.0.1',
+          patterns: cachedSpyglasses.getPatterns(),
+          aiReferrers: [],
+          propertySettings: { blockAiModelTrainers: false, customBlocks: ['cidr:203.0.113.0/24'], customAllows: [] }
+        })
+      } as Response);
+      await cachedSpyglasses.syncPatterns();
+      
+      expect(cachedSpyglasses.detect(gptbotUa, undefined, { ip: '192.0.2.1' }).shouldBlock).toBe(false);
+      expect(cachedSpyglasses.detect(gptbotUa, undefined, { ip: '203.0.113.5' }).shouldBlock).toBe(true);
+      expect(cachedSpyglasses.detectBot(gptbotUa, { ip: '203.0.113.5' }).shouldBlock).toBe(true);
+      expect(cachedSpyglasses.getCacheStats()?.hits).toBe(2);
+    });
+  });
+  
+  describe('Background Refresh', () => {
+    const patternCalls = () => vi.mocked(fetch).mock.calls.filter(([url]) => url.toString().includes('/patterns'));
+    
+    afterEach(() => {
+      vi.useRealTimers();
+    });
+    
+    it('should resync on the refresh interval until disposed', async () => {
+      vi.useFakeTimers();
+      const callsBefore = patternCalls().length;
+      const refreshing = new Spyglasses({ apiKey: 'test-api-key', refreshInterval: 60000, refreshJitter: 0 });
+      
+      expect(patternCalls().length - callsBefore).toBe(1);
+      
+      await vi.advanceTimersByTimeAsync(60000);
+      expect(patternCalls().length - callsBefore).toBe(2);
+      
+      await vi.advanceTimersByTimeAsync(60000);
+      expect(patternCalls().length - callsBefore).toBe(3);
+      
+      refreshing.dispose();
+      await vi.advanceTimersByTimeAsync(180000);
+      expect(patternCalls().length - callsBefore).toBe(3);
+    });
+    
+    it('should not refresh without autoSync', async () => {
+      vi.useFakeTimers();
+      const callsBefore = patternCalls().length;
+      new Spyglasses({ apiKey: 'test-api-key', autoSync: false, refreshInterval: 1000 });
+      
+      await vi.advanceTimersByTimeAsync(5000);
+      expect(patternCalls().length - callsBefore).toBe(0);
+    });
+    
+    it('should keep jittered delays within the configured spread', () => {
+      expect(getJitteredDelay(10000, 0.1, () => 0)).toBe(9000);
+      expect(getJitteredDelay(10000, 0.1, () => 0.5)).toBe(10000);
+      expect(getJitteredDelay(10000, 0.1, () => 0.999)).toBeLessThanOrEqual(11000);
+      expect(getJitteredDelay(10000, 0, () => 0)).toBe(10000);
+    });
+    
+    it('should send conditional headers and keep state on 304 Not Modified', async () => {
+      const syncing = new Spyglasses({ apiKey: 'test-api-key', autoSync: false });
+      const data = {
+        version: '2.0.0',
+        patterns: [{ pattern: 'GPTBot\\/[0-9]', type: 'gptbot', category: 'AI Crawler', subcategory: 'Model Training Crawlers', company: 'OpenAI', isAiModelTrainer: true }],
+        aiReferrers: [],
+        propertySettings: { blockAiModelTrainers: true, customBlocks: [], customAllows: [] }
+      };
+      vi.mocked(fetch).mockResolvedValueOnce({
+        ok: true,
+        status: 200,
+        headers: new Headers({ etag: '"abc123"', 'last-modified': 'Wed, 01 Oct 2025 00:00:00 GMT' }),
+        json: async () => data
+      } as Response);
+      await syncing.syncPatterns();
+      const lastSync = syncing.getLastPatternSync();
+      
+      const json = vi.fn();
+      vi.mocked(fetch).mockResolvedValueOnce({ ok: false, status: 304, statusText: 'Not Modified', json } as unknown as Response);
+      const result = await syncing.syncPatterns();
+      
+      const headers = vi.mocked(fetch).mock.lastCall?.[1]?.headers as Record<string, string>;
+      expect(headers['If-None-Match']).toBe('"abc123"');
+      expect(headers['If-Modified-Since']).toBe('Wed, 01 Oct 2025 00:00:00 GMT');
+      expect(json).not.toHaveBeenCalled();
+      expect(result).toMatchObject({ version: '2.0.0', propertySettings: { blockAiModelTrainers: true } });
+      expect(syncing.getPatterns()).toHaveLength(1);
+      expect(syncing.getLastPatternSync()).toBe(lastSync);
+      expect(syncing.detect('GPTBot/1.0').shouldBlock).toBe(true);
+    });
+    
+    it('should fall back to the pattern version when the API sends no validators', async () => {
+      const syncing = new Spyglasses({ apiKey: 'test-api-key', autoSync: false });
+      
+      await syncing.syncPatterns();
+      const firstHeaders = vi.mocked(fetch).mock.lastCall?.[1]?.headers as Record<string, string>;
+      expect(firstHeaders).not.toHaveProperty('If-None-Match');
+      
+      await syncing.syncPatterns();
+      const headers = vi.mocked(fetch).mock.lastCall?.[1]?.headers as Record<string, string>;
+      expect(headers['If-None-Match']).toBe('"1.0.0"');
+      expect(headers['If-Modified-Since']).toBe(new Date(syncing.getLastPatternSync()).toUTCString());
+    });
+  });
+  
+  describe('Readiness and Single-flight Sync', () => {
+    const patternCalls = () => vi.mocked(fetch).mock.calls.filter(([url]) => url.toString().includes('/patterns'));
+    
+    it('should collapse concurrent syncs into one request', async () => {
+      const syncing = new Spyglasses({ apiKey: 'test-api-key', autoSync: false });
+      const callsBefore = patternCalls().length;
+      
+      const [first, second, third] = await Promise.all([
+        syncing.syncPatterns(),
+        syncing.syncPatterns(),
+        syncing.syncPatterns()
+      ]);
+      
+      expect(patternCalls().length - callsBefore).toBe(1);
+      expect(second).toBe(first);
+      expect(third).toBe(first);
+      
+      // A sync after the previous one settled makes a new request
+      await syncing.syncPatterns();
+      expect(patternCalls().length - callsBefore).toBe(2);
+    });
+    
+    it('should resolve ready() once the initial sync has been applied', async () => {
+      vi.mocked(fetch).mockResolvedValueOnce({
+        ok: true,
+        json: async () => ({
+          version: '3.0.0',
+          patterns: [{ pattern: 'GPTBot\\/[0-9]', type: 'gptbot', category: 'AI Crawler', subcategory: 'Model Training Crawlers', company: 'OpenAI', isAiModelTrainer: true }],
+          aiReferrers: [],
+          propertySettings: { blockAiModelTrainers: true, customBlocks: [], customAllows: [] }
+        })
+      } as Response);
+      const starting = new Spyglasses({ apiKey: 'test-api-key' });
+      
+      await expect(starting.ready()).resolves.toBe(true);
+      
+      expect(starting.getPatternVersion()).toBe('3.0.0');
+      expect(starting.detectBot('Mozilla/5.0 (compatible; GPTBot/1.0)').shouldBlock).toBe(true);
+    });
+    
+    it('should resolve ready() after a failed initial sync', async () => {
+      vi.mocked(fetch).mockRejectedValueOnce(new Error('Network error'));
+      const failing = new Spyglasses({ apiKey: 'test-api-key' });
+      
+      await expect(failing.ready()).resolves.toBe(true);
+    });
+    
+    it('should resolve ready(timeout) with false when the sync hangs', async () => {
+      vi.mocked(fetch).mockImplementationOnce(() => new Promise<Response>(() => {}));
+      const hanging = new Spyglasses({ apiKey: 'test-api-key' });
+      
+      await expect(hanging.ready(20)).resolves.toBe(false);
+    });
+    
+    it('should resolve ready() immediately without an API key', async () => {
+      const offline = new Spyglasses({ apiKey: '' });
+      
+      await expect(offline.ready(20)).resolves.toBe(true);
+    });
+  });
+  
+  describe('Fetch-API Handler', () => {
+    it('should pass through regular browsers', async () => {
+      const request = new Request('https://example.com/page', {
+        headers: { 'user-agent': 'Mozilla/5.0 (Windows NT 10.0; Win64; x64) AppleWebKit/537.36' }
+      });
+      
+      const { response, result, logging } = spyglasses.handle(request);
+      await logging;
+      
+      expect(response).toBeNull();
+      expect(result.sourceType).toBe('none');
+      expect(fetch).not.toHaveBeenCalledWith('https://www.spyglasses.io/api/collect', expect.anything());
+    });
+    
+    it('should return a block response and hand the log to waitUntil', async () => {
+      vi.spyOn(spyglasses, 'detect').mockReturnValue({
+        isBot: true,
+        shouldBlock: true,
+        sourceType: 'bot',
+        matchedPattern: 'GPTBot\\/[0-9]'
+      });
+      const waitUntil = vi.fn();
+      let capturedBody: string | undefined;
+      vi.mocked(fetch).mockImplementationOnce(async (url, options) => {
+        capturedBody = options?.body as string;
+        return { ok: true, text: async () => 'OK' } as Response;
+      });
+      
+      const request = new Request('https://example.com/docs?page=2', {
+        headers: {
+          'user-agent': 'Mozilla/5.0 (compatible; GPTBot/1.0; +https://openai.com/gptbot)',
+          'x-forwarded-for': '203.0.113.9, 10.0.0.1'
+        }
+      });
+      
+      const { response, logging } = spyglasses.handle(request, { waitUntil, trustProxy: true });
+      
+      expect(response?.status).toBe(403);
+      expect(waitUntil).toHaveBeenCalledWith(logging);
+      
+      await logging;
+      const payload = JSON.parse(capturedBody!);
+      expect(payload).toHaveProperty('request_path', '/docs');
+      expect(payload).toHaveProperty('request_query', 'page=2');
+      expect(payload).toHaveProperty('ip_address', '203.0.113.9');
+      expect(payload).toHaveProperty('response_status', 403);
+    });
+    
+    it('should use the configured cache TTL without reading the environment', async () => {
+      const edgeSpyglasses = new Spyglasses({
+        apiKey: 'test-api-key',
+        autoSync: false,
+        cacheTtl: 120
+      });
+      
+      await edgeSpyglasses.syncPatterns();
+      
+      expect(fetch).toHaveBeenCalledWith(
+        'https://www.spyglasses.io/api/patterns',
+        expect.objectContaining({
+          next: expect.objectContaining({ revalidate: 120 })
+        })
+      );
+    });
+  });
 }); 
\ No newline at end of file
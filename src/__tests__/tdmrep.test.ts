@@ -0,0 +1,94 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { Spyglasses } from '../core/spyglasses';
+import { TdmRepPolicy } from '../core/tdmrep';
+import { createSpyglassesMiddleware } from '../integrations/express';
+import { MemorySink } from '../sinks';
+import { TdmRepRule } from '../types';
+import { createExpressRequest, createExpressResponse } from './fixtures/http';
+
+// Mock fetch for API calls
+global.fetch = vi.fn();
+
+const gptbotUa = 'Mozilla/5.0 (compatible; GPTBot/1.0; +https://openai.com/gptbot)';
+const chatgptUserUa = 'Mozilla/5.0 (compatible; ChatGPT-User/1.0; +https://openai.com/bot)';
+const chromeUa = 'Mozilla/5.0 (Windows NT 10.0; Win64; x64) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/124.0.0.0 Safari/537.36';
+
+const tdmRep: TdmRepRule[] = [
+  { location: '/blog/public/*', reservation: false },
+  { location: '/blog/*', reservation: true, policy: 'https://example.eu/policies/tdm.json' },
+  { location: '/images/*', reservation: true }
+];
+
+describe('TdmRepPolicy', () => {
+  it('should build tdmrep.json in rule order', () => {
+    expect(JSON.parse(new TdmRepPolicy(tdmRep).toJson())).toEqual([
+      { location: '/blog/public/*', 'tdm-reservation': 0 },
+      { location: '/blog/*', 'tdm-reservation': 1, 'tdm-policy': 'https://example.eu/policies/tdm.json' },
+      { location: '/images/*', 'tdm-reservation': 1 }
+    ]);
+  });
+
+  it('should apply the first matching location', () => {
+    const policy = new TdmRepPolicy(tdmRep);
+
+    expect(policy.getHeaders('/blog/post')).toEqual({ 'tdm-reservation': '1', 'tdm-policy': 'https://example.eu/policies/tdm.json' });
+    expect(policy.getHeaders('/blog/public/post')).toEqual({ 'tdm-reservation': '0' });
+    expect(policy.getHeaders('/about')).toEqual({});
+  });
+
+  it('should skip invalid rules', () => {
+    const policy = new TdmRepPolicy([
+      { location: 'blog/*', reservation: true },
+      { location: '/docs/*', reservation: true, policy: 'policy.json' },
+      { location: '/*', reservation: true }
+    ]);
+
+    expect(policy.getInvalidRules()).toHaveLength(2);
+    expect(JSON.parse(policy.toJson())).toEqual([{ location: '/*', 'tdm-reservation': 1 }]);
+  });
+});
+
+describe('Spyglasses TDMRep', () => {
+  beforeEach(() => {
+    vi.resetAllMocks();
+  });
+
+  it('should serve tdmrep.json and send reservation headers to every visitor', () => {
+    const spyglasses = new Spyglasses({ autoSync: false, tdmRep });
+
+    const { response } = spyglasses.handle(new Request('https://example.eu/.well-known/tdmrep.json', {
+      headers: { 'user-agent': gptbotUa }
+    }));
+    expect(response?.status).toBe(200);
+    expect(response?.headers.get('content-type')).toBe('application/json');
+
+    const { headers } = spyglasses.handle(new Request('https://example.eu/images/cat.png', {
+      headers: { 'user-agent': chromeUa }
+    }));
+    expect(headers).toEqual({ 'tdm-reservation': '1' });
+  });
+
+  it('should record AI model trainers fetching reserved paths', async () => {
+    const memory = new MemorySink();
+    const spyglasses = new Spyglasses({ autoSync: false, sinks: [memory], tdmRep });
+
+    await spyglasses.handle(new Request('https://example.eu/blog/post', { headers: { 'user-agent': gptbotUa } })).logging;
+    await spyglasses.handle(new Request('https://example.eu/blog/public/post', { headers: { 'user-agent': gptbotUa } })).logging;
+    await spyglasses.handle(new Request('https://example.eu/blog/post', { headers: { 'user-agent': chatgptUserUa } })).logging;
+
+    expect(memory.records[0].metadata).toMatchObject({ tdm_reserved: true, tdm_policy: 'https://example.eu/policies/tdm.json' });
+    expect(memory.records[1].metadata.tdm_reserved).toBeUndefined();
+    expect(memory.records[2].metadata.tdm_reserved).toBeUndefined();
+  });
+
+  it('should serve tdmrep.json from the Express middleware', async () => {
+    const spyglasses = new Spyglasses({ autoSync: false, tdmRep });
+    const request = createExpressRequest({ url: '/.well-known/tdmrep.json', headers: { host: 'example.eu', 'user-agent': chromeUa } });
+    const res = createExpressResponse(request);
+    const next = vi.fn();
+
+    await createSpyglassesMiddleware({ spyglasses })(request, res, next);
+    expect(next).not.toHaveBeenCalled();
+    expect(res.body).toBe(new TdmRepPolicy(tdmRep).toJson());
+  });
+});
@@ -0,0 +1,118 @@
+import { BlockAction, BlockResponse, BlockResponseOptions, DetectionResult, RuleAction } from '../types';
+
+const CONTENT_TYPES = {
+  text: 'text/plain; charset=utf-8',
+  html: 'text/html; charset=utf-8',
+  json: 'application/json; charset=utf-8'
+};
+
+/**
+ * Default titles and messages for each response
+ */
+const MESSAGES = {
+  block: { error: 'access_denied', title: 'Access Denied', message: 'Access to this resource has been denied.' },
+  challenge: { error: 'verification_required', title: 'Verification Required', message: 'Please verify that you are human to continue.' },
+  throttle: { error: 'too_many_requests', title: 'Too Many Requests', message: 'Too many requests. Please try again later.' }
+};
+
+/**
+ * Check whether an action keeps the request from reaching the content
+ * @param action The action
+ * @returns True for block, redirect and challenge
+ */
+export function isEnforcedAction(action: RuleAction | undefined): boolean {
+  return action === 'block' || action === 'redirect' || action === 'challenge';
+}
+
+/**
+ * Build the action and flags for a block decision. In shadow mode, decisions
+ * that would keep the request out are downgraded to 'log-only'.
+ * @param action What the block decision does
+ * @param shadow Whether blocking is trialled without being enforced
+ * @returns The action, whether the request should be blocked and that it would be
+ */
+export function toBlockDecision(action: BlockAction, shadow: boolean = false): { action: BlockAction; shouldBlock: boolean; wouldBlock: boolean } {
+  if (shadow && isEnforcedAction(action)) {
+    return { action: 'log-only', shouldBlock: false, wouldBlock: true };
+  }
+  return { action, shouldBlock: isEnforcedAction(action), wouldBlock: true };
+}
+
+/**
+ * Check whether a detection result should be reported to the collector:
+ * classified traffic and anything a rule acted on
+ * @param result The detection result
+ * @returns True if the request should be logged
+ */
+export function shouldReport(result: DetectionResult): boolean {
+  return result.sourceType !== 'none' || result.shouldBlock || (result.action !== undefined && result.action !== 'allow');
+}
+
+/**
+ * Escape text for HTML
+ */
+function escapeHtml(text: string): string {
+  return text.replace(/[&<>"']/g, char => `&#${char.charCodeAt(0)};`);
+}
+
+/**
+ * Render a default body
+ * @param kind Which message to render
+ * @param format The body format
+ * @param retryAfter Seconds until retry, for throttled requests
+ * @returns The body
+ */
+function renderDefaultBody(kind: keyof typeof MESSAGES, format: 'text' | 'html' | 'json', retryAfter?: number): string {
+  const { error, title, message } = MESSAGES[kind];
+
+  if (format === 'json') {
+    return JSON.stringify(retryAfter ? { error, message, retryAfter } : { error, message });
+  }
+  if (format === 'html') {
+    return `<!DOCTYPE html><html><head><meta charset="utf-8"><title>${escapeHtml(title)}</title></head>`
+      + `<body><h1>${escapeHtml(title)}</h1><p>${escapeHtml(message)}</p></body></html>`;
+  }
+  return title;
+}
+
+/**
+ * Build the response for a request that shouldn't reach the content, in any framework.
+ * Returns null when the request should go through: allowed, log-only, or no action.
+ * @param result The detection result
+ * @param options Status codes, body format, bodies and headers
+ * @returns The status, headers and body to send, or null
+ */
+export function createBlockResponse(result: DetectionResult, options: BlockResponseOptions = {}): BlockResponse | null {
+  const format = options.format || 'text';
+  const headers: Record<string, string> = { 'Content-Type': CONTENT_TYPES[format], ...options.headers };
+  const action = result.action || (result.shouldBlock ? 'block' : result.rateLimit?.throttled ? 'throttle' : 'allow');
+
+  if (action === 'redirect') {
+    const location = result.redirectUrl || options.redirectUrl;
+    if (location) {
+      return { status: options.redirectStatus || 302, headers: { ...options.headers, Location: location }, body: '' };
+    }
+    // Without a target, a redirect falls back to blocking
+  }
+
+  if (action === 'challenge') {
+    const body = typeof options.challengeBody === 'function' ? options.challengeBody(result) : options.challengeBody;
+    return { status: options.challengeStatus || 403, headers, body: body ?? renderDefaultBody('challenge', format) };
+  }
+
+  if (action === 'throttle') {
+    const retryAfter = result.rateLimit?.retryAfter || 1;
+    return {
+      status: 429,
+      headers: { ...headers, 'Retry-After': String(retryAfter) },
+      body: renderDefaultBody('throttle', format, retryAfter)
+    };
+  }
+
+  if (action === 'block' || action === 'redirect') {
+    const body = typeof options.body === 'function' ? options.body(result) : options.body;
+    return { status: options.status || 403, headers, body: body ?? renderDefaultBody('block', format) };
+  }
+
+  return null;
+}
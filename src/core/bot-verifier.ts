@@ -0,0 +1,275 @@
+import { BotPattern, BotVerifierOptions, DnsResolver, IpRangeSource, VerificationStatus } from '../types';
+import { ipEquals, ipInCidr, parseCidr, parseIp, ParsedCidr } from '../utils/ip';
+
+/**
+ * DNS error codes that mean "no record" rather than "lookup failed"
+ */
+const NO_RECORD_CODES = new Set(['ENOTFOUND', 'ENODATA', 'NXDOMAIN']);
+
+/**
+ * Default resolver backed by Node.js DNS. Loaded lazily so the SDK stays usable
+ * in runtimes without a DNS module; there, lookups fail and verdicts stay 'unknown'.
+ */
+const nodeDnsResolver: DnsResolver = {
+  async reverse(ip: string): Promise<string[]> {
+    const dns = await import('dns');
+    return dns.promises.reverse(ip);
+  },
+  async lookup(hostname: string): Promise<string[]> {
+    const dns = await import('dns');
+    const addresses = await dns.promises.lookup(hostname, { all: true });
+    return addresses.map(address => address.address);
+  }
+};
+
+/**
+ * Default range source: the ranges published on the pattern itself
+ */
+const patternRangeSource: IpRangeSource = {
+  async getRanges(pattern: BotPattern): Promise<string[]> {
+    return pattern.verification?.ipRanges || [];
+  }
+};
+
+/**
+ * Verifies that a request claiming to be a known crawler really comes from its
+ * operator, using published IP ranges and forward-confirmed reverse DNS.
+ */
+export class BotVerifier {
+  private resolver: DnsResolver;
+  private rangeSource: IpRangeSource;
+  private cacheTtl: number;
+  private maxCacheSize: number;
+  private maxConcurrentLookups: number;
+  private maxPendingLookups: number;
+
+  private cache: Map<string, { status: VerificationStatus; expires: number }> = new Map();
+  private pending: Map<string, Promise<VerificationStatus>> = new Map();
+  private activeLookups: number = 0;
+  private waitingLookups: Array<() => void> = [];
+
+  /**
+   * Create a new bot verifier
+   * @param options Resolver, range source, cache and lookup limit options
+   */
+  constructor(options: BotVerifierOptions = {}) {
+    this.resolver = options.resolver || nodeDnsResolver;
+    this.rangeSource = options.rangeSource || patternRangeSource;
+    this.cacheTtl = options.cacheTtl !== undefined ? options.cacheTtl : 60 * 60 * 1000;
+    this.maxCacheSize = options.maxCacheSize !== undefined ? options.maxCacheSize : 10000;
+    this.maxConcurrentLookups = Math.max(1, options.maxConcurrentLookups !== undefined ? options.maxConcurrentLookups : 10);
+    this.maxPendingLookups = options.maxPendingLookups !== undefined ? options.maxPendingLookups : 1000;
+  }
+
+  /**
+   * Check whether a pattern opts in to verification
+   * @param pattern The bot pattern
+   * @returns True if the pattern has verification settings
+   */
+  public canVerify(pattern: BotPattern): boolean {
+    return !!pattern.verification;
+  }
+
+  /**
+   * Get a verdict without waiting. Returns the cached verdict if there is one;
+   * otherwise starts verification in the background and returns 'unknown'.
+   * @param pattern The matched bot pattern
+   * @param ip The client IP
+   * @returns The verification status
+   */
+  public getStatus(pattern: BotPattern, ip: string): VerificationStatus {
+    const cached = this.getCached(pattern, ip);
+    if (cached !== undefined) {
+      return cached;
+    }
+
+    this.verify(pattern, ip).catch(() => {});
+    return 'unknown';
+  }
+
+  /**
+   * Verify a request, using the cache where possible
+   * @param pattern The matched bot pattern
+   * @param ip The client IP
+   * @returns True if verified, false if the IP does not belong to the operator,
+   *   'unknown' if the pattern can't be verified, lookups failed or too many
+   *   verifications are already pending
+   */
+  public async verify(pattern: BotPattern, ip: string): Promise<VerificationStatus> {
+    const cached = this.getCached(pattern, ip);
+    if (cached !== undefined) {
+      return cached;
+    }
+
+    const key = this.getCacheKey(pattern, ip);
+    const inFlight = this.pending.get(key);
+    if (inFlight) {
+      return inFlight;
+    }
+
+    // Refuse new work rather than let a flood of unseen IPs grow the queue without bound
+    if (this.pending.size >= this.maxPendingLookups) {
+      return 'unknown';
+    }
+
+    const verification = this.withLookupSlot(() => this.runVerification(pattern, ip))
+      .then(status => {
+        this.setCached(key, status);
+        return status;
+      })
+      .finally(() => {
+        this.pending.delete(key);
+      });
+
+    this.pending.set(key, verification);
+    return verification;
+  }
+
+  /**
+   * Clear cached verdicts, e.g. after patterns change
+   */
+  public clear(): void {
+    this.cache.clear();
+  }
+
+  /**
+   * Run a verification once fewer than maxConcurrentLookups are in flight
+   */
+  private async withLookupSlot<T>(run: () => Promise<T>): Promise<T> {
+    if (this.activeLookups >= this.maxConcurrentLookups) {
+      await new Promise<void>(resolve => this.waitingLookups.push(resolve));
+    } else {
+      this.activeLookups++;
+    }
+
+    try {
+      return await run();
+    } finally {
+      // Hand the slot straight to the next waiting verification, if any
+      const next = this.waitingLookups.shift();
+      if (next) {
+        next();
+      } else {
+        this.activeLookups--;
+      }
+    }
+  }
+
+  /**
+   * Run range and reverse DNS checks
+   */
+  private async runVerification(pattern: BotPattern, ip: string): Promise<VerificationStatus> {
+    if (!this.canVerify(pattern) || !parseIp(ip)) {
+      return 'unknown';
+    }
+
+    let inconclusive = false;
+    let checked = false;
+
+    try {
+      const ranges = (await this.rangeSource.getRanges(pattern))
+        .map(range => parseCidr(range))
+        .filter((range): range is ParsedCidr => range !== null);
+      if (ranges.some(range => ipInCidr(ip, range))) {
+        return true;
+      }
+      checked = ranges.length > 0;
+    } catch (error) {
+      inconclusive = true;
+    }
+
+    const domains = (pattern.verification?.reverseDnsDomains || []).map(domain => domain.toLowerCase().replace(/^\./, ''));
+    if (domains.length > 0) {
+      try {
+        if (await this.forwardConfirmedReverseDns(ip, domains)) {
+          return true;
+        }
+        checked = true;
+      } catch (error) {
+        inconclusive = true;
+      }
+    }
+
+    // Nothing to check against counts as unverifiable, not as an impostor
+    if (!checked) {
+      return 'unknown';
+    }
+
+    return inconclusive ? 'unknown' : false;
+  }
+
+  /**
+   * Reverse-resolve the IP, keep hostnames under an allowed domain, and confirm
+   * that one of them resolves back to the same IP
+   */
+  private async forwardConfirmedReverseDns(ip: string, domains: string[]): Promise<boolean> {
+    const hostnames = await this.resolveOrEmpty(() => this.resolver.reverse(ip));
+    const candidates = hostnames
+      .map(hostname => hostname.toLowerCase().replace(/\.$/, ''))
+      .filter(hostname => domains.some(domain => hostname === domain || hostname.endsWith(`.${domain}`)));
+
+    for (const hostname of candidates) {
+      const addresses = await this.resolveOrEmpty(() => this.resolver.lookup(hostname));
+      if (addresses.some(address => ipEquals(address, ip))) {
+        return true;
+      }
+    }
+
+    return false;
+  }
+
+  /**
+   * Treat "no such record" as an empty answer; rethrow other DNS failures
+   */
+  private async resolveOrEmpty(lookup: () => Promise<string[]>): Promise<string[]> {
+    try {
+      return await lookup();
+    } catch (error) {
+      const code = (error as { code?: string }).code;
+      if (code && NO_RECORD_CODES.has(code)) {
+        return [];
+      }
+      throw error;
+    }
+  }
+
+  /**
+   * Build the cache key for a pattern and IP
+   */
+  private getCacheKey(pattern: BotPattern, ip: string): string {
+    return `${pattern.pattern}|${ip}`;
+  }
+
+  /**
+   * Get an unexpired cached verdict
+   */
+  private getCached(pattern: BotPattern, ip: string): VerificationStatus | undefined {
+    const key = this.getCacheKey(pattern, ip);
+    const entry = this.cache.get(key);
+    if (!entry) {
+      return undefined;
+    }
+    if (entry.expires <= Date.now()) {
+      this.cache.delete(key);
+      return undefined;
+    }
+    return entry.status;
+  }
+
+  /**
+   * Cache a verdict
+   */
+  private setCached(key: string, status: VerificationStatus): void {
+    // Inconclusive verdicts are retried sooner in case the failure was transient
+    const ttl = status === 'unknown' ? Math.min(this.cacheTtl, 60 * 1000) : this.cacheTtl;
+
+    // Evict the oldest entry to keep the cache bounded
+    if (this.cache.size >= this.maxCacheSize) {
+      const oldest = this.cache.keys().next().value;
+      if (oldest !== undefined) {
+        this.cache.delete(oldest);
+      }
+    }
+    this.cache.set(key, { status, expires: Date.now() + ttl });
+  }
+}
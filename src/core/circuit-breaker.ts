@@ -0,0 +1,96 @@
+import { CircuitBreakerConfig, CircuitBreakerState } from '../types';
+
+/**
+ * Default circuit breaker values
+ */
+const DEFAULT_BREAKER: Required<CircuitBreakerConfig> = {
+  failureThreshold: 5,
+  resetTimeout: 30000
+};
+
+/**
+ * Circuit breaker for a remote endpoint. After `failureThreshold` consecutive
+ * failures the circuit opens and calls are skipped; once `resetTimeout` has
+ * elapsed a single probe request is let through to decide whether to close it.
+ */
+export class CircuitBreaker {
+  private failureThreshold: number;
+  private resetTimeout: number;
+  private enabled: boolean;
+
+  private state: CircuitBreakerState['state'] = 'closed';
+  private failures: number = 0;
+  private openedAt: number | null = null;
+
+  /**
+   * Create a new circuit breaker
+   * @param config Breaker options, or false to disable the breaker
+   */
+  constructor(config: CircuitBreakerConfig | false = {}) {
+    const fullConfig = { ...DEFAULT_BREAKER, ...(config || {}) };
+
+    this.enabled = config !== false;
+    this.failureThreshold = Math.max(1, fullConfig.failureThreshold);
+    this.resetTimeout = fullConfig.resetTimeout;
+  }
+
+  /**
+   * Check whether a request may be made now. Moves an expired open circuit to
+   * half-open and lets exactly one probe through.
+   * @param now Current time in milliseconds
+   * @returns True if the request should be made
+   */
+  public canRequest(now: number = Date.now()): boolean {
+    if (!this.enabled || this.state === 'closed') {
+      return true;
+    }
+
+    if (this.state === 'open' && this.openedAt !== null && now - this.openedAt >= this.resetTimeout) {
+      this.state = 'half-open';
+      return true;
+    }
+
+    // Open, or half-open with a probe already in flight
+    return false;
+  }
+
+  /**
+   * Record a successful request, closing the circuit
+   */
+  public recordSuccess(): void {
+    this.state = 'closed';
+    this.failures = 0;
+    this.openedAt = null;
+  }
+
+  /**
+   * Record a failed request, opening the circuit once the threshold is reached
+   * or immediately if a half-open probe failed. A disabled breaker only counts
+   * the failure and stays closed.
+   * @param now Current time in milliseconds
+   */
+  public recordFailure(now: number = Date.now()): void {
+    this.failures++;
+
+    if (!this.enabled) {
+      return;
+    }
+
+    if (this.state === 'half-open' || this.failures >= this.failureThreshold) {
+      this.state = 'open';
+      this.openedAt = now;
+    }
+  }
+
+  /**
+   * Get the current breaker state
+   * @returns A snapshot of the breaker state
+   */
+  public getState(): CircuitBreakerState {
+    return {
+      state: this.state,
+      failures: this.failures,
+      openedAt: this.openedAt
+    };
+  }
+}
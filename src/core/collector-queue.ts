@@ -0,0 +1,146 @@
+import { BatchingConfig, CollectorPayload, CollectorQueueStats } from '../types';
+
+/**
+ * Default batching values
+ */
+const DEFAULT_BATCHING: Required<BatchingConfig> = {
+  maxBatchSize: 50,
+  flushInterval: 5000,
+  maxQueueSize: 1000
+};
+
+/**
+ * In-process queue that buffers collector payloads and sends them in batches,
+ * either when a batch fills up or when the flush interval elapses.
+ * Memory is bounded by dropping the oldest payloads once the queue is full.
+ */
+export class CollectorQueue {
+  private maxBatchSize: number;
+  private flushInterval: number;
+  private maxQueueSize: number;
+
+  private queue: CollectorPayload[] = [];
+  private droppedCount: number = 0;
+  private sentCount: number = 0;
+  private failedCount: number = 0;
+  private timer: ReturnType<typeof setTimeout> | null = null;
+  private flushing: Promise<void> = Promise.resolve();
+  private closed: boolean = false;
+
+  /**
+   * Create a new collector queue
+   * @param send Sends one batch; rejects if delivery failed, which the queue counts and swallows
+   * @param config Batching options
+   */
+  constructor(
+    private send: (batch: CollectorPayload[]) => Promise<void>,
+    config: BatchingConfig = {}
+  ) {
+    const fullConfig = { ...DEFAULT_BATCHING, ...config };
+
+    this.maxBatchSize = Math.max(1, fullConfig.maxBatchSize);
+    this.flushInterval = fullConfig.flushInterval;
+    this.maxQueueSize = Math.max(this.maxBatchSize, fullConfig.maxQueueSize);
+  }
+
+  /**
+   * Add a payload to the queue
+   * @param payload The collector payload
+   * @returns False if the queue has been shut down and the payload was not accepted
+   */
+  public enqueue(payload: CollectorPayload): boolean {
+    if (this.closed) {
+      return false;
+    }
+
+    if (this.queue.length >= this.maxQueueSize) {
+      this.queue.shift();
+      this.droppedCount++;
+    }
+    this.queue.push(payload);
+
+    if (this.queue.length >= this.maxBatchSize) {
+      this.flush().catch(() => {});
+    } else {
+      this.scheduleFlush();
+    }
+
+    return true;
+  }
+
+  /**
+   * Send everything currently queued
+   * @returns A promise that resolves once all queued batches have been sent
+   */
+  public flush(): Promise<void> {
+    this.clearTimer();
+
+    // Chain flushes so batches are never sent concurrently or out of order
+    this.flushing = this.flushing.then(async () => {
+      while (this.queue.length > 0) {
+        const batch = this.queue.splice(0, this.maxBatchSize);
+        try {
+          await this.send(batch);
+          this.sentCount += batch.length;
+        } catch (error) {
+          // Sending is best effort; a failed batch is not re-queued
+          this.failedCount += batch.length;
+        }
+      }
+    });
+
+    return this.flushing;
+  }
+
+  /**
+   * Stop accepting payloads and send whatever is left
+   * @returns A promise that resolves once the final flush completes
+   */
+  public shutdown(): Promise<void> {
+    this.closed = true;
+    return this.flush();
+  }
+
+  /**
+   * Get queue statistics
+   * @returns Queued, sent, failed and dropped payload counts
+   */
+  public getStats(): CollectorQueueStats {
+    return {
+      queued: this.queue.length,
+      sent: this.sentCount,
+      failed: this.failedCount,
+      dropped: this.droppedCount
+    };
+  }
+
+  /**
+   * Start the flush timer if one isn't already pending
+   */
+  private scheduleFlush(): void {
+    if (this.timer) {
+      return;
+    }
+
+    this.timer = setTimeout(() => {
+      this.timer = null;
+      this.flush().catch(() => {});
+    }, this.flushInterval);
+
+    // Don't keep Node.js processes alive just to flush analytics
+    const timer = this.timer as { unref?: () => void };
+    if (typeof timer.unref === 'function') {
+      timer.unref();
+    }
+  }
+
+  /**
+   * Cancel a pending flush timer
+   */
+  private clearTimer(): void {
+    if (this.timer) {
+      clearTimeout(this.timer);
+      this.timer = null;
+    }
+  }
+}
@@ -0,0 +1,176 @@
+import { DatacenterConfig, DatacenterInfo, DatacenterLoadResult, DatacenterRangeFile } from '../types';
+import { CidrSet } from '../utils/ip';
+
+type RangeRecord = Record<string, unknown>;
+
+/**
+ * Read a string field from a JSON record
+ */
+function getString(record: RangeRecord, key: string): string | undefined {
+  const value = record[key];
+  return typeof value === 'string' && value ? value : undefined;
+}
+
+/**
+ * Parse a cloud provider range file into ranges. Supports the AWS ip-ranges.json,
+ * GCP cloud.json/goog.json and Azure ServiceTags formats, plus a plain array of CIDRs.
+ * @param data The parsed JSON document
+ * @param provider Provider name; inferred from the format when omitted
+ * @returns The ranges found in the document
+ */
+export function parseRangeFile(data: unknown, provider?: string): DatacenterInfo[] {
+  const ranges: DatacenterInfo[] = [];
+
+  if (Array.isArray(data)) {
+    for (const range of data) {
+      if (typeof range === 'string') {
+        ranges.push({ provider: provider || 'unknown', range });
+      }
+    }
+    return ranges;
+  }
+
+  if (!data || typeof data !== 'object') {
+    throw new Error('Unrecognized range file format');
+  }
+
+  const document = data as RangeRecord;
+
+  // Azure ServiceTags: { values: [{ name, properties: { region, systemService, addressPrefixes } }] }
+  if (Array.isArray(document.values)) {
+    for (const tag of document.values as RangeRecord[]) {
+      const properties = (tag && tag.properties || {}) as RangeRecord;
+      const prefixes = Array.isArray(properties.addressPrefixes) ? properties.addressPrefixes : [];
+      for (const range of prefixes) {
+        if (typeof range === 'string') {
+          ranges.push({
+            provider: provider || 'azure',
+            range,
+            region: getString(properties, 'region'),
+            service: getString(properties, 'systemService') || getString(tag, 'name')
+          });
+        }
+      }
+    }
+    return ranges;
+  }
+
+  // AWS: { prefixes: [{ ip_prefix, region, service }], ipv6_prefixes: [{ ipv6_prefix, ... }] }
+  // GCP: { prefixes: [{ ipv4Prefix | ipv6Prefix, scope, service }] }
+  if (Array.isArray(document.prefixes)) {
+    const entries = [
+      ...(document.prefixes as RangeRecord[]),
+      ...(Array.isArray(document.ipv6_prefixes) ? document.ipv6_prefixes as RangeRecord[] : [])
+    ];
+    for (const entry of entries) {
+      if (!entry || typeof entry !== 'object') {
+        continue;
+      }
+
+      const awsRange = getString(entry, 'ip_prefix') || getString(entry, 'ipv6_prefix');
+      const gcpRange = getString(entry, 'ipv4Prefix') || getString(entry, 'ipv6Prefix');
+      const range = awsRange || gcpRange;
+      if (!range) {
+        continue;
+      }
+
+      ranges.push({
+        provider: provider || (awsRange ? 'aws' : 'gcp'),
+        range,
+        region: getString(entry, 'region') || getString(entry, 'scope'),
+        service: getString(entry, 'service')
+      });
+    }
+    return ranges;
+  }
+
+  throw new Error('Unrecognized range file format');
+}
+
+/**
+ * Classifies client IPs against cloud provider ranges
+ */
+export class IpClassifier {
+  private ranges: CidrSet<DatacenterInfo> = new CidrSet();
+  private rangeFiles: Array<string | DatacenterRangeFile>;
+  private loading: Promise<DatacenterLoadResult> | null = null;
+
+  /**
+   * Create a new IP classifier. Inline ranges are available immediately;
+   * range files are read by load().
+   * @param config Datacenter classification options
+   */
+  constructor(config: DatacenterConfig = {}) {
+    this.rangeFiles = config.rangeFiles || [];
+
+    for (const [provider, cidrs] of Object.entries(config.ranges || {})) {
+      this.addRanges(cidrs.map(range => ({ provider, range })));
+    }
+  }
+
+  /**
+   * Read the configured range files. Files are read once; later calls return the same result.
+   * @returns The number of ranges added and any per-file errors
+   */
+  public load(): Promise<DatacenterLoadResult> {
+    if (!this.loading) {
+      this.loading = this.loadFiles();
+    }
+    return this.loading;
+  }
+
+  /**
+   * Add ranges to the classifier
+   * @param ranges The ranges to add
+   * @returns The number of valid ranges added
+   */
+  public addRanges(ranges: DatacenterInfo[]): number {
+    let added = 0;
+    for (const range of ranges) {
+      if (this.ranges.add(range.range, range)) {
+        added++;
+      }
+    }
+    return added;
+  }
+
+  /**
+   * Find the cloud provider range an IP belongs to
+   * @param ip The client IP
+   * @returns The most specific matching range, or null
+   */
+  public classify(ip?: string): DatacenterInfo | null {
+    if (!ip || this.ranges.size === 0) {
+      return null;
+    }
+    const match = this.ranges.match(ip);
+    return match ? match.value : null;
+  }
+
+  /**
+   * Number of distinct ranges loaded
+   */
+  public get size(): number {
+    return this.ranges.size;
+  }
+
+  /**
+   * Read and parse every configured range file, isolating failures per file
+   */
+  private async loadFiles(): Promise<DatacenterLoadResult> {
+    const result: DatacenterLoadResult = { loaded: 0, errors: [] };
+
+    for (const file of this.rangeFiles) {
+      const { path, provider } = typeof file === 'string' ? { path: file, provider: undefined } : file;
+      try {
+        const fs = await import('fs/promises');
+        const data = JSON.parse(await fs.readFile(path, 'utf8'));
+        result.loaded += this.addRanges(parseRangeFile(data, provider));
+      } catch (error) {
+        result.errors.push(`${path}: ${error instanceof Error ? error.message : String(error)}`);
+      }
+    }
+
+    return result;
+  }
+}
@@ -0,0 +1,84 @@
+import { LlmsTxtManifest, LlmsTxtPage } from '../types';
+
+/**
+ * Paths that llms.txt files are served from
+ */
+export const LLMS_TXT_PATHS = ['/llms.txt', '/llms-full.txt'];
+
+/**
+ * Section that pages without one are listed under
+ */
+const DEFAULT_SECTION = 'Pages';
+
+/**
+ * Build the header shared by llms.txt and llms-full.txt
+ * @param manifest The site manifest
+ * @returns The title, summary and details lines
+ */
+function buildHeader(manifest: LlmsTxtManifest): string[] {
+  const lines = [`# ${manifest.title}`];
+  if (manifest.summary) {
+    lines.push('', `> ${manifest.summary.replace(/\r?\n/g, ' ')}`);
+  }
+  if (manifest.details) {
+    lines.push('', manifest.details.trim());
+  }
+  return lines;
+}
+
+/**
+ * Group pages by section, keeping the order in which sections first appear.
+ * The 'Optional' section always comes last, as llms.txt readers may skip it.
+ * @param pages The pages
+ * @returns The pages in each section
+ */
+function groupBySection(pages: LlmsTxtPage[]): Map<string, LlmsTxtPage[]> {
+  const sections = new Map<string, LlmsTxtPage[]>();
+  for (const page of pages) {
+    const section = page.section || DEFAULT_SECTION;
+    sections.set(section, [...(sections.get(section) || []), page]);
+  }
+
+  const optional = sections.get('Optional');
+  if (optional) {
+    sections.delete('Optional');
+    sections.set('Optional', optional);
+  }
+  return sections;
+}
+
+/**
+ * Build llms.txt: the site title and summary followed by a linked list of pages per section
+ * @param manifest The site manifest
+ * @returns The llms.txt content
+ */
+export function buildLlmsTxt(manifest: LlmsTxtManifest): string {
+  const lines = buildHeader(manifest);
+  for (const [section, pages] of groupBySection(manifest.pages)) {
+    lines.push('', `## ${section}`, '');
+    for (const page of pages) {
+      lines.push(`- [${page.title}](${page.url})${page.summary ? `: ${page.summary}` : ''}`);
+    }
+  }
+  return `${lines.join('\n')}\n`;
+}
+
+/**
+ * Build llms-full.txt: the site header followed by the content of every page,
+ * or its summary for pages without a body
+ * @param manifest The site manifest
+ * @returns The llms-full.txt content
+ */
+export function buildLlmsFullTxt(manifest: LlmsTxtManifest): string {
+  const lines = buildHeader(manifest);
+  for (const pages of groupBySection(manifest.pages).values()) {
+    for (const page of pages) {
+      lines.push('', `## ${page.title}`, '', `Source: ${page.url}`);
+      const content = (page.body || page.summary || '').trim();
+      if (content) {
+        lines.push('', content);
+      }
+    }
+  }
+  return `${lines.join('\n')}\n`;
+}
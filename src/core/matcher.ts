@@ -0,0 +1,257 @@
+import { BotPattern } from '../types';
+
+/**
+ * Default number of patterns combined into one alternation
+ */
+const DEFAULT_GROUP_SIZE = 32;
+
+/**
+ * A bot pattern with its compiled regex and required literal
+ */
+interface CompiledPattern {
+  pattern: BotPattern;
+  regex: RegExp;
+  /** Lowercase substring every match must contain, or null if none could be extracted */
+  literal: string | null;
+}
+
+/**
+ * Consecutive patterns tested together
+ */
+interface PatternGroup {
+  members: CompiledPattern[];
+  /** Alternation of all members, or null if they can't be combined */
+  regex: RegExp | null;
+  /** Literals of all members, or null if any member has no literal */
+  literals: string[] | null;
+}
+
+/**
+ * Extract a literal substring that every match of a pattern must contain. Only
+ * top-level literal runs are considered and anything ambiguous yields null, so
+ * the result can safely rule patterns out before running them.
+ * @param source The regex source
+ * @returns The longest required literal (lowercased), or null
+ */
+export function extractLiteral(source: string): string | null {
+  const runs: string[] = [];
+  let current = '';
+  let depth = 0;
+  let lastWasLiteral = false;
+
+  const endRun = () => {
+    if (current) {
+      runs.push(current);
+    }
+    current = '';
+    lastWasLiteral = false;
+  };
+
+  const addLiteral = (char: string) => {
+    // Non-ASCII characters case-fold differently in toLowerCase and the regex 'i' flag
+    if (depth > 0 || char.charCodeAt(0) > 127) {
+      endRun();
+      return;
+    }
+    current += char.toLowerCase();
+    lastWasLiteral = true;
+  };
+
+  for (let i = 0; i < source.length; i++) {
+    const char = source[i];
+
+    if (char === '\\') {
+      const next = source[i + 1];
+      if (next === undefined || 'xuckpP'.includes(next)) {
+        return null;
+      }
+      i++;
+      if (/[a-zA-Z0-9]/.test(next)) {
+        // Character class escape (\d, \w, \b...) or backreference
+        endRun();
+        while (/[0-9]/.test(source[i + 1] || '')) {
+          i++;
+        }
+      } else {
+        addLiteral(next);
+      }
+    } else if (char === '[') {
+      endRun();
+      for (i++; i < source.length && source[i] !== ']'; i++) {
+        if (source[i] === '\\') {
+          i++;
+        }
+      }
+    } else if (char === '(') {
+      endRun();
+      depth++;
+    } else if (char === ')') {
+      endRun();
+      depth--;
+    } else if (char === '|') {
+      if (depth === 0) {
+        return null;
+      }
+      endRun();
+    } else if (char === '?' || char === '*' || char === '{') {
+      // The previous literal is optional, so it can't be part of a required run
+      if (lastWasLiteral) {
+        current = current.slice(0, -1);
+      }
+      endRun();
+      if (char === '{') {
+        const close = source.indexOf('}', i);
+        if (close === -1) {
+          return null;
+        }
+        i = close;
+      }
+    } else if (char === '+') {
+      endRun();
+    } else if (char === '.' || char === '^' || char === '$') {
+      endRun();
+    } else {
+      addLiteral(char);
+    }
+  }
+  endRun();
+
+  if (depth !== 0) {
+    return null;
+  }
+
+  return runs.reduce<string | null>((longest, run) => (!longest || run.length > longest.length ? run : longest), null);
+}
+
+/**
+ * Check whether a pattern can be embedded in an alternation without changing
+ * its meaning (backreferences and named groups depend on group numbering)
+ * @param source The regex source
+ * @returns True if the pattern can be combined
+ */
+function isCombinable(source: string): boolean {
+  return !/\\[1-9]|\\k<|\(\?<(?![=!])/.test(source);
+}
+
+/**
+ * Matches user agents against bot patterns in a single pass for the common case.
+ * Patterns are split into ordered groups; each group is skipped when none of its
+ * required literals occur in the user agent, or when its combined alternation
+ * doesn't match. Only a matching group is scanned pattern by pattern, so the
+ * result is always the first matching pattern in list order.
+ */
+export class PatternMatcher {
+  private groups: PatternGroup[] = [];
+  private invalid: string[] = [];
+  private count: number = 0;
+
+  /**
+   * Compile a pattern list
+   * @param patterns Bot patterns in priority order
+   * @param groupSize Maximum patterns per combined alternation
+   */
+  constructor(patterns: BotPattern[], groupSize: number = DEFAULT_GROUP_SIZE) {
+    let pending: CompiledPattern[] = [];
+
+    for (const pattern of patterns) {
+      let regex: RegExp;
+      try {
+        regex = new RegExp(pattern.pattern, 'i');
+      } catch (error) {
+        this.invalid.push(pattern.pattern);
+        continue;
+      }
+
+      const compiled: CompiledPattern = { pattern, regex, literal: extractLiteral(pattern.pattern) };
+      this.count++;
+
+      if (!isCombinable(pattern.pattern)) {
+        this.addGroup(pending);
+        this.addGroup([compiled], false);
+        pending = [];
+        continue;
+      }
+
+      pending.push(compiled);
+      if (pending.length >= groupSize) {
+        this.addGroup(pending);
+        pending = [];
+      }
+    }
+    this.addGroup(pending);
+  }
+
+  /**
+   * Find the first pattern that matches a user agent
+   * @param userAgent The user agent string
+   * @returns The first matching pattern in list order, or null
+   */
+  public match(userAgent: string): BotPattern | null {
+    if (!userAgent) {
+      return null;
+    }
+
+    const haystack = userAgent.toLowerCase();
+
+    for (const group of this.groups) {
+      if (group.literals && !group.literals.some(literal => haystack.includes(literal))) {
+        continue;
+      }
+      if (group.regex && !group.regex.test(userAgent)) {
+        continue;
+      }
+
+      for (const member of group.members) {
+        if (member.literal && !haystack.includes(member.literal)) {
+          continue;
+        }
+        if (member.regex.test(userAgent)) {
+          return member.pattern;
+        }
+      }
+    }
+
+    return null;
+  }
+
+  /**
+   * Patterns that are not valid regular expressions and were skipped
+   * @returns The invalid pattern strings
+   */
+  public getInvalidPatterns(): string[] {
+    return [...this.invalid];
+  }
+
+  /**
+   * Number of compiled patterns
+   */
+  public get size(): number {
+    return this.count;
+  }
+
+  /**
+   * Add a group of consecutive patterns
+   * @param members The group's patterns
+   * @param combine Whether to build a combined alternation
+   */
+  private addGroup(members: CompiledPattern[], combine: boolean = true): void {
+    if (members.length === 0) {
+      return;
+    }
+
+    let regex: RegExp | null = null;
+    if (combine && members.length > 1) {
+      try {
+        regex = new RegExp(members.map(member => `(?:${member.pattern.pattern})`).join('|'), 'i');
+      } catch (error) {
+        regex = null;
+      }
+    }
+
+    const literals = members.every(member => member.literal !== null)
+      ? members.map(member => member.literal as string)
+      : null;
+
+    this.groups.push({ members, regex, literals });
+  }
+}
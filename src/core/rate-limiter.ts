@@ -0,0 +1,107 @@
+import { BotPattern, RateLimit, RateLimitOutcome, RateLimitStore, TokenBucketResult } from '../types';
+import { getPatternRules, validateRule } from './rules';
+
+/**
+ * Default rate limit interval: one minute
+ */
+const DEFAULT_INTERVAL = 60 * 1000;
+
+/**
+ * Check a rate limit for mistakes
+ * @param limit The rate limit
+ * @returns A description of the problem, or null if the limit is valid
+ */
+export function validateRateLimit(limit: RateLimit): string | null {
+  const ruleError = validateRule(limit.rule);
+  if (ruleError) {
+    return ruleError;
+  }
+  if (limit.rule.startsWith('ip:') || limit.rule.startsWith('cidr:')) {
+    return 'rate limits apply to bots, not IP rules';
+  }
+  if (!(limit.limit > 0) || !isFinite(limit.limit)) {
+    return 'limit must be a positive number';
+  }
+  if (limit.interval !== undefined && (!(limit.interval > 0) || !isFinite(limit.interval))) {
+    return 'interval must be a positive number of milliseconds';
+  }
+  if (limit.burst !== undefined && !(limit.burst >= 1)) {
+    return 'burst must be at least 1';
+  }
+  return null;
+}
+
+/**
+ * Applies token-bucket rate limits to detected bots
+ */
+export class RateLimiter {
+  private limits: RateLimit[] = [];
+  private store: RateLimitStore;
+  private invalid: string[] = [];
+
+  /**
+   * Create a new rate limiter
+   * @param limits The rate limits; invalid limits are skipped
+   * @param store Where buckets are kept
+   */
+  constructor(limits: RateLimit[], store: RateLimitStore) {
+    this.store = store;
+
+    for (const limit of limits) {
+      const error = validateRateLimit(limit);
+      if (error) {
+        this.invalid.push(`${limit.rule}: ${error}`);
+      } else {
+        this.limits.push(limit);
+      }
+    }
+  }
+
+  /**
+   * Take a token for a bot request from the first matching limit's bucket
+   * @param pattern The matched bot pattern
+   * @param ip The client IP, used by per-IP limits
+   * @param now The current time in milliseconds
+   * @returns The outcome, a promise of it if the store is asynchronous, or null if no limit applies
+   */
+  public check(pattern: BotPattern, ip: string | undefined, now: number): RateLimitOutcome | Promise<RateLimitOutcome> | null {
+    const rules = getPatternRules(pattern);
+    const limit = this.limits.find(candidate => rules.includes(candidate.rule));
+    if (!limit) {
+      return null;
+    }
+
+    const interval = limit.interval || DEFAULT_INTERVAL;
+    const key = limit.per === 'ip'
+      ? `${limit.rule}\n${pattern.pattern}\n${ip || ''}`
+      : `${limit.rule}\n${pattern.pattern}`;
+
+    const taken = this.store.take(key, {
+      capacity: limit.burst || limit.limit,
+      refillRate: limit.limit / interval
+    }, now);
+
+    const toOutcome = (bucket: TokenBucketResult): RateLimitOutcome => ({
+      rule: limit.rule,
+      throttled: !bucket.allowed,
+      remaining: bucket.remaining,
+      retryAfter: bucket.allowed ? 0 : Math.max(1, Math.ceil(bucket.retryAfter / 1000))
+    });
+    return taken instanceof Promise ? taken.then(toOutcome) : toOutcome(taken);
+  }
+
+  /**
+   * Limits that were skipped because they are invalid
+   * @returns One message per invalid limit
+   */
+  public getInvalidLimits(): string[] {
+    return [...this.invalid];
+  }
+
+  /**
+   * Number of valid limits
+   */
+  public get size(): number {
+    return this.limits.length;
+  }
+}
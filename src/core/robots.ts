@@ -0,0 +1,288 @@
+import { BlockAction, BotPattern, RobotsTxtOptions, RobotsViolation } from '../types';
+import { isEnforcedAction } from './block-response';
+import { RuleSet } from './rules';
+
+/**
+ * The blocking policy that robots.txt is generated from
+ */
+export interface RobotsPolicy {
+  blockRules: RuleSet;
+  allowRules: RuleSet;
+  blockAiModelTrainers: boolean;
+  blockAction: BlockAction;
+  /** Rules are only being trialled, so nothing is disallowed */
+  shadowMode: boolean;
+}
+
+/**
+ * Browser and platform tokens that appear in many user agents. A robots.txt
+ * group for one of these would apply to ordinary browser-like clients.
+ */
+const GENERIC_TOKENS = new Set([
+  'mozilla', 'applewebkit', 'khtml', 'gecko', 'chrome', 'chromium', 'crios', 'safari', 'firefox',
+  'edge', 'edg', 'opera', 'opr', 'version', 'mobile', 'compatible', 'windows', 'macintosh', 'linux',
+  'android', 'iphone', 'ipad'
+]);
+
+/**
+ * A literal token character in a pattern, including escaped dots, underscores and hyphens
+ */
+const TOKEN_CHAR = '(?:[A-Za-z0-9_-]|\\\\[._-])';
+
+/**
+ * Get the product token a bot uses to find its group in robots.txt, from the
+ * literal start of its pattern, e.g. GPTBot for GPTBot\/[0-9]. Patterns that
+ * start with a browser token such as Mozilla fall back to the first other
+ * `Name/` product in the pattern, e.g. GPTBot for Mozilla\/5\.0.*GPTBot\/.
+ * @param pattern The bot pattern
+ * @returns The token, or null if the pattern names no specific product
+ */
+export function getProductToken(pattern: BotPattern): string | null {
+  // Skip anchors and optional prefixes such as (?:compatible; )?
+  const source = pattern.pattern.replace(/^\^/, '').replace(/^(?:\(\?:[^()]*\)\?)+/, '');
+  const leading = new RegExp(`^${TOKEN_CHAR}+`).exec(source);
+  const candidates = leading ? [leading[0]] : [];
+
+  // Only look at literal text: drop words that contain a character class, \d or \w,
+  // and treat other escapes such as \s as separators
+  const literal = source
+    .replace(/(?:\[[^\]]*\]|\\[dw])(?:[A-Za-z0-9_-]|\\[._-])*/g, ' ')
+    .replace(/\\[A-Za-z]/g, ' ');
+  const products = new RegExp(`(?<!${TOKEN_CHAR})(${TOKEN_CHAR}+)\\\\/`, 'g');
+  for (let match = products.exec(literal); match; match = products.exec(literal)) {
+    candidates.push(match[1]);
+  }
+
+  for (const candidate of candidates) {
+    const token = candidate.replace(/\\(.)/g, '$1');
+    if (token.length >= 2 && /[A-Za-z]/.test(token) && !GENERIC_TOKENS.has(token.toLowerCase())) {
+      return token;
+    }
+  }
+  return null;
+}
+
+/**
+ * Convert a path glob to robots.txt paths. robots.txt wildcards cross path
+ * segments, so `*` and `?` widen to `*`.
+ * @param glob The path glob, e.g. /docs/premium/**
+ * @returns The robots.txt paths, e.g. /docs/premium$ and /docs/premium/
+ */
+export function globToRobotsPaths(glob: string): string[] {
+  if (glob.endsWith('/**')) {
+    const directory = glob.slice(0, -3);
+    return [`${toRobotsPath(directory)}$`, `${toRobotsPath(directory)}/`];
+  }
+  const path = toRobotsPath(glob);
+  return [path.endsWith('*') ? path : `${path}$`];
+}
+
+/**
+ * Replace glob wildcards with robots.txt wildcards
+ */
+function toRobotsPath(glob: string): string {
+  return glob.replace(/\*\*|\*|\?/g, '*').replace(/\*+/g, '*');
+}
+
+/**
+ * Get the robots.txt lines for a bot
+ * @param pattern The bot pattern
+ * @param policy The blocking policy
+ * @returns Disallow and Allow lines, empty if the bot may crawl everything
+ */
+function getRobotsLines(pattern: BotPattern, policy: RobotsPolicy): string[] {
+  const { blockRules, allowRules, blockAiModelTrainers, blockAction, shadowMode } = policy;
+  // Shadow mode turns every block into log-only, which robots.txt leaves out
+  if (shadowMode || allowRules.matchPattern(pattern)) {
+    return [];
+  }
+
+  const blocked = !!blockRules.matchPattern(pattern) || (blockAiModelTrainers && !!pattern.isAiModelTrainer);
+  const disallows = blocked && isEnforcedAction(blockAction)
+    ? ['/']
+    : blockRules.matchPaths(pattern)
+      .filter(({ action }) => isEnforcedAction(action || blockAction))
+      .flatMap(({ glob }) => globToRobotsPaths(glob));
+  if (disallows.length === 0) {
+    return [];
+  }
+
+  const allows = allowRules.matchPaths(pattern).flatMap(({ glob }) => globToRobotsPaths(glob));
+  return [
+    ...new Set(disallows.map(path => `Disallow: ${path}`)),
+    ...new Set(allows.map(path => `Allow: ${path}`))
+  ];
+}
+
+/**
+ * Build robots.txt from the bot patterns and blocking policy. Bots with the same
+ * rules share a group. Rules scoped to hosts, content types, schedules or IPs
+ * can't be expressed in robots.txt and are left out.
+ *
+ * A bot with its own group ignores the `*` group, so generated groups repeat the
+ * base `*` rules. Bots the base rules already name get only the generated lines,
+ * which crawlers merge with the site's group for that token.
+ * @param patterns The bot patterns
+ * @param policy The blocking policy
+ * @param options The site's own rules and sitemaps
+ * @returns The robots.txt content
+ */
+export function buildRobotsTxt(patterns: BotPattern[], policy: RobotsPolicy, options: RobotsTxtOptions = {}): string {
+  // Sitemap lines apply to the whole file, so they move to the end
+  const baseLines = (options.baseRules || '').split(/\r?\n/);
+  const sitemaps = baseLines
+    .filter(line => /^\s*sitemap\s*:/i.test(line))
+    .map(line => line.substring(line.indexOf(':') + 1).trim())
+    .concat(options.sitemaps || []);
+  const base = baseLines.filter(line => !/^\s*sitemap\s*:/i.test(line)).join('\n').trim();
+  const baseRobots = new RobotsTxt(base);
+  const wildcardLines = baseRobots.getGroupRules('*') || [];
+
+  // Group tokens by their lines, keeping the order in which they appear
+  const linesByToken = new Map<string, Set<string>>();
+  for (const pattern of patterns) {
+    const token = getProductToken(pattern);
+    const lines = token ? getRobotsLines(pattern, policy) : [];
+    if (!token || lines.length === 0) {
+      continue;
+    }
+    const tokenLines = linesByToken.get(token) || new Set<string>();
+    lines.forEach(line => tokenLines.add(line));
+    linesByToken.set(token, tokenLines);
+  }
+
+  const groups = new Map<string, string[]>();
+  for (const [token, tokenLines] of linesByToken) {
+    // Disallow: / already covers the * rules, and their Allow lines would reopen the site
+    const inherited = (baseRobots.getGroupRules(token) || tokenLines.has('Disallow: /')) ? [] : wildcardLines;
+    const key = [...new Set([...inherited, ...tokenLines])].join('\n');
+    groups.set(key, [...(groups.get(key) || []), token]);
+  }
+
+  const sections: string[] = [];
+  if (base) {
+    sections.push(base);
+  }
+  for (const [lines, tokens] of groups) {
+    sections.push([...tokens.map(token => `User-agent: ${token}`), lines].join('\n'));
+  }
+  if (sitemaps.length > 0) {
+    sections.push([...new Set(sitemaps)].map(url => `Sitemap: ${url}`).join('\n'));
+  }
+  return sections.length > 0 ? `${sections.join('\n\n')}\n` : '';
+}
+
+/**
+ * An Allow or Disallow rule compiled for matching
+ */
+interface RobotsRule {
+  allow: boolean;
+  path: string;
+  regex: RegExp;
+}
+
+/**
+ * A robots.txt group: the user agents it names and their rules
+ */
+interface RobotsGroup {
+  userAgents: string[];
+  rules: RobotsRule[];
+}
+
+/**
+ * Compile a robots.txt path, where `*` matches any characters and a trailing
+ * `$` anchors the end, into a regular expression matching from the start of a path
+ * @param path The robots.txt path
+ * @returns The regular expression
+ */
+export function compileRobotsPath(path: string): RegExp {
+  const anchored = path.endsWith('$');
+  const source = (anchored ? path.slice(0, -1) : path)
+    .replace(/[.+?^${}()|[\]\\]/g, '\\$&')
+    .replace(/\*/g, '.*');
+  return new RegExp(`^${source}${anchored ? '$' : ''}`);
+}
+
+/**
+ * Parses a site's robots.txt and checks request paths against the group for a
+ * bot's product token, following RFC 9309: groups naming the same token are
+ * merged, the `*` group applies when none names it, and the longest matching
+ * rule wins, with Allow winning ties.
+ */
+export class RobotsTxt {
+  private groups: RobotsGroup[] = [];
+
+  /**
+   * Parse robots.txt
+   * @param content The robots.txt content
+   */
+  constructor(content: string) {
+    let group: RobotsGroup | null = null;
+    for (const rawLine of content.split(/\r?\n/)) {
+      const line = rawLine.replace(/#.*$/, '').trim();
+      const separator = line.indexOf(':');
+      if (separator === -1) {
+        continue;
+      }
+      const key = line.substring(0, separator).trim().toLowerCase();
+      const value = line.substring(separator + 1).trim();
+
+      if (key === 'user-agent') {
+        // Consecutive user-agent lines share a group; one after rules starts a new group
+        if (!group || group.rules.length > 0) {
+          group = { userAgents: [], rules: [] };
+          this.groups.push(group);
+        }
+        group.userAgents.push(value.toLowerCase());
+      } else if ((key === 'allow' || key === 'disallow') && group && value) {
+        group.rules.push({ allow: key === 'allow', path: value, regex: compileRobotsPath(value) });
+      }
+    }
+  }
+
+  /**
+   * Get the Allow and Disallow lines of the groups naming a user agent
+   * @param userAgent The user agent, e.g. GPTBot or *
+   * @returns The lines of the merged groups, or null if no group names the user agent
+   */
+  public getGroupRules(userAgent: string): string[] | null {
+    const groups = this.groups.filter(group => group.userAgents.includes(userAgent.toLowerCase()));
+    if (groups.length === 0) {
+      return null;
+    }
+    return groups.flatMap(group => group.rules).map(rule => `${rule.allow ? 'Allow' : 'Disallow'}: ${rule.path}`);
+  }
+
+  /**
+   * Check whether robots.txt disallows a path for a bot
+   * @param token The bot's product token, e.g. GPTBot
+   * @param path The request path
+   * @returns The user agent and Disallow rule that apply, or null if the path is allowed
+   */
+  public check(token: string, path: string): RobotsViolation | null {
+    // robots.txt itself is always allowed
+    if (path === '/robots.txt') {
+      return null;
+    }
+
+    const name = token.toLowerCase();
+    let userAgent = token;
+    let groups = this.groups.filter(group => group.userAgents.includes(name));
+    if (groups.length === 0) {
+      userAgent = '*';
+      groups = this.groups.filter(group => group.userAgents.includes('*'));
+    }
+
+    let match: RobotsRule | null = null;
+    for (const rule of groups.flatMap(group => group.rules)) {
+      if (!rule.regex.test(path)) {
+        continue;
+      }
+      if (!match || rule.path.length > match.path.length || (rule.path.length === match.path.length && rule.allow)) {
+        match = rule;
+      }
+    }
+
+    return match && !match.allow ? { userAgent, rule: `Disallow: ${match.path}` } : null;
+  }
+}
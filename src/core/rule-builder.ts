@@ -0,0 +1,87 @@
+import { BlockingRule } from '../types';
+import { validateRule } from './rules';
+
+/**
+ * Validate a rule string, throwing if it is malformed
+ * @param value The rule string
+ * @returns The rule
+ */
+function build<T extends BlockingRule>(value: T): T {
+  const error = validateRule(value);
+  if (error) {
+    throw new Error(`Invalid rule "${value}": ${error}`);
+  }
+  return value;
+}
+
+/**
+ * Builds validated block and allow rules, so rule strings don't have to be
+ * formatted by hand:
+ *
+ * ```typescript
+ * rule.subcategory('AI Crawler', 'Model Training Crawlers');
+ * // 'subcategory:AI Crawler:Model Training Crawlers'
+ * ```
+ *
+ * Every method throws if the resulting rule is invalid.
+ */
+export const rule = {
+  /**
+   * Match a bot pattern exactly as it appears in the pattern list
+   * @param pattern The pattern's regex source, e.g. GPTBot\/[0-9]
+   */
+  pattern(pattern: string): `pattern:${string}` {
+    return build(`pattern:${pattern}`);
+  },
+
+  /**
+   * Match every bot in a category
+   * @param category The category, e.g. AI Crawler
+   */
+  category(category: string): `category:${string}` {
+    return build(`category:${category}`);
+  },
+
+  /**
+   * Match every bot in a subcategory
+   * @param category The category
+   * @param subcategory The subcategory, e.g. Model Training Crawlers
+   */
+  subcategory(category: string, subcategory: string): `subcategory:${string}:${string}` {
+    return build(`subcategory:${category}:${subcategory}`);
+  },
+
+  /**
+   * Match every bot of a type
+   * @param category The category
+   * @param subcategory The subcategory
+   * @param type The bot type, e.g. gptbot
+   */
+  type(category: string, subcategory: string, type: string): `type:${string}:${string}:${string}` {
+    return build(`type:${category}:${subcategory}:${type}`);
+  },
+
+  /**
+   * Match every bot operated by a company
+   * @param company The company, e.g. OpenAI
+   */
+  company(company: string): `company:${string}` {
+    return build(`company:${company}`);
+  },
+
+  /**
+   * Match a single client IP
+   * @param address An IPv4 or IPv6 address
+   */
+  ip(address: string): `ip:${string}` {
+    return build(`ip:${address}`);
+  },
+
+  /**
+   * Match client IPs in a range
+   * @param block A CIDR block, e.g. 203.0.113.0/24
+   */
+  cidr(block: string): `cidr:${string}` {
+    return build(`cidr:${block}`);
+  }
+};
@@ -0,0 +1,395 @@
+import { BlockAction, BotPattern, DetectionContext, MatchedScope, RuleScope, ScopedRule } from '../types';
+import { CidrSet, ParsedCidr, ipInCidr, parseIp, parseCidr } from '../utils/ip';
+import { Schedule, validateSchedule } from './schedule';
+
+/**
+ * A rule that matched a request, with the scope entries it matched
+ */
+export interface RuleMatch {
+  rule: string;
+  scope?: MatchedScope;
+  action?: BlockAction;
+  redirectTo?: string;
+}
+
+/**
+ * A scoped rule compiled for matching
+ */
+interface CompiledScopedRule {
+  rule: string;
+  /** Range for `ip:` and `cidr:` rules */
+  range: ParsedCidr | null;
+  hosts?: string[];
+  paths?: Array<{ glob: string; regex: RegExp }>;
+  contentTypes?: string[];
+  schedule?: Schedule;
+  action?: BlockAction;
+  redirectTo?: string;
+}
+
+/**
+ * Actions a scoped rule can take
+ */
+const BLOCK_ACTIONS: BlockAction[] = ['block', 'log-only', 'redirect', 'challenge'];
+
+/**
+ * Names that follow the prefix of each named rule kind
+ */
+const RULE_NAMES: Record<string, string[]> = {
+  category: ['category'],
+  subcategory: ['category', 'subcategory'],
+  type: ['category', 'subcategory', 'type'],
+  company: ['company']
+};
+
+/**
+ * Check a rule string for mistakes
+ * @param rule The rule string
+ * @returns A description of the problem, or null if the rule is valid
+ */
+export function validateRule(rule: string): string | null {
+  const separator = rule.indexOf(':');
+  if (separator === -1) {
+    return 'missing rule prefix';
+  }
+
+  const kind = rule.substring(0, separator);
+  const value = rule.substring(separator + 1);
+
+  if (kind === 'pattern') {
+    if (!value) {
+      return 'empty pattern';
+    }
+    try {
+      new RegExp(value, 'i');
+    } catch (error) {
+      return 'pattern is not a valid regular expression';
+    }
+    return null;
+  }
+
+  if (kind === 'ip') {
+    return value.includes('/') || !parseIp(value) ? 'invalid IP address' : null;
+  }
+
+  if (kind === 'cidr') {
+    return !value.includes('/') || !parseCidr(value) ? 'invalid CIDR block' : null;
+  }
+
+  const expected = RULE_NAMES[kind];
+  if (expected === undefined) {
+    return `unknown rule prefix "${kind}"`;
+  }
+
+  // Names can't contain ':' since it separates the category, subcategory and type
+  const names = value.split(':');
+  if (names.length !== expected.length || names.some(name => !name.trim())) {
+    return `expected ${expected.join(':')} after "${kind}:"`;
+  }
+  return null;
+}
+
+/**
+ * Check a rule's scope for mistakes
+ * @param scope The rule scope
+ * @returns A description of the problem, or null if the scope is valid
+ */
+export function validateScope(scope: RuleScope): string | null {
+  for (const key of ['hosts', 'paths', 'contentTypes'] as const) {
+    const entries = scope[key];
+    if (entries !== undefined && (!Array.isArray(entries) || entries.length === 0 || entries.some(entry => typeof entry !== 'string' || !entry))) {
+      return `${key} must be a non-empty list of strings`;
+    }
+  }
+  if (scope.paths && scope.paths.some(path => !path.startsWith('/'))) {
+    return 'paths must start with "/"';
+  }
+  if (scope.schedule !== undefined) {
+    return validateSchedule(scope.schedule);
+  }
+  return null;
+}
+
+/**
+ * Convert a path glob to a regular expression. `*` and `?` match within a path
+ * segment and `**` across segments; a trailing `/**` also matches the directory itself.
+ * @param glob The path glob, e.g. /docs/premium/**
+ * @returns The anchored regular expression
+ */
+export function globToRegExp(glob: string): RegExp {
+  let source = '';
+  for (let i = 0; i < glob.length; i++) {
+    const char = glob[i];
+    if (char === '*' && glob[i + 1] === '*') {
+      i++;
+      if (source.endsWith('/') && i === glob.length - 1) {
+        source = `${source.slice(0, -1)}(?:/.*)?`;
+      } else {
+        source += '.*';
+      }
+    } else if (char === '*') {
+      source += '[^/]*';
+    } else if (char === '?') {
+      source += '[^/]';
+    } else {
+      source += char.replace(/[.+^${}()|[\]\\]/g, '\\$&');
+    }
+  }
+  return new RegExp(`^${source}$`);
+}
+
+/**
+ * Check whether a host matches a host scope entry
+ * @param host The lower-cased request hostname without port
+ * @param entry The scope entry, e.g. example.com or *.example.com
+ */
+function hostMatches(host: string, entry: string): boolean {
+  const expected = entry.toLowerCase();
+  return expected.startsWith('*.') ? host.endsWith(expected.substring(1)) : host === expected;
+}
+
+/**
+ * Check whether a content type matches a content type scope entry
+ * @param contentType The lower-cased media type without parameters
+ * @param entry The scope entry, e.g. image/png or image/*
+ */
+function contentTypeMatches(contentType: string, entry: string): boolean {
+  const expected = entry.toLowerCase();
+  if (expected === '*' || expected === '*/*') {
+    return true;
+  }
+  return expected.endsWith('/*') ? contentType.startsWith(expected.slice(0, -1)) : contentType === expected;
+}
+
+/**
+ * Build the rule strings that match a bot pattern
+ * @param pattern The bot pattern
+ * @returns The pattern, category, subcategory, type and company rules, in the order they are checked
+ */
+export function getPatternRules(pattern: BotPattern): string[] {
+  const category = pattern.category || 'Unknown';
+  const subcategory = pattern.subcategory || 'Unclassified';
+  const type = pattern.type || 'unknown';
+
+  const rules = [
+    `pattern:${pattern.pattern}`,
+    `category:${category}`,
+    `subcategory:${category}:${subcategory}`,
+    `type:${category}:${subcategory}:${type}`
+  ];
+  if (pattern.company) {
+    rules.push(`company:${pattern.company}`);
+  }
+  return rules;
+}
+
+/**
+ * Compiled block or allow rules. Rule strings are indexed in a Set and
+ * `ip:`/`cidr:` rules in a prefix trie, so lookups stay fast for thousands of rules.
+ *
+ * Supported rules:
+ * - `pattern:<regex>`
+ * - `category:<category>`
+ * - `subcategory:<category>:<subcategory>`
+ * - `type:<category>:<subcategory>:<type>`
+ * - `company:<company>`
+ * - `ip:<address>` (IPv4 or IPv6)
+ * - `cidr:<block>` (IPv4 or IPv6)
+ *
+ * Any rule can be scoped to hosts, path globs, content types and schedules. Scoped rules
+ * are checked one by one against the request context, so keep them few.
+ */
+export class RuleSet {
+  private rules: Set<string> = new Set();
+  private ipRules: CidrSet<string> = new CidrSet();
+  private scoped: CompiledScopedRule[] = [];
+  private scheduled: number = 0;
+  private invalid: string[] = [];
+
+  /**
+   * Compile a list of rules
+   * @param rules Rule strings and scoped rules
+   */
+  constructor(rules: Array<string | ScopedRule> = []) {
+    for (const entry of rules) {
+      if (typeof entry !== 'string') {
+        this.addScoped(entry);
+        continue;
+      }
+
+      const rule = entry;
+      this.rules.add(rule);
+      if (validateRule(rule)) {
+        this.invalid.push(rule);
+      } else if (rule.startsWith('ip:')) {
+        // A bare address is added as a single-host block
+        this.ipRules.add(rule.substring(3), rule);
+      } else if (rule.startsWith('cidr:')) {
+        this.ipRules.add(rule.substring(5), rule);
+      }
+    }
+  }
+
+  /**
+   * Find the first rule that matches a bot pattern, checking the pattern itself
+   * before its category, subcategory, type and company
+   * @param pattern The bot pattern
+   * @returns The matching rule, or null
+   */
+  public matchPattern(pattern: BotPattern): string | null {
+    return getPatternRules(pattern).find(rule => this.rules.has(rule)) || null;
+  }
+
+  /**
+   * Find the most specific `ip:` or `cidr:` rule containing an address
+   * @param ip The client IP
+   * @returns The matching rule, or null
+   */
+  public matchIp(ip?: string): string | null {
+    if (!ip || this.ipRules.size === 0) {
+      return null;
+    }
+    const match = this.ipRules.match(ip);
+    return match ? match.value : null;
+  }
+
+  /**
+   * Find the first rule that matches a request. Scoped rules are checked first,
+   * then IP rules, then pattern rules.
+   * @param pattern The matched bot pattern, or null for non-bot traffic
+   * @param context The request context
+   * @param now The current time in milliseconds, for scheduled rules
+   * @returns The matching rule and scope, or null
+   */
+  public match(pattern: BotPattern | null, context: DetectionContext, now: number = Date.now()): RuleMatch | null {
+    const scoped = this.matchScoped(pattern, context, now);
+    if (scoped) {
+      return scoped;
+    }
+
+    const rule = this.matchIp(context.ip) || (pattern && this.matchPattern(pattern));
+    return rule ? { rule } : null;
+  }
+
+  /**
+   * Whether any rules are scoped, so results depend on the request's host, path or content type
+   */
+  public get hasScopedRules(): boolean {
+    return this.scoped.length > 0;
+  }
+
+  /**
+   * Whether any rules have a schedule, so results depend on the time
+   */
+  public get hasScheduledRules(): boolean {
+    return this.scheduled > 0;
+  }
+
+  /**
+   * Rules that could not be parsed, e.g. `ip:` rules with invalid addresses or unknown prefixes
+   * @returns The invalid rule strings
+   */
+  public getInvalidRules(): string[] {
+    return [...this.invalid];
+  }
+
+  /**
+   * Find the path globs of scoped rules that match a bot on paths alone, with no
+   * host, content type or schedule, e.g. to express them in robots.txt
+   * @param pattern The bot pattern
+   * @returns The path globs and the action of the rule they belong to
+   */
+  public matchPaths(pattern: BotPattern): Array<{ glob: string; action?: BlockAction }> {
+    const patternRules = getPatternRules(pattern);
+    const paths: Array<{ glob: string; action?: BlockAction }> = [];
+    for (const scoped of this.scoped) {
+      if (!scoped.paths || scoped.range || scoped.hosts || scoped.contentTypes || scoped.schedule || !patternRules.includes(scoped.rule)) {
+        continue;
+      }
+      paths.push(...scoped.paths.map(({ glob }) => ({ glob, action: scoped.action })));
+    }
+    return paths;
+  }
+
+  /**
+   * Validate and compile a scoped rule
+   * @param scoped The scoped rule
+   */
+  private addScoped(scoped: ScopedRule): void {
+    const { rule, hosts, paths, contentTypes, schedule, action, redirectTo } = scoped;
+    if (typeof rule !== 'string' || validateRule(rule) || validateScope(scoped)
+      || (action !== undefined && !BLOCK_ACTIONS.includes(action))) {
+      this.invalid.push(String(rule));
+      return;
+    }
+
+    let range: ParsedCidr | null = null;
+    if (rule.startsWith('ip:') || rule.startsWith('cidr:')) {
+      range = parseCidr(rule.substring(rule.indexOf(':') + 1));
+    }
+
+    if (schedule) {
+      this.scheduled++;
+    }
+    this.scoped.push({
+      rule,
+      range,
+      hosts,
+      paths: paths && paths.map(glob => ({ glob, regex: globToRegExp(glob) })),
+      contentTypes,
+      schedule: schedule && new Schedule(schedule),
+      action,
+      redirectTo
+    });
+  }
+
+  /**
+   * Find the first scoped rule that matches a request
+   * @param pattern The matched bot pattern, or null for non-bot traffic
+   * @param context The request context
+   * @param now The current time in milliseconds
+   * @returns The matching rule and scope, or null
+   */
+  private matchScoped(pattern: BotPattern | null, context: DetectionContext, now: number): RuleMatch | null {
+    if (this.scoped.length === 0) {
+      return null;
+    }
+
+    const patternRules = pattern ? getPatternRules(pattern) : [];
+    const ip = context.ip ? parseIp(context.ip) : null;
+    const host = context.host ? context.host.toLowerCase().replace(/:\d+$/, '') : undefined;
+    const contentType = context.contentType ? context.contentType.split(';')[0].trim().toLowerCase() : undefined;
+
+    for (const scoped of this.scoped) {
+      const ruleMatches = scoped.range ? !!ip && ipInCidr(ip, scoped.range) : patternRules.includes(scoped.rule);
+      if (!ruleMatches) {
+        continue;
+      }
+
+      // A scope that is set can't match a request that lacks the value
+      const scope: MatchedScope = {};
+      if (scoped.hosts) {
+        scope.host = host && scoped.hosts.find(entry => hostMatches(host, entry));
+        if (!scope.host) continue;
+      }
+      if (scoped.paths) {
+        const path = context.path;
+        scope.path = path ? scoped.paths.find(entry => entry.regex.test(path))?.glob : undefined;
+        if (!scope.path) continue;
+      }
+      if (scoped.contentTypes) {
+        scope.contentType = contentType && scoped.contentTypes.find(entry => contentTypeMatches(contentType, entry));
+        if (!scope.contentType) continue;
+      }
+      if (scoped.schedule) {
+        const window = scoped.schedule.match(now);
+        if (!window) continue;
+        scope.schedule = window;
+      }
+
+      return { rule: scoped.rule, scope, action: scoped.action, redirectTo: scoped.redirectTo };
+    }
+
+    return null;
+  }
+}
@@ -0,0 +1,147 @@
+import { RuleSchedule, ScheduleWindow, Weekday } from '../types';
+
+const WEEKDAYS: Weekday[] = ['sun', 'mon', 'tue', 'wed', 'thu', 'fri', 'sat'];
+
+const MINUTES_PER_DAY = 24 * 60;
+
+/**
+ * A schedule window with times in minutes since midnight
+ */
+interface CompiledWindow {
+  days: Set<number>;
+  start: number;
+  end: number;
+  label: string;
+}
+
+/**
+ * Parse a HH:MM time into minutes since midnight
+ * @param time The time, 00:00 to 24:00
+ * @returns The minutes, or null if invalid
+ */
+function parseTime(time: string): number | null {
+  const match = /^(\d{2}):(\d{2})$/.exec(time);
+  if (!match) {
+    return null;
+  }
+  const minutes = parseInt(match[1], 10) * 60 + parseInt(match[2], 10);
+  return parseInt(match[2], 10) < 60 && minutes <= MINUTES_PER_DAY ? minutes : null;
+}
+
+/**
+ * Check a schedule for mistakes
+ * @param schedule The schedule
+ * @returns A description of the problem, or null if the schedule is valid
+ */
+export function validateSchedule(schedule: RuleSchedule): string | null {
+  if (!schedule || !Array.isArray(schedule.windows) || schedule.windows.length === 0) {
+    return 'schedule needs at least one window';
+  }
+
+  if (schedule.timeZone) {
+    try {
+      new Intl.DateTimeFormat('en-US', { timeZone: schedule.timeZone });
+    } catch (error) {
+      return `unknown time zone "${schedule.timeZone}"`;
+    }
+  }
+
+  for (const window of schedule.windows) {
+    const start = parseTime(window.start);
+    const end = parseTime(window.end);
+    if (start === null || end === null || start === MINUTES_PER_DAY) {
+      return `invalid window times ${window.start}-${window.end}`;
+    }
+    if (start === end) {
+      return `window ${window.start}-${window.end} is empty`;
+    }
+    if (window.days && (window.days.length === 0 || window.days.some(day => !WEEKDAYS.includes(day)))) {
+      return `window days must be a non-empty list of ${WEEKDAYS.join(', ')}`;
+    }
+  }
+  return null;
+}
+
+/**
+ * Checks whether a rule schedule is active at a given time. Each window covers
+ * its start time up to, but not including, its end time in the schedule's time
+ * zone. A window that ends before it starts runs past midnight, into the day
+ * after each of its days.
+ */
+export class Schedule {
+  private windows: CompiledWindow[];
+  private timeZone: string;
+  private formatter: Intl.DateTimeFormat;
+
+  /**
+   * Compile a schedule
+   * @param schedule The schedule; throws if it is invalid
+   */
+  constructor(schedule: RuleSchedule) {
+    const error = validateSchedule(schedule);
+    if (error) {
+      throw new Error(`Invalid schedule: ${error}`);
+    }
+
+    this.timeZone = schedule.timeZone || 'UTC';
+    this.formatter = new Intl.DateTimeFormat('en-US', {
+      timeZone: this.timeZone,
+      weekday: 'short',
+      hour: '2-digit',
+      minute: '2-digit',
+      hourCycle: 'h23'
+    });
+    this.windows = schedule.windows.map(window => this.compileWindow(window));
+  }
+
+  /**
+   * Find the window that is active at a given time
+   * @param now The time in milliseconds since the epoch
+   * @returns A description of the active window, e.g. "mon-fri 08:00-20:00 Europe/Berlin", or null
+   */
+  public match(now: number): string | null {
+    const { day, minutes } = this.getLocalTime(now);
+    const previousDay = (day + 6) % 7;
+
+    for (const window of this.windows) {
+      const active = window.start < window.end
+        ? window.days.has(day) && minutes >= window.start && minutes < window.end
+        : (window.days.has(day) && minutes >= window.start) || (window.days.has(previousDay) && minutes < window.end);
+      if (active) {
+        return window.label;
+      }
+    }
+    return null;
+  }
+
+  /**
+   * Get the weekday and time of day in the schedule's time zone
+   * @param now The time in milliseconds since the epoch
+   * @returns The weekday (0 is Sunday) and minutes since midnight
+   */
+  private getLocalTime(now: number): { day: number; minutes: number } {
+    const parts: Record<string, string> = {};
+    for (const part of this.formatter.formatToParts(new Date(now))) {
+      parts[part.type] = part.value;
+    }
+    return {
+      day: WEEKDAYS.indexOf(parts.weekday.toLowerCase() as Weekday),
+      minutes: parseInt(parts.hour, 10) * 60 + parseInt(parts.minute, 10)
+    };
+  }
+
+  /**
+   * Compile a validated window
+   * @param window The window
+   * @returns The window with parsed days and times
+   */
+  private compileWindow(window: ScheduleWindow): CompiledWindow {
+    const days = window.days || WEEKDAYS;
+    return {
+      days: new Set(days.map(day => WEEKDAYS.indexOf(day))),
+      start: parseTime(window.start) as number,
+      end: parseTime(window.end) as number,
+      label: `${window.days ? days.join(',') : 'daily'} ${window.start}-${window.end} ${this.timeZone}`
+    };
+  }
+}
@@ -6,19 +6,102 @@ import {
   AiReferrerInfo,
   BotInfo,
   CollectorPayload,
-  NextFetchOptions
+  LogRequestInfo,
+  NextFetchOptions,
+  HandleOptions,
+  HandleResult,
+  CollectorQueueStats,
+  CircuitBreakerState,
+  CollectorSink,
+  DetectionContext,
+  VerificationStatus,
+  DatacenterLoadResult,
+  DatacenterPolicy,
+  DetectionCacheStats,
+  PatternSnapshot,
+  PatternSnapshotStore,
+  ScopedRule,
+  BlockAction,
+  BlockResponse,
+  BlockResponseOptions,
+  PlainResponse,
+  RobotsTxtOptions,
+  RobotsCheckConfig,
+  RobotsViolation,
+  LlmsTxtManifest,
+  RobotsDirectiveRule,
+  TdmRepRule,
+  RateLimitOutcome
 } from '../types';
+import { CollectorQueue } from './collector-queue';
+import { CircuitBreaker } from './circuit-breaker';
+import { SpyglassesHttpSink } from '../sinks/http-sink';
+import { BotVerifier } from './bot-verifier';
+import { IpClassifier } from './ip-classifier';
+import { RuleSet } from './rules';
+import { createBlockResponse, shouldReport, toBlockDecision } from './block-response';
+import { RobotsTxt, buildRobotsTxt, getProductToken } from './robots';
+import { LLMS_TXT_PATHS, buildLlmsFullTxt, buildLlmsTxt } from './llms';
+import { TDMREP_PATH, TdmRepPolicy } from './tdmrep';
+import { RateLimiter } from './rate-limiter';
+import { MemoryRateLimitStore } from '../rate-limits';
+import { PatternMatcher } from './matcher';
+import { getEnv, hasEnv } from '../utils/env';
+import { fetchWithTimeout, getBackoffDelay, getJitteredDelay, isRetryableStatus, sleep } from '../utils/http';
+import { getClientIpFromHeaders, headersToRecord } from '../utils/fetch';
+import { getContentTypeFromPath, isSkippedPath } from '../utils/headers';
+import { LruCache } from '../utils/lru-cache';
+
+/**
+ * Config options that have no default value
+ */
+type OptionalConfigKeys = 'cacheTtl' | 'batching' | 'circuitBreaker' | 'sinks' | 'verifyBots' | 'datacenter' | 'snapshotStore' | 'blockAiModelTrainers' | 'customBlocks' | 'customAllows' | 'rateLimits' | 'rateLimitStore' | 'blockResponseOptions' | 'robotsTxt' | 'robotsCheck' | 'llmsTxt' | 'robotsDirectives' | 'tdmRep';
+
+/**
+ * What the custom rules decided for a request
+ */
+type RuleDecision = Pick<DetectionResult, 'shouldBlock' | 'wouldBlock' | 'action' | 'redirectUrl' | 'matchedRule' | 'matchedScope'>;
+
+/**
+ * Request details that handle() detects with
+ */
+type HandleRequest = {
+  url: URL;
+  userAgent: string;
+  referrer: string;
+  context: DetectionContext;
+};
+
+/**
+ * Detection result for a user agent and referrer, before request context is applied
+ */
+interface DetectionCacheEntry {
+  result: DetectionResult;
+  /** The matched bot pattern, used to rebuild the result for a client IP */
+  pattern: BotPattern | null;
+}
 
 /**
  * Default configuration values
  */
-const DEFAULT_CONFIG: Required<SpyglassesConfig> = {
+const DEFAULT_CONFIG: Required<Omit<SpyglassesConfig, OptionalConfigKeys>> = {
   apiKey: '',
   debug: false,
   collectEndpoint: 'https://www.spyglasses.io/api/collect',
   patternsEndpoint: 'https://www.spyglasses.io/api/patterns',
   autoSync: true,
-  platformType: ''
+  platformType: '',
+  requestTimeout: 5000,
+  syncRetries: 0,
+  retryDelay: 500,
+  blockUnverifiedBots: false,
+  detectionCacheSize: 0,
+  refreshInterval: 0,
+  refreshJitter: 0.1,
+  snapshotMaxAge: 7 * 24 * 60 * 60 * 1000,
+  clock: () => Date.now(),
+  blockAction: 'block',
+  shadowMode: false
 };
 
 /**
@@ -31,15 +114,57 @@ export class Spyglasses {
   private patternsEndpoint: string;
   private autoSync: boolean;
   private platformType: string;
-  
+  private cacheTtl?: number;
+  private requestTimeout: number;
+  private syncRetries: number;
+  private retryDelay: number;
+  private collectorQueue: CollectorQueue | null = null;
+  private patternsBreaker: CircuitBreaker;
+  private collectorBreaker: CircuitBreaker;
+  private collectorSink: SpyglassesHttpSink | null = null;
+  private sinks: CollectorSink[];
+  private botVerifier: BotVerifier | null = null;
+  private blockUnverifiedBots: boolean;
+  private ipClassifier: IpClassifier | null = null;
+  private datacenterPolicy: DatacenterPolicy = 'flag';
 
+  // Platform settings from the last sync
   private blockAiModelTrainers: boolean = false;
   private customBlocks: string[] = [];
   private customAllows: string[] = [];
+  // Local settings from config, merged with the platform settings
+  private localBlockAiModelTrainers?: boolean;
+  private localBlocks: Array<string | ScopedRule>;
+  private localAllows: Array<string | ScopedRule>;
+  private clock: () => number;
+  private blockAction: BlockAction;
+  private shadowMode: boolean;
+  private robotsTxtOptions: RobotsTxtOptions | null = null;
+  private robotsTxt: string | null = null;
+  private robotsCheck: RobotsCheckConfig | null = null;
+  private siteRobotsTxt: { content: string; rules: RobotsTxt } | null = null;
+  private llmsFiles: Record<string, string> | null = null;
+  private directiveRules: Array<{ rules: RuleSet; directives: string[] }> = [];
+  private tdmRep: TdmRepPolicy | null = null;
+  private blockResponseOptions: BlockResponseOptions;
+  private rateLimiter: RateLimiter | null = null;
+  private blockRules: RuleSet = new RuleSet();
+  private allowRules: RuleSet = new RuleSet();
   
   private patterns: BotPattern[] = [];
   private aiReferrers: AiReferrerInfo[] = [];
-  private patternRegexCache: Map<string, RegExp> = new Map();
+  private matcher: PatternMatcher | null = null;
+  private detectionCache: LruCache<string, DetectionCacheEntry> | null = null;
+  private refreshInterval: number;
+  private refreshJitter: number;
+  private refreshTimer: ReturnType<typeof setTimeout> | null = null;
+  private disposed: boolean = false;
+  private patternsEtag: string | null = null;
+  private patternsLastModified: string | null = null;
+  private snapshotStore: PatternSnapshotStore | null;
+  private snapshotMaxAge: number;
+  private initialization: Promise<void>;
+  private syncInFlight: Promise<ApiPatternResponse | string> | null = null;
   private lastPatternSync: number = 0;
   private patternVersion: string = '1.0.0';
   
@@ -57,17 +182,165 @@ export class Spyglasses {
     this.patternsEndpoint = fullConfig.patternsEndpoint;
     this.autoSync = fullConfig.autoSync;
     this.platformType = fullConfig.platformType;
+    this.cacheTtl = fullConfig.cacheTtl;
+    this.requestTimeout = fullConfig.requestTimeout;
+    this.syncRetries = fullConfig.syncRetries;
+    this.retryDelay = fullConfig.retryDelay;
+    this.refreshInterval = fullConfig.refreshInterval;
+    this.refreshJitter = fullConfig.refreshJitter;
+    this.snapshotStore = fullConfig.snapshotStore || null;
+    this.snapshotMaxAge = fullConfig.snapshotMaxAge;
+    
+    // One breaker per endpoint so a failing collector doesn't stop pattern sync
+    this.patternsBreaker = new CircuitBreaker(fullConfig.circuitBreaker);
+    this.collectorBreaker = new CircuitBreaker(fullConfig.circuitBreaker);
+    this.collectorSink = this.createCollectorSink();
+    this.sinks = fullConfig.sinks || [];
+    this.blockUnverifiedBots = fullConfig.blockUnverifiedBots;
+    
+    // Local blocking policy applies from the start, before any sync
+    this.localBlockAiModelTrainers = fullConfig.blockAiModelTrainers;
+    this.localBlocks = fullConfig.customBlocks || [];
+    this.localAllows = fullConfig.customAllows || [];
+    this.clock = fullConfig.clock;
+    this.blockAction = fullConfig.blockAction;
+    this.shadowMode = fullConfig.shadowMode;
+    if (fullConfig.robotsTxt) {
+      this.robotsTxtOptions = fullConfig.robotsTxt === true ? {} : fullConfig.robotsTxt;
+    }
+    if (fullConfig.robotsCheck) {
+      this.robotsCheck = fullConfig.robotsCheck === true ? {} : fullConfig.robotsCheck;
+    }
+    if (fullConfig.llmsTxt) {
+      this.setLlmsTxt(fullConfig.llmsTxt);
+    }
+    this.setRobotsDirectives(fullConfig.robotsDirectives || []);
+    if (fullConfig.tdmRep) {
+      this.setTdmRep(fullConfig.tdmRep);
+    }
+    this.blockResponseOptions = fullConfig.blockResponseOptions || {};
+    this.compileRules();
+    
+    // Throttle bots that are let in instead of blocking them outright, if configured
+    if (fullConfig.rateLimits && fullConfig.rateLimits.length > 0) {
+      this.rateLimiter = new RateLimiter(fullConfig.rateLimits, fullConfig.rateLimitStore || new MemoryRateLimitStore());
+      if (this.debug && this.rateLimiter.getInvalidLimits().length > 0) {
+        console.warn('Spyglasses: Ignoring invalid rate limits:', this.rateLimiter.getInvalidLimits());
+      }
+    }
+    
+    // Verify self-declared bots against their operators' DNS and IP ranges if configured
+    if (fullConfig.verifyBots) {
+      this.botVerifier = new BotVerifier(fullConfig.verifyBots === true ? {} : fullConfig.verifyBots);
+    }
+    
+    // Classify client IPs against cloud provider ranges if configured
+    let loadingRanges: Promise<unknown> | null = null;
+    if (fullConfig.datacenter) {
+      this.ipClassifier = new IpClassifier(fullConfig.datacenter);
+      this.datacenterPolicy = fullConfig.datacenter.policy || 'flag';
+      loadingRanges = this.loadDatacenterRanges().catch(() => {});
+    }
+    
+    // Cache detection results for repeated user agents if configured
+    if (fullConfig.detectionCacheSize > 0) {
+      this.detectionCache = new LruCache(fullConfig.detectionCacheSize);
+    }
+    
+    // Buffer collector payloads and send them in batches if configured
+    if (fullConfig.batching) {
+      this.collectorQueue = new CollectorQueue(batch => this.deliverBatch(batch), fullConfig.batching);
+    }
     
-    // Load initial patterns
+    // Load initial patterns, then the last good snapshot over them if there is one
     this.loadDefaultPatterns();
+    const restoring = this.snapshotStore ? this.loadSnapshot() : null;
     
-    // Sync patterns if auto-sync is enabled
+    // Sync patterns if auto-sync is enabled, after the snapshot so it can't overwrite fresher data
+    let syncing: Promise<unknown> | null = null;
     if (this.autoSync && this.apiKey) {
-      this.syncPatterns().catch(error => {
+      const initialSync = () => this.syncPatterns().catch(error => {
         if (this.debug) {
           console.error('Spyglasses: Error syncing patterns', error);
         }
       });
+      syncing = restoring ? restoring.then(initialSync) : initialSync();
+    }
+    
+    // Settles once everything started here has finished, successfully or not
+    this.initialization = Promise.all([loadingRanges, restoring, syncing]).then(() => undefined, () => undefined);
+    
+    // Keep patterns fresh in long-lived processes
+    this.scheduleRefresh();
+  }
+  
+  /**
+   * Schedule the next background pattern sync, replacing any pending one
+   */
+  private scheduleRefresh(): void {
+    if (this.refreshTimer) {
+      clearTimeout(this.refreshTimer);
+      this.refreshTimer = null;
+    }
+    
+    if (this.disposed || !this.autoSync || !this.apiKey || this.refreshInterval <= 0) {
+      return;
+    }
+    
+    const delay = getJitteredDelay(this.refreshInterval, this.refreshJitter);
+    this.refreshTimer = setTimeout(() => {
+      this.refreshTimer = null;
+      this.syncPatterns()
+        .catch(error => {
+          if (this.debug) {
+            console.error('Spyglasses: Error refreshing patterns', error);
+          }
+        })
+        .then(() => this.scheduleRefresh());
+    }, delay);
+    
+    // Don't keep Node.js processes alive just to refresh patterns
+    const timer = this.refreshTimer as { unref?: () => void };
+    if (typeof timer.unref === 'function') {
+      timer.unref();
+    }
+  }
+  
+  /**
+   * Wait until the initial snapshot restore, pattern sync and datacenter range
+   * loading have settled, so early requests aren't judged against default patterns.
+   * Never rejects; a failed sync still counts as settled.
+   * @param timeout Optional maximum wait in milliseconds
+   * @returns True once initialization settled, or false if the timeout elapsed first
+   */
+  public ready(timeout?: number): Promise<boolean> {
+    if (timeout === undefined) {
+      return this.initialization.then(() => true);
+    }
+    
+    return new Promise(resolve => {
+      const timer = setTimeout(() => {
+        if (this.debug) {
+          console.log(`Spyglasses: ready() timed out after ${timeout}ms`);
+        }
+        resolve(false);
+      }, timeout);
+      
+      this.initialization.then(() => {
+        clearTimeout(timer);
+        resolve(true);
+      });
+    });
+  }
+  
+  /**
+   * Stop background pattern refreshes. The instance can still be used for detection.
+   */
+  public dispose(): void {
+    this.disposed = true;
+    if (this.refreshTimer) {
+      clearTimeout(this.refreshTimer);
+      this.refreshTimer = null;
     }
   }
   
@@ -230,7 +503,27 @@ export class Spyglasses {
    * Sync patterns from the API
    * @returns A promise that resolves with the API response or a string error message
    */
-  public async syncPatterns(): Promise<ApiPatternResponse | string> {
+  public syncPatterns(): Promise<ApiPatternResponse | string> {
+    // Collapse concurrent calls into one request
+    if (this.syncInFlight) {
+      if (this.debug) {
+        console.log('Spyglasses: Pattern sync already in progress, joining it');
+      }
+      return this.syncInFlight;
+    }
+    
+    const sync = this.runSync().finally(() => {
+      this.syncInFlight = null;
+    });
+    this.syncInFlight = sync;
+    return sync;
+  }
+  
+  /**
+   * Fetch patterns and property settings from the API and apply them
+   * @returns A promise that resolves with the API response or an error message
+   */
+  private async runSync(): Promise<ApiPatternResponse | string> {
     if (!this.apiKey) {
       const message = 'No API key set for pattern sync';
       if (this.debug) {
@@ -239,20 +532,39 @@ export class Spyglasses {
       return message;
     }
 
+    if (!this.patternsBreaker.canRequest()) {
+      const message = 'Pattern sync skipped: circuit breaker is open';
+      if (this.debug) {
+        console.error(`Spyglasses: ${message}`);
+      }
+      return message;
+    }
+
     try {
+      const headers: Record<string, string> = {
+        'Content-Type': 'application/json',
+        'x-api-key': this.apiKey
+      };
+      
+      // Ask the API to skip the body if nothing changed since the last sync
+      if (this.lastPatternSync > 0) {
+        headers['If-None-Match'] = this.patternsEtag || `"${this.patternVersion}"`;
+        headers['If-Modified-Since'] = this.patternsLastModified || new Date(this.lastPatternSync).toUTCString();
+      }
+      
       const fetchOptions: NextFetchOptions = {
         method: 'GET',
-        headers: {
-          'Content-Type': 'application/json',
-          'x-api-key': this.apiKey
-        }
+        headers
       };
 
-      // Add Next.js caching if we're in a Next.js environment
-      if (typeof process !== 'undefined' && process.env) {
-        const cacheTime = process.env.SPYGLASSES_CACHE_TTL 
-          ? parseInt(process.env.SPYGLASSES_CACHE_TTL, 10)
-          : 60 * 60 * 24; // 24 hours default
+      // Add Next.js caching if a TTL is configured or we're in a Next.js environment
+      if (this.cacheTtl !== undefined || hasEnv()) {
+        const envCacheTtl = getEnv('SPYGLASSES_CACHE_TTL');
+        const cacheTime = this.cacheTtl !== undefined
+          ? this.cacheTtl
+          : envCacheTtl
+            ? parseInt(envCacheTtl, 10)
+            : 60 * 60 * 24; // 24 hours default
 
         fetchOptions.next = {
           revalidate: cacheTime,
@@ -260,9 +572,21 @@ export class Spyglasses {
         };
       }
 
-      const response = await fetch(this.patternsEndpoint, fetchOptions);
+      const { response, data } = await this.fetchPatterns(fetchOptions);
+
+      if (response.status === 304) {
+        this.patternsBreaker.recordSuccess();
+        if (this.debug) {
+          console.log(`Spyglasses: Patterns not modified (version ${this.patternVersion})`);
+        }
+        const current = this.getPatternResponse();
+        // Confirmed fresh, so the persisted snapshot's age starts over
+        await this.saveSnapshot(current, Date.now());
+        return current;
+      }
 
       if (!response.ok) {
+        this.patternsBreaker.recordFailure();
         const message = `Pattern sync HTTP error ${response.status}: ${response.statusText}`;
         if (this.debug) {
           console.error(`Spyglasses: ${message}`);
@@ -270,9 +594,9 @@ export class Spyglasses {
         return message;
       }
 
-      const data = await response.json() as ApiPatternResponse;
+      this.patternsBreaker.recordSuccess();
 
-      if (!data.patterns || !Array.isArray(data.patterns)) {
+      if (!data || !data.patterns || !Array.isArray(data.patterns)) {
         const message = 'Invalid pattern response format';
         if (this.debug) {
           console.error(`Spyglasses: ${message}`);
@@ -280,29 +604,12 @@ export class Spyglasses {
         return message;
       }
 
-      // Update patterns
-      this.patterns = data.patterns;
-      this.aiReferrers = data.aiReferrers || [];
-      this.patternVersion = data.version || '1.0.0';
-      this.lastPatternSync = Date.now();
-      
-      // Update property settings from the API response
-      if (data.propertySettings) {
-        this.blockAiModelTrainers = data.propertySettings.blockAiModelTrainers;
-        this.customBlocks = data.propertySettings.customBlocks;
-        this.customAllows = data.propertySettings.customAllows;
-        
-        if (this.debug) {
-          console.log('Spyglasses: Updated property settings from platform:', {
-            blockAiModelTrainers: this.blockAiModelTrainers,
-            customBlocks: this.customBlocks.length,
-            customAllows: this.customAllows.length
-          });
-        }
-      }
-      
-      // Clear regex cache after updating patterns
-      this.patternRegexCache.clear();
+      // Remember validators for conditional requests; mocked or minimal responses may lack headers
+      this.patternsEtag = response.headers?.get?.('etag') || null;
+      this.patternsLastModified = response.headers?.get?.('last-modified') || null;
+
+      this.applyPatternResponse(data, Date.now());
+      await this.saveSnapshot(data, this.lastPatternSync);
 
       if (this.debug) {
         console.log(`Spyglasses: Synced ${this.patterns.length} patterns and ${this.aiReferrers.length} AI referrers`);
@@ -310,6 +617,7 @@ export class Spyglasses {
 
       return data;
     } catch (error) {
+      this.patternsBreaker.recordFailure();
       const message = `Error syncing patterns: ${error instanceof Error ? error.message : String(error)}`;
       if (this.debug) {
         console.error(`Spyglasses: ${message}`);
@@ -319,259 +627,587 @@ export class Spyglasses {
   }
   
   /**
-   * Get or create a regex for a pattern
-   * @param pattern The pattern string
-   * @returns A RegExp object
+   * Replace patterns, AI referrers and property settings with a pattern response
+   * @param data The pattern response
+   * @param syncedAt When the response was fetched (ms since epoch)
    */
-  private getRegexForPattern(pattern: string): RegExp {
-    // Check cache first
-    if (this.patternRegexCache.has(pattern)) {
-      return this.patternRegexCache.get(pattern)!;
+  private applyPatternResponse(data: ApiPatternResponse, syncedAt: number): void {
+    // Update patterns
+    this.patterns = data.patterns;
+    this.aiReferrers = data.aiReferrers || [];
+    this.patternVersion = data.version || '1.0.0';
+    this.lastPatternSync = syncedAt;
+    
+    // Update property settings from the API response
+    if (data.propertySettings) {
+      this.blockAiModelTrainers = data.propertySettings.blockAiModelTrainers;
+      this.customBlocks = data.propertySettings.customBlocks;
+      this.customAllows = data.propertySettings.customAllows;
+      this.compileRules();
+      
+      if (this.debug) {
+        console.log('Spyglasses: Updated property settings from platform:', {
+          blockAiModelTrainers: this.blockAiModelTrainers,
+          customBlocks: this.customBlocks.length,
+          customAllows: this.customAllows.length
+        });
+      }
     }
     
-    // Create and cache new regex
-    const regex = new RegExp(pattern, 'i');
-    this.patternRegexCache.set(pattern, regex);
-    return regex;
+    // Rebuild the matcher and robots.txt and clear cached results and verification verdicts after updating patterns
+    this.matcher = null;
+    this.robotsTxt = null;
+    if (this.detectionCache) {
+      this.detectionCache.clear();
+    }
+    if (this.botVerifier) {
+      this.botVerifier.clear();
+    }
   }
   
   /**
-   * Check if a pattern should be blocked based on rules
-   * @param patternData The pattern data
-   * @returns Whether the pattern should be blocked
+   * Load the last good pattern response from the snapshot store. Called automatically
+   * on construction; snapshots older than snapshotMaxAge are ignored.
+   * @returns True if a snapshot was applied
    */
-  private shouldBlockPattern(patternData: BotPattern): boolean {
-    // Check if pattern is explicitly allowed
-    if (this.customAllows.includes(`pattern:${patternData.pattern}`)) {
-      return false;
+  public loadSnapshot(): Promise<boolean> {
+    if (!this.snapshotStore) {
+      return Promise.resolve(false);
     }
     
-    const category = patternData.category || 'Unknown';
-    const subcategory = patternData.subcategory || 'Unclassified';
-    const type = patternData.type || 'unknown';
-    
-    // Check if any parent is explicitly allowed
-    if (
-      this.customAllows.includes(`category:${category}`) ||
-      this.customAllows.includes(`subcategory:${category}:${subcategory}`) ||
-      this.customAllows.includes(`type:${category}:${subcategory}:${type}`)
-    ) {
+    const onError = (error: unknown) => {
+      if (this.debug) {
+        console.error('Spyglasses: Error loading pattern snapshot', error);
+      }
       return false;
-    }
-    
-    // Check if pattern is explicitly blocked
-    if (this.customBlocks.includes(`pattern:${patternData.pattern}`)) {
-      return true;
-    }
-    
-    // Check if any parent is explicitly blocked
-    if (
-      this.customBlocks.includes(`category:${category}`) ||
-      this.customBlocks.includes(`subcategory:${category}:${subcategory}`) ||
-      this.customBlocks.includes(`type:${category}:${subcategory}:${type}`)
-    ) {
-      return true;
-    }
+    };
     
-    // Check for AI model trainers global setting
-    if (this.blockAiModelTrainers && patternData.isAiModelTrainer) {
-      return true;
+    try {
+      const loaded = this.snapshotStore.load();
+      // Apply synchronous stores right away so detection can use the snapshot immediately
+      if (loaded && typeof (loaded as Promise<PatternSnapshot | null>).then === 'function') {
+        return Promise.resolve(loaded).then(snapshot => this.applySnapshot(snapshot), onError);
+      }
+      return Promise.resolve(this.applySnapshot(loaded as PatternSnapshot | null));
+    } catch (error) {
+      return Promise.resolve(onError(error));
     }
-    
-    // Default to not blocking
-    return false;
   }
   
   /**
-   * Detect if a user agent string is a bot
-   * @param userAgent The user agent string to check
-   * @returns A DetectionResult object
+   * Apply a snapshot unless it is stale or older than the current patterns
+   * @param snapshot The loaded snapshot
+   * @returns True if the snapshot was applied
    */
-  public detectBot(userAgent: string): DetectionResult {
-    if (!userAgent) {
+  private applySnapshot(snapshot: PatternSnapshot | null): boolean {
+    if (!snapshot || !snapshot.data || !Array.isArray(snapshot.data.patterns)) {
+      return false;
+    }
+    
+    const age = Date.now() - snapshot.savedAt;
+    if (age > this.snapshotMaxAge) {
       if (this.debug) {
-        console.log('Spyglasses: detectBot() called with empty user agent');
+        console.log(`Spyglasses: Ignoring pattern snapshot from ${new Date(snapshot.savedAt).toISOString()} (older than ${this.snapshotMaxAge}ms)`);
       }
-      return {
-        isBot: false,
-        shouldBlock: false,
-        sourceType: 'none'
-      };
+      return false;
     }
     
-    if (this.debug) {
-      console.log(`Spyglasses: detectBot() checking user agent: "${userAgent.substring(0, 150)}${userAgent.length > 150 ? '...' : ''}"`);
-      console.log(`Spyglasses: Testing against ${this.patterns.length} bot patterns`);
+    // A sync that finished first has fresher data
+    if (this.lastPatternSync >= snapshot.savedAt) {
+      return false;
     }
     
-    // Check each pattern
-    for (const pattern of this.patterns) {
-      try {
-        const regex = this.getRegexForPattern(pattern.pattern);
-        
-        if (this.debug) {
-          console.log(`Spyglasses: Testing pattern: "${pattern.pattern}" (${pattern.type || 'unknown'} - ${pattern.company || 'unknown company'})`);
-        }
-        
-        if (regex.test(userAgent)) {
-          const shouldBlock = this.shouldBlockPattern(pattern);
-          
-          if (this.debug) {
-            console.log(`Spyglasses: ✅ BOT DETECTED! Pattern matched: "${pattern.pattern}"`);
-            console.log(`Spyglasses: Bot details:`, {
-              type: pattern.type,
-              category: pattern.category,
-              subcategory: pattern.subcategory,
-              company: pattern.company,
-              isAiModelTrainer: pattern.isAiModelTrainer,
-              shouldBlock
-            });
-          }
-          
-          // Create a BotInfo object
-          const botInfo: BotInfo = {
-            pattern: pattern.pattern,
-            type: pattern.type || 'unknown',
-            category: pattern.category || 'Unknown',
-            subcategory: pattern.subcategory || 'Unclassified',
-            company: pattern.company,
-            isCompliant: !!pattern.isCompliant,
-            isAiModelTrainer: !!pattern.isAiModelTrainer,
-            intent: pattern.intent || 'unknown',
-            url: pattern.url
-          };
-          
-          return {
-            isBot: true,
-            shouldBlock,
-            sourceType: 'bot',
-            matchedPattern: pattern.pattern,
-            info: botInfo
-          };
-        }
-      } catch (error) {
-        if (this.debug) {
-          console.error(`Spyglasses: Error with pattern ${pattern.pattern}:`, error);
-        }
-      }
-    }
+    this.applyPatternResponse(snapshot.data, snapshot.savedAt);
+    this.patternsEtag = snapshot.etag || null;
+    this.patternsLastModified = snapshot.lastModified || null;
     
     if (this.debug) {
-      console.log('Spyglasses: No bot patterns matched user agent');
+      console.log(`Spyglasses: Restored ${this.patterns.length} patterns from snapshot (version ${this.patternVersion})`);
     }
-    
-    return {
-      isBot: false,
-      shouldBlock: false,
-      sourceType: 'none'
-    };
+    return true;
   }
   
   /**
-   * Detect if a referrer URL is from an AI platform
-   * @param referrer The referrer URL to check
-   * @returns A DetectionResult object
+   * Persist a pattern response to the snapshot store. Failures are logged, never thrown.
+   * @param data The pattern response
+   * @param savedAt When the response was fetched or confirmed (ms since epoch)
    */
-  public detectAiReferrer(referrer: string): DetectionResult {
-    if (!referrer) {
-      if (this.debug) {
-        console.log('Spyglasses: detectAiReferrer() called with empty referrer');
-      }
-      return {
-        isBot: false,
-        shouldBlock: false,
-        sourceType: 'none'
-      };
+  private async saveSnapshot(data: ApiPatternResponse, savedAt: number): Promise<void> {
+    if (!this.snapshotStore) {
+      return;
     }
     
-    // Try to parse as URL first for domain matching
-    let hostname = '';
     try {
-      const url = new URL(referrer);
-      hostname = url.hostname.toLowerCase();
-      if (this.debug) {
-        console.log(`Spyglasses: Extracted hostname: "${hostname}"`);
-      }
+      await this.snapshotStore.save({
+        data,
+        savedAt,
+        etag: this.patternsEtag,
+        lastModified: this.patternsLastModified
+      });
     } catch (error) {
-      // If parsing fails, use the raw string
-      hostname = referrer.toLowerCase();
       if (this.debug) {
-        console.log(`Spyglasses: URL parsing failed, using raw referrer: "${hostname}"`);
+        console.error('Spyglasses: Error saving pattern snapshot', error);
       }
     }
-    
-    // Check each AI referrer
-    for (const aiReferrer of this.aiReferrers) {
+  }
+  
+  /**
+   * Build a pattern response from the current state
+   * @returns The patterns, AI referrers and property settings in use
+   */
+  private getPatternResponse(): ApiPatternResponse {
+    return {
+      version: this.patternVersion,
+      patterns: [...this.patterns],
+      aiReferrers: [...this.aiReferrers],
+      propertySettings: {
+        blockAiModelTrainers: this.blockAiModelTrainers,
+        customBlocks: [...this.customBlocks],
+        customAllows: [...this.customAllows]
+      }
+    };
+  }
+  
+  /**
+   * Fetch the patterns endpoint, retrying network errors, timeouts and
+   * retryable HTTP statuses with exponential backoff. The body of a successful
+   * response is read within the request timeout.
+   * @param fetchOptions The fetch options
+   * @returns The final response, and its parsed body if it succeeded
+   */
+  private async fetchPatterns(fetchOptions: NextFetchOptions): Promise<{ response: Response; data?: ApiPatternResponse }> {
+    for (let attempt = 0; ; attempt++) {
       try {
-        if (this.debug) {
-          console.log(`Spyglasses: Testing AI referrer: "${aiReferrer.name}" (${aiReferrer.company}) with patterns: ${aiReferrer.patterns.join(', ')}`);
+        const fetched = await fetchWithTimeout(this.patternsEndpoint, fetchOptions, this.requestTimeout, async response => ({
+          response,
+          data: response.ok ? await response.json() as ApiPatternResponse : undefined
+        }));
+        const { response } = fetched;
+        if (response.ok || !isRetryableStatus(response.status) || attempt >= this.syncRetries) {
+          return fetched;
         }
-        
-        for (const pattern of aiReferrer.patterns) {
-          if (this.debug) {
-            console.log(`Spyglasses: Testing AI referrer pattern: "${pattern}" against hostname: "${hostname}"`);
-          }
-          
-          if (hostname.includes(pattern)) {
-            if (this.debug) {
-              console.log(`Spyglasses: ✅ AI REFERRER DETECTED! Pattern matched: "${pattern}"`);
-              console.log(`Spyglasses: AI referrer details:`, {
-                name: aiReferrer.name,
-                company: aiReferrer.company,
-                id: aiReferrer.id,
-                matchedPattern: pattern
-              });
-            }
-            
-            // AI referrers are never blocked (they are human visitors)
-            return {
-              isBot: false,
-              shouldBlock: false,
-              sourceType: 'ai_referrer',
-              matchedPattern: pattern,
-              info: aiReferrer
-            };
-          }
+        if (this.debug) {
+          console.log(`Spyglasses: Pattern sync got HTTP ${response.status}, retrying (${attempt + 1}/${this.syncRetries})`);
         }
       } catch (error) {
+        if (attempt >= this.syncRetries) {
+          throw error;
+        }
         if (this.debug) {
-          console.error(`Spyglasses: Error with AI referrer ${aiReferrer.name}:`, error);
+          console.log(`Spyglasses: Pattern sync failed, retrying (${attempt + 1}/${this.syncRetries}):`, error);
         }
       }
+      
+      await sleep(getBackoffDelay(attempt, this.retryDelay));
     }
-    
-    return {
-      isBot: false,
-      shouldBlock: false,
-      sourceType: 'none'
-    };
   }
   
   /**
-   * Detect a request for both bot user agent and AI referrer
-   * @param userAgent The user agent string
-   * @param referrer The referrer URL
-   * @returns A DetectionResult object
+   * Get the compiled matcher for the current patterns, building it on first use
+   * @returns The pattern matcher
    */
-  public detect(userAgent: string, referrer?: string): DetectionResult {
-    if (this.debug) {
-      console.log('Spyglasses: detect() called with:', {
-        userAgent: userAgent ? `"${userAgent.substring(0, 100)}${userAgent.length > 100 ? '...' : ''}"` : 'undefined',
-        referrer: referrer || 'undefined'
-      });
-    }
-    
-    // Check for bot first
-    const botResult = this.detectBot(userAgent);
-    if (botResult.isBot) {
+  private getMatcher(): PatternMatcher {
+    if (!this.matcher) {
+      this.matcher = new PatternMatcher(this.patterns);
+      
       if (this.debug) {
-        console.log('Spyglasses: 🤖 Final result: BOT detected, returning bot result');
+        console.log(`Spyglasses: Compiled ${this.matcher.size} bot patterns`);
+        this.matcher.getInvalidPatterns().forEach(pattern => {
+          console.error(`Spyglasses: Skipping invalid pattern ${pattern}`);
+        });
       }
-      return botResult;
     }
-    
-    // Then check for AI referrer if referrer is provided
-    if (referrer) {
+    return this.matcher;
+  }
+  
+  /**
+   * Compile the local and platform block and allow rules for fast lookups
+   */
+  private compileRules(): void {
+    this.blockRules = new RuleSet([...this.localBlocks, ...this.customBlocks]);
+    this.allowRules = new RuleSet([...this.localAllows, ...this.customAllows]);
+    this.robotsTxt = null;
+    
+    if (this.debug) {
+      const invalid = [...this.blockRules.getInvalidRules(), ...this.allowRules.getInvalidRules()];
+      if (invalid.length > 0) {
+        console.warn('Spyglasses: Ignoring invalid rules:', invalid);
+      }
+    }
+  }
+  
+  /**
+   * Evaluate the custom rules for a request. Allow rules always take precedence
+   * over block rules, for IP rules as well as pattern rules, scoped or not, and
+   * whether they come from local config or the platform. A local
+   * blockAiModelTrainers setting overrides the platform's.
+   * @param patternData The matched bot pattern, or null for non-bot traffic
+   * @param context Request context such as the client IP and path
+   * @returns Whether to block and the rule that decided it, if any
+   */
+  private evaluateRules(patternData: BotPattern | null, context: DetectionContext): RuleDecision {
+    const now = this.clock();
+    
+    // Check if the IP or pattern (or any of its parents) is explicitly allowed
+    const allow = this.allowRules.match(patternData, context, now);
+    if (allow) {
+      return { shouldBlock: false, action: 'allow', matchedRule: allow.rule, matchedScope: allow.scope };
+    }
+    
+    // Check if the IP or pattern (or any of its parents) is explicitly blocked
+    const block = this.blockRules.match(patternData, context, now);
+    if (block) {
+      return {
+        ...toBlockDecision(block.action || this.blockAction, this.shadowMode),
+        redirectUrl: block.redirectTo,
+        matchedRule: block.rule,
+        matchedScope: block.scope
+      };
+    }
+    
+    // Check for AI model trainers global setting
+    const blockAiModelTrainers = this.localBlockAiModelTrainers ?? this.blockAiModelTrainers;
+    if (patternData && blockAiModelTrainers && patternData.isAiModelTrainer) {
+      return { ...toBlockDecision(this.blockAction, this.shadowMode), matchedRule: 'blockAiModelTrainers' };
+    }
+    
+    // Default to not blocking
+    return { shouldBlock: false, action: 'allow' };
+  }
+  
+  /**
+   * Apply IP rules to a result that no bot pattern matched
+   * @param result The detection result
+   * @param context Request context with the client IP
+   * @returns The result, blocked or allowed by a matching IP rule
+   */
+  private applyIpRules(result: DetectionResult, context: DetectionContext): DetectionResult {
+    if (!context.ip) {
+      return result;
+    }
+    
+    const decision = this.evaluateRules(null, context);
+    if (!decision.matchedRule) {
+      return result;
+    }
+    
+    if (this.debug) {
+      console.log(`Spyglasses: IP ${context.ip} matched rule "${decision.matchedRule}"`);
+    }
+    return { ...result, ...decision };
+  }
+  
+  /**
+   * Get the verification status of a matched bot for a client IP
+   * @param pattern The matched pattern
+   * @param ip The client IP, if known
+   * @returns The cached verdict, or 'unknown' while verification is pending
+   */
+  private getVerificationStatus(pattern: BotPattern, ip?: string): VerificationStatus {
+    if (!this.botVerifier || !ip || !this.botVerifier.canVerify(pattern)) {
+      return 'unknown';
+    }
+    return this.botVerifier.getStatus(pattern, ip);
+  }
+  
+  /**
+   * Detect if a user agent string is a bot
+   * @param userAgent The user agent string to check
+   * @param context Optional request context such as the client IP
+   * @returns A DetectionResult object
+   */
+  public detectBot(userAgent: string, context: DetectionContext = {}): DetectionResult {
+    const { result, pattern } = this.getBaseDetection(userAgent);
+    
+    if (pattern && this.dependsOnContext(context)) {
+      return this.createBotResult(pattern, context);
+    }
+    return { ...result };
+  }
+  
+  /**
+   * Check whether a bot result depends on the request context, so it has to be
+   * rebuilt instead of taken from the context-free detection
+   * @param context The request context
+   * @returns True if verification, IP rules, scoped or scheduled rules or the robots.txt check apply
+   */
+  private dependsOnContext(context: DetectionContext): boolean {
+    // Scheduled rules depend on the time, so cached results can't be reused
+    if (context.ip || this.blockRules.hasScheduledRules || this.allowRules.hasScheduledRules) {
+      return true;
+    }
+    if (this.robotsCheck && context.path) {
+      return true;
+    }
+    const hasScopedRules = this.blockRules.hasScopedRules || this.allowRules.hasScopedRules;
+    return hasScopedRules && !!(context.host || context.path || context.contentType);
+  }
+  
+  /**
+   * Find the first bot pattern matching a user agent
+   * @param userAgent The user agent string to check
+   * @returns The matching pattern, or null
+   */
+  private matchBotPattern(userAgent: string): BotPattern | null {
+    if (!userAgent) {
+      if (this.debug) {
+        console.log('Spyglasses: detectBot() called with empty user agent');
+      }
+      return null;
+    }
+    
+    if (this.debug) {
+      console.log(`Spyglasses: detectBot() checking user agent: "${userAgent.substring(0, 150)}${userAgent.length > 150 ? '...' : ''}"`);
+      console.log(`Spyglasses: Testing against ${this.patterns.length} bot patterns`);
+    }
+    
+    // Find the first matching pattern with the compiled matcher
+    const pattern = this.getMatcher().match(userAgent);
+    if (!pattern && this.debug) {
+      console.log('Spyglasses: No bot patterns matched user agent');
+    }
+    return pattern;
+  }
+  
+  /**
+   * Build the detection result for a matched bot pattern
+   * @param pattern The matched pattern
+   * @param context Request context such as the client IP
+   * @returns A bot DetectionResult
+   */
+  private createBotResult(pattern: BotPattern, context: DetectionContext): DetectionResult {
+    const verified = this.getVerificationStatus(pattern, context.ip);
+    const { matchedRule, matchedScope, ...ruleDecision } = this.evaluateRules(pattern, context);
+    
+    // Impostors are blocked even if the bot they claim to be is allowed, unless their IP is
+    const isImpostor = verified === false && this.blockUnverifiedBots && !this.allowRules.match(null, context, this.clock());
+    
+    // Bots that ignore robots.txt are blocked on the disallowed paths if configured, unless a rule allows them
+    const robotsViolation = this.checkRobotsTxt(pattern, context.path);
+    const blockedByRobots = !!robotsViolation && !!this.robotsCheck?.block && !(matchedRule && ruleDecision.action === 'allow');
+    
+    const overridden = (isImpostor || blockedByRobots) && !ruleDecision.shouldBlock;
+    const decision = overridden ? toBlockDecision(this.blockAction, this.shadowMode) : ruleDecision;
+    const decidingRule = overridden ? (isImpostor ? 'unverified' : 'robots') : matchedRule;
+    const decidingScope = overridden ? undefined : matchedScope;
+    
+    if (this.debug) {
+      console.log(`Spyglasses: ✅ BOT DETECTED! Pattern matched: "${pattern.pattern}"`);
+      console.log(`Spyglasses: Bot details:`, {
+        type: pattern.type,
+        category: pattern.category,
+        subcategory: pattern.subcategory,
+        company: pattern.company,
+        isAiModelTrainer: pattern.isAiModelTrainer,
+        verified,
+        matchedRule: decidingRule,
+        matchedScope: decidingScope,
+        robotsViolation,
+        action: decision.action
+      });
+    }
+    
+    // Create a BotInfo object
+    const botInfo: BotInfo = {
+      pattern: pattern.pattern,
+      type: pattern.type || 'unknown',
+      category: pattern.category || 'Unknown',
+      subcategory: pattern.subcategory || 'Unclassified',
+      company: pattern.company,
+      isCompliant: !!pattern.isCompliant,
+      isAiModelTrainer: !!pattern.isAiModelTrainer,
+      intent: pattern.intent || 'unknown',
+      url: pattern.url,
+      verified
+    };
+    
+    return {
+      isBot: true,
+      ...decision,
+      sourceType: 'bot',
+      matchedPattern: pattern.pattern,
+      info: botInfo,
+      matchedRule: decidingRule,
+      matchedScope: decidingScope,
+      robotsViolation: robotsViolation || undefined
+    };
+  }
+  
+  /**
+   * Check a bot's request path against the site's robots.txt
+   * @param pattern The matched bot pattern
+   * @param path The request path
+   * @returns The rule the request broke, or null if robots.txt allows it or isn't checked
+   */
+  private checkRobotsTxt(pattern: BotPattern, path?: string): RobotsViolation | null {
+    if (!this.robotsCheck || !path) {
+      return null;
+    }
+    
+    const token = getProductToken(pattern);
+    if (!token) {
+      return null;
+    }
+    
+    // Parse again only when the content changes, e.g. when the generated robots.txt is rebuilt
+    const content = this.robotsCheck.content ?? this.generateRobotsTxt();
+    if (!this.siteRobotsTxt || this.siteRobotsTxt.content !== content) {
+      this.siteRobotsTxt = { content, rules: new RobotsTxt(content) };
+    }
+    return this.siteRobotsTxt.rules.check(token, path);
+  }
+  
+  /**
+   * Detect if a referrer URL is from an AI platform
+   * @param referrer The referrer URL to check
+   * @returns A DetectionResult object
+   */
+  public detectAiReferrer(referrer: string): DetectionResult {
+    if (!referrer) {
+      if (this.debug) {
+        console.log('Spyglasses: detectAiReferrer() called with empty referrer');
+      }
+      return {
+        isBot: false,
+        shouldBlock: false,
+        action: 'allow',
+        sourceType: 'none'
+      };
+    }
+    
+    // Try to parse as URL first for domain matching
+    let hostname = '';
+    try {
+      const url = new URL(referrer);
+      hostname = url.hostname.toLowerCase();
+      if (this.debug) {
+        console.log(`Spyglasses: Extracted hostname: "${hostname}"`);
+      }
+    } catch (error) {
+      // If parsing fails, use the raw string
+      hostname = referrer.toLowerCase();
+      if (this.debug) {
+        console.log(`Spyglasses: URL parsing failed, using raw referrer: "${hostname}"`);
+      }
+    }
+    
+    // Check each AI referrer
+    for (const aiReferrer of this.aiReferrers) {
+      try {
+        if (this.debug) {
+          console.log(`Spyglasses: Testing AI referrer: "${aiReferrer.name}" (${aiReferrer.company}) with patterns: ${aiReferrer.patterns.join(', ')}`);
+        }
+        
+        for (const pattern of aiReferrer.patterns) {
+          if (this.debug) {
+            console.log(`Spyglasses: Testing AI referrer pattern: "${pattern}" against hostname: "${hostname}"`);
+          }
+          
+          if (hostname.includes(pattern)) {
+            if (this.debug) {
+              console.log(`Spyglasses: ✅ AI REFERRER DETECTED! Pattern matched: "${pattern}"`);
+              console.log(`Spyglasses: AI referrer details:`, {
+                name: aiReferrer.name,
+                company: aiReferrer.company,
+                id: aiReferrer.id,
+                matchedPattern: pattern
+              });
+            }
+            
+            // AI referrers are never blocked (they are human visitors)
+            return {
+              isBot: false,
+              shouldBlock: false,
+              action: 'allow',
+              sourceType: 'ai_referrer',
+              matchedPattern: pattern,
+              info: aiReferrer
+            };
+          }
+        }
+      } catch (error) {
+        if (this.debug) {
+          console.error(`Spyglasses: Error with AI referrer ${aiReferrer.name}:`, error);
+        }
+      }
+    }
+    
+    return {
+      isBot: false,
+      shouldBlock: false,
+      action: 'allow',
+      sourceType: 'none'
+    };
+  }
+  
+  /**
+   * Detect a request for both bot user agent and AI referrer
+   * @param userAgent The user agent string
+   * @param referrer The referrer URL
+   * @param context Optional request context such as the client IP
+   * @returns A DetectionResult object
+   */
+  public detect(userAgent: string, referrer?: string, context: DetectionContext = {}): DetectionResult {
+    if (this.debug) {
+      console.log('Spyglasses: detect() called with:', {
+        userAgent: userAgent ? `"${userAgent.substring(0, 100)}${userAgent.length > 100 ? '...' : ''}"` : 'undefined',
+        referrer: referrer || 'undefined'
+      });
+    }
+    
+    const { result, pattern } = this.getBaseDetection(userAgent, referrer);
+    
+    if (pattern) {
+      const botResult = this.dependsOnContext(context) ? this.createBotResult(pattern, context) : { ...result };
+      return this.classifyIp(botResult, context);
+    }
+    
+    return this.applyIpRules(this.classifyIp({ ...result }, context), context);
+  }
+  
+  /**
+   * Get the detection result for a user agent and referrer without request
+   * context, from the detection cache when enabled
+   * @param userAgent The user agent string
+   * @param referrer The referrer URL
+   * @returns The cached or fresh result and the matched bot pattern
+   */
+  private getBaseDetection(userAgent: string, referrer?: string): DetectionCacheEntry {
+    const key = `${userAgent || ''}\n${referrer || ''}`;
+    
+    const cached = this.detectionCache ? this.detectionCache.get(key) : undefined;
+    if (cached) {
+      if (this.debug) {
+        console.log(`Spyglasses: Detection cache hit, sourceType: ${cached.result.sourceType}`);
+      }
+      return cached;
+    }
+    
+    const entry = this.runDetection(userAgent, referrer);
+    if (this.detectionCache) {
+      this.detectionCache.set(key, entry);
+    }
+    return entry;
+  }
+  
+  /**
+   * Run bot and AI referrer detection without request context
+   * @param userAgent The user agent string
+   * @param referrer The referrer URL
+   * @returns The result and the matched bot pattern
+   */
+  private runDetection(userAgent: string, referrer?: string): DetectionCacheEntry {
+    // Check for bot first
+    const pattern = this.matchBotPattern(userAgent);
+    if (pattern) {
+      if (this.debug) {
+        console.log('Spyglasses: 🤖 Final result: BOT detected, returning bot result');
+      }
+      return { result: this.createBotResult(pattern, {}), pattern };
+    }
+    
+    // Then check for AI referrer if referrer is provided
+    if (referrer) {
       if (this.debug) {
         console.log('Spyglasses: No bot detected, starting AI referrer detection...');
       }
@@ -580,20 +1216,443 @@ export class Spyglasses {
         if (this.debug) {
           console.log('Spyglasses: 🧠 Final result: AI REFERRER detected, returning referrer result');
         }
-        return referrerResult;
+        return { result: referrerResult, pattern: null };
       }
     } else if (this.debug) {
       console.log('Spyglasses: No referrer provided, skipping AI referrer detection');
     }
     
     // Return negative result if neither
+    return {
+      result: {
+        isBot: false,
+        shouldBlock: false,
+        action: 'allow',
+        sourceType: 'none'
+      },
+      pattern: null
+    };
+  }
+  
+  /**
+   * Annotate a detection result with the client IP's cloud provider and apply
+   * the datacenter policy to traffic that no bot pattern or AI referrer matched
+   * @param result The detection result
+   * @param context Request context with the client IP
+   * @returns The annotated result
+   */
+  private classifyIp(result: DetectionResult, context: DetectionContext): DetectionResult {
+    const datacenter = this.ipClassifier ? this.ipClassifier.classify(context.ip) : null;
+    if (!datacenter) {
+      return result;
+    }
+    
+    if (this.debug) {
+      console.log(`Spyglasses: Client IP ${context.ip} is in ${datacenter.provider} range ${datacenter.range}`);
+    }
+    
+    // Bots and AI referrers keep their own classification; datacenter hosting is expected for crawlers
+    if (result.sourceType !== 'none' || this.datacenterPolicy === 'allow') {
+      return { ...result, datacenter };
+    }
+    
     return {
       isBot: false,
-      shouldBlock: false,
-      sourceType: 'none'
+      ...(this.datacenterPolicy === 'block'
+        ? { ...toBlockDecision(this.blockAction, this.shadowMode), matchedRule: 'datacenter' }
+        : { shouldBlock: false, action: 'allow' }),
+      sourceType: 'datacenter',
+      datacenter
+    };
+  }
+  
+  /**
+   * Load the configured datacenter range files. Called automatically on construction;
+   * await it to make sure classification is ready before serving traffic.
+   * @returns The number of ranges loaded and any per-file errors
+   */
+  public async loadDatacenterRanges(): Promise<DatacenterLoadResult> {
+    if (!this.ipClassifier) {
+      return { loaded: 0, errors: [] };
+    }
+    
+    const result = await this.ipClassifier.load();
+    if (this.debug) {
+      console.log(`Spyglasses: Loaded ${this.ipClassifier.size} datacenter ranges`);
+      result.errors.forEach(error => console.error(`Spyglasses: Error loading datacenter ranges from ${error}`));
+    }
+    return result;
+  }
+  
+  /**
+   * Take a rate limit token for a detected bot from the rate limit store
+   * @param result The detection result
+   * @param context Request context; per-IP limits need the client IP
+   * @returns The outcome, a promise of it for asynchronous stores, or null if no limit applies
+   */
+  private takeRateLimit(result: DetectionResult, context: DetectionContext): RateLimitOutcome | Promise<RateLimitOutcome> | null {
+    if (!this.rateLimiter || result.sourceType !== 'bot' || result.shouldBlock || !result.info) {
+      return null;
+    }
+    
+    const pattern = { ...(result.info as BotInfo), pattern: result.matchedPattern || '' };
+    return this.rateLimiter.check(pattern, context.ip, this.clock());
+  }
+  
+  /**
+   * Take a rate limit token for a detected bot. Call it once per request after
+   * detect(); handle() does this for you. Blocked requests and traffic that
+   * isn't a bot are never rate limited. Needs a synchronous rateLimitStore:
+   * an asynchronous store can't answer in time, so the request goes through
+   * unthrottled. Use applyRateLimitAsync() with those.
+   * @param result The detection result
+   * @param context Request context; per-IP limits need the client IP
+   * @returns The result with the rate limit outcome, if a limit applies
+   */
+  public applyRateLimit(result: DetectionResult, context: DetectionContext = {}): DetectionResult {
+    const rateLimit = this.takeRateLimit(result, context);
+    if (rateLimit instanceof Promise) {
+      rateLimit.catch(() => {});
+      if (this.debug) {
+        console.warn('Spyglasses: The rate limit store is asynchronous; use handleAsync() or applyRateLimitAsync() to enforce its limits');
+      }
+      return result;
+    }
+    return this.withRateLimit(result, rateLimit);
+  }
+  
+  /**
+   * Take a rate limit token for a detected bot, waiting for asynchronous
+   * stores such as Redis. The Express middleware and the Fastify plugin use
+   * this. If the store fails, the request goes through unthrottled.
+   * @param result The detection result
+   * @param context Request context; per-IP limits need the client IP
+   * @returns A promise that resolves with the result and its rate limit outcome, if a limit applies
+   */
+  public async applyRateLimitAsync(result: DetectionResult, context: DetectionContext = {}): Promise<DetectionResult> {
+    try {
+      return this.withRateLimit(result, await this.takeRateLimit(result, context));
+    } catch (error) {
+      if (this.debug) {
+        console.error('Spyglasses: Rate limit store failed, letting the request through:', error);
+      }
+      return result;
+    }
+  }
+  
+  /**
+   * Add a rate limit outcome to a detection result
+   * @param result The detection result
+   * @param rateLimit The outcome, or null if no limit applies
+   * @returns The result, throttled if the bucket was empty
+   */
+  private withRateLimit(result: DetectionResult, rateLimit: RateLimitOutcome | null): DetectionResult {
+    if (!rateLimit) {
+      return result;
+    }
+    
+    if (this.debug && rateLimit.throttled) {
+      console.log(`Spyglasses: Throttling ${result.matchedPattern} under "${rateLimit.rule}", retry after ${rateLimit.retryAfter}s`);
+    }
+    return { ...result, rateLimit, action: rateLimit.throttled ? 'throttle' : result.action };
+  }
+  
+  /**
+   * Build the response for a blocked, redirected, challenged or throttled request
+   * with the configured blockResponseOptions, for frameworks without an integration
+   * @param result The detection result
+   * @returns The status, headers and body to send, or null to let the request through
+   */
+  public createBlockResponse(result: DetectionResult): BlockResponse | null {
+    return createBlockResponse(result, this.blockResponseOptions);
+  }
+  
+  /**
+   * Compile the X-Robots-Tag directive rules
+   * @param entries The directive rules; invalid ones are skipped
+   */
+  private setRobotsDirectives(entries: RobotsDirectiveRule[]): void {
+    this.directiveRules = [];
+    for (const { directives, ...scoped } of entries) {
+      const rules = new RuleSet([scoped]);
+      if (rules.getInvalidRules().length > 0 || !Array.isArray(directives) || directives.length === 0) {
+        if (this.debug) {
+          console.warn(`Spyglasses: Ignoring invalid robots directive rule "${scoped.rule}"`);
+        }
+        continue;
+      }
+      this.directiveRules.push({ rules, directives });
+    }
+  }
+  
+  /**
+   * Get the X-Robots-Tag directives for a request from every matching directive rule
+   * @param result The detection result
+   * @param context Request context such as the path and content type
+   * @returns The directives, without duplicates; none for blocked requests
+   */
+  private getRobotsDirectives(result: DetectionResult, context: DetectionContext): string[] {
+    if (this.directiveRules.length === 0 || result.shouldBlock) {
+      return [];
+    }
+    
+    const pattern = result.sourceType === 'bot' && result.info
+      ? { ...(result.info as BotInfo), pattern: result.matchedPattern || '' }
+      : null;
+    const now = this.clock();
+    const directives = new Set<string>();
+    for (const { rules, directives: ruleDirectives } of this.directiveRules) {
+      if (rules.match(pattern, context, now)) {
+        ruleDirectives.forEach(directive => directives.add(directive));
+      }
+    }
+    return [...directives];
+  }
+  
+  /**
+   * Compile the TDMRep policy
+   * @param rules The TDMRep rules; invalid ones are skipped
+   */
+  private setTdmRep(rules: TdmRepRule[]): void {
+    const policy = new TdmRepPolicy(rules);
+    if (this.debug) {
+      policy.getInvalidRules().forEach(message => console.warn(`Spyglasses: Ignoring invalid TDMRep rule ${message}`));
+    }
+    this.tdmRep = rules.length > 0 ? policy : null;
+  }
+  
+  /**
+   * Get the headers to add to the response for a request that goes through:
+   * X-Robots-Tag directives for matching bots, and the tdm-reservation and
+   * tdm-policy headers for paths in the TDMRep policy. handle() and the
+   * integrations add them for you.
+   * @param result The detection result
+   * @param context Request context such as the path and content type, for scoped directive rules and TDMRep
+   * @returns The headers, empty if none apply
+   */
+  public getResponseHeaders(result: DetectionResult, context: DetectionContext = {}): Record<string, string> {
+    const directives = this.getRobotsDirectives(result, context);
+    const headers: Record<string, string> = directives.length > 0 ? { 'X-Robots-Tag': directives.join(', ') } : {};
+    if (this.tdmRep && context.path && !result.shouldBlock) {
+      Object.assign(headers, this.tdmRep.getHeaders(context.path));
+    }
+    return headers;
+  }
+  
+  /**
+   * Generate robots.txt from the current bot patterns and the merged local and
+   * platform blocking rules. Each blocked bot gets a group under its product token.
+   * @param options The site's own rules and sitemaps; defaults to the robotsTxt config
+   * @returns The robots.txt content
+   */
+  public generateRobotsTxt(options?: RobotsTxtOptions): string {
+    const policy = {
+      blockRules: this.blockRules,
+      allowRules: this.allowRules,
+      blockAiModelTrainers: !!(this.localBlockAiModelTrainers ?? this.blockAiModelTrainers),
+      blockAction: this.blockAction,
+      shadowMode: this.shadowMode
+    };
+    if (options) {
+      return buildRobotsTxt(this.patterns, policy, options);
+    }
+    
+    // The configured robots.txt is served on every request for it, so keep it until the rules or patterns change
+    if (this.robotsTxt === null) {
+      this.robotsTxt = buildRobotsTxt(this.patterns, policy, this.robotsTxtOptions || {});
+    }
+    return this.robotsTxt;
+  }
+  
+  /**
+   * Build the llms.txt files to serve from a manifest
+   * @param manifest The site manifest
+   */
+  private setLlmsTxt(manifest: LlmsTxtManifest): void {
+    this.llmsFiles = manifest
+      ? { '/llms.txt': buildLlmsTxt(manifest), '/llms-full.txt': buildLlmsFullTxt(manifest) }
+      : null;
+  }
+  
+  /**
+   * Get the response for a file the SDK serves: the generated robots.txt,
+   * /.well-known/tdmrep.json and llms.txt files. handle() and the integrations
+   * answer these requests before they reach the app. robots.txt and tdmrep.json
+   * are served to everyone; llms.txt files are
+   * withheld from blocked requests, since llms-full.txt carries the site's content.
+   * @param path The request path
+   * @param method The request method; only GET and HEAD are answered
+   * @param result The detection result for the request, if detected
+   * @returns The response, or null if the SDK doesn't serve the path
+   */
+  public getFileResponse(path: string, method: string = 'GET', result?: DetectionResult): PlainResponse | null {
+    if (method !== 'GET' && method !== 'HEAD') {
+      return null;
+    }
+    
+    if (path === '/robots.txt' && this.robotsTxtOptions) {
+      return {
+        status: 200,
+        headers: { 'Content-Type': 'text/plain; charset=utf-8', 'Cache-Control': 'public, max-age=300' },
+        body: this.generateRobotsTxt()
+      };
+    }
+    if (path === TDMREP_PATH && this.tdmRep) {
+      return {
+        status: 200,
+        headers: { 'Content-Type': 'application/json', 'Cache-Control': 'public, max-age=300' },
+        body: this.tdmRep.toJson()
+      };
+    }
+    if (this.llmsFiles && LLMS_TXT_PATHS.includes(path) && !result?.shouldBlock) {
+      return {
+        status: 200,
+        headers: { 'Content-Type': 'text/markdown; charset=utf-8', 'Cache-Control': 'public, max-age=300' },
+        body: this.llmsFiles[path]
+      };
+    }
+    return null;
+  }
+  
+  /**
+   * Detect a request, waiting for bot verification to finish instead of
+   * reporting 'unknown' while DNS lookups are pending
+   * @param userAgent The user agent string
+   * @param referrer The referrer URL
+   * @param context Request context; verification needs the client IP
+   * @returns A promise that resolves with the DetectionResult
+   */
+  public async detectVerified(userAgent: string, referrer?: string, context: DetectionContext = {}): Promise<DetectionResult> {
+    const result = this.detect(userAgent, referrer, context);
+    
+    if (!this.botVerifier || !context.ip || result.sourceType !== 'bot') {
+      return result;
+    }
+    
+    const pattern = this.patterns.find(p => p.pattern === result.matchedPattern);
+    if (!pattern || !this.botVerifier.canVerify(pattern)) {
+      return result;
+    }
+    
+    await this.botVerifier.verify(pattern, context.ip);
+    return this.detect(userAgent, referrer, context);
+  }
+  
+  /**
+   * Handle a Fetch-API request: detect, build a block response if needed and
+   * prepare the collector log. Safe to use in edge runtimes. Needs a
+   * synchronous rateLimitStore; use handleAsync() with asynchronous ones.
+   * @param request The incoming web-standard Request
+   * @param options Handler options
+   * @returns The block response (or null to continue) and the logging promise
+   */
+  public handle(request: Request, options: HandleOptions = {}): HandleResult {
+    const prepared = this.prepareHandle(request, options);
+    if ('response' in prepared) {
+      return prepared;
+    }
+    const { userAgent, referrer, context } = prepared;
+    return this.completeHandle(request, options, prepared, this.applyRateLimit(this.detect(userAgent, referrer, context), context));
+  }
+  
+  /**
+   * Handle a Fetch-API request like handle(), waiting for an asynchronous
+   * rateLimitStore such as Redis or a Durable Object
+   * @param request The incoming web-standard Request
+   * @param options Handler options
+   * @returns A promise that resolves with the block response (or null to continue) and the logging promise
+   */
+  public async handleAsync(request: Request, options: HandleOptions = {}): Promise<HandleResult> {
+    const prepared = this.prepareHandle(request, options);
+    if ('response' in prepared) {
+      return prepared;
+    }
+    const { userAgent, referrer, context } = prepared;
+    return this.completeHandle(request, options, prepared, await this.applyRateLimitAsync(this.detect(userAgent, referrer, context), context));
+  }
+  
+  /**
+   * Read the request details handle() detects with, or answer skipped paths
+   * @param request The incoming web-standard Request
+   * @param options Handler options
+   * @returns The request details, or the result for a skipped path
+   */
+  private prepareHandle(request: Request, options: HandleOptions): HandleRequest | HandleResult {
+    const url = new URL(request.url);
+    
+    if (options.skipPaths && isSkippedPath(url.pathname, options.skipPaths)) {
+      const file = this.getFileResponse(url.pathname, request.method);
+      return {
+        response: file && new Response(file.body, { status: file.status, headers: file.headers }),
+        result: { isBot: false, shouldBlock: false, action: 'allow', sourceType: 'none' },
+        headers: {},
+        logging: Promise.resolve()
+      };
+    }
+    
+    const ip = options.ip || (options.trustProxy ? getClientIpFromHeaders(request.headers, options.trustProxy) : undefined);
+    return {
+      url,
+      userAgent: request.headers.get('user-agent') || '',
+      referrer: request.headers.get('referer') || request.headers.get('referrer') || '',
+      context: {
+        ip,
+        host: url.hostname,
+        path: url.pathname,
+        contentType: getContentTypeFromPath(url.pathname)
+      }
     };
   }
   
+  /**
+   * Build handle()'s response and start logging once the request is detected
+   * @param request The incoming web-standard Request
+   * @param options Handler options
+   * @param prepared The request details
+   * @param result The detection result, rate limits applied
+   * @returns The block response (or null to continue) and the logging promise
+   */
+  private completeHandle(request: Request, options: HandleOptions, prepared: HandleRequest, result: DetectionResult): HandleResult {
+    const { url, userAgent, referrer, context } = prepared;
+    const { ip } = context;
+    
+    // Files the SDK serves, such as robots.txt, take the place of the app's response
+    const file = this.getFileResponse(url.pathname, request.method, result);
+    let response: Response | null = null;
+    if (file) {
+      response = new Response(file.body, { status: file.status, headers: { ...file.headers, ...this.getResponseHeaders(result, context) } });
+    } else if (result.shouldBlock && options.blockResponse) {
+      response = options.blockResponse(result);
+    } else if (result.action === 'throttle' && options.throttleResponse) {
+      response = options.throttleResponse(result);
+    } else {
+      const blockResponse = this.createBlockResponse(result);
+      if (blockResponse) {
+        response = new Response(blockResponse.body, { status: blockResponse.status, headers: blockResponse.headers });
+      }
+    }
+    
+    const logging = !shouldReport(result)
+      ? Promise.resolve()
+      : this.logRequest(result, {
+        url: request.url,
+        method: request.method,
+        path: url.pathname,
+        query: url.search ? url.search.substring(1) : undefined,
+        userAgent,
+        referrer: referrer || undefined,
+        ip,
+        headers: headersToRecord(request.headers),
+        responseStatus: response ? response.status : undefined
+      }).then(() => undefined, () => undefined);
+    
+    if (options.waitUntil) {
+      options.waitUntil(logging);
+    }
+    
+    return { response, result, headers: response ? {} : this.getResponseHeaders(result, context), logging };
+  }
+  
   /**
    * Log a request to the Spyglasses collector
    * @param detectionResult The detection result
@@ -602,27 +1661,17 @@ export class Spyglasses {
    */
   public async logRequest(
     detectionResult: DetectionResult, 
-    requestInfo: {
-      url: string;
-      method: string;
-      path: string;
-      query?: string;
-      userAgent: string;
-      referrer?: string;
-      ip?: string;
-      headers: Record<string, string>;
-      responseStatus?: number;
-      responseTime?: number;
-    }
+    requestInfo: LogRequestInfo
   ): Promise<Response | void> {
     if (this.debug) {
       console.log(`Spyglasses: logRequest() called for sourceType: ${detectionResult.sourceType}`);
     }
     
-    if (!this.apiKey || detectionResult.sourceType === 'none') {
+    // Unclassified traffic is only logged when a rule acted on it
+    if ((!this.apiKey && this.sinks.length === 0) || !shouldReport(detectionResult)) {
       if (this.debug) {
-        if (!this.apiKey) {
-          console.log('Spyglasses: logRequest() skipped - no API key');
+        if (!this.apiKey && this.sinks.length === 0) {
+          console.log('Spyglasses: logRequest() skipped - no API key or sinks');
         } else {
           console.log('Spyglasses: logRequest() skipped - sourceType is none');
         }
@@ -640,7 +1689,9 @@ export class Spyglasses {
     
     // Prepare metadata
     const metadata: CollectorPayload['metadata'] = {
-      was_blocked: detectionResult.shouldBlock
+      was_blocked: detectionResult.shouldBlock,
+      would_block: !!detectionResult.wouldBlock,
+      action: detectionResult.action
     };
     
     if (detectionResult.sourceType === 'bot' && detectionResult.info) {
@@ -653,7 +1704,8 @@ export class Spyglasses {
         is_compliant: botInfo.isCompliant,
         intent: botInfo.intent,
         confidence: 0.9, // High confidence for pattern matches
-        detection_method: 'pattern_match'
+        detection_method: 'pattern_match',
+        is_verified: botInfo.verified
       });
       
       if (this.debug) {
@@ -671,6 +1723,51 @@ export class Spyglasses {
       if (this.debug) {
         console.log('Spyglasses: Prepared AI referrer metadata:', metadata);
       }
+    } else if (detectionResult.sourceType === 'datacenter') {
+      Object.assign(metadata, {
+        source_type: 'datacenter',
+        detection_method: 'ip_range'
+      });
+    }
+    
+    if (detectionResult.matchedRule) {
+      metadata.matched_rule = detectionResult.matchedRule;
+    }
+    
+    if (detectionResult.rateLimit) {
+      metadata.rate_limit = detectionResult.rateLimit.rule;
+      metadata.was_throttled = detectionResult.rateLimit.throttled;
+    }
+    
+    if (detectionResult.robotsViolation) {
+      metadata.robots_violation = true;
+      metadata.robots_rule = detectionResult.robotsViolation.rule;
+    }
+    
+    const directives = this.getRobotsDirectives(detectionResult, this.getLogContext(requestInfo));
+    if (directives.length > 0) {
+      metadata.robots_directives = directives;
+    }
+    
+    // Record training crawlers fetching content reserved from text and data mining
+    const tdmRule = this.tdmRep && detectionResult.sourceType === 'bot' && (detectionResult.info as BotInfo)?.isAiModelTrainer
+      ? this.tdmRep.match(requestInfo.path)
+      : null;
+    if (tdmRule?.reservation) {
+      metadata.tdm_reserved = true;
+      if (tdmRule.policy) {
+        metadata.tdm_policy = tdmRule.policy;
+      }
+    }
+    
+    if (detectionResult.matchedScope) {
+      const { host, path, contentType, schedule } = detectionResult.matchedScope;
+      metadata.matched_scope = { host, path, content_type: contentType, schedule };
+    }
+    
+    if (this.ipClassifier) {
+      metadata.is_datacenter = !!detectionResult.datacenter;
+      metadata.datacenter_provider = detectionResult.datacenter?.provider;
     }
     
     // Calculate response time if not provided
@@ -685,11 +1782,12 @@ export class Spyglasses {
       request_path: requestInfo.path,
       request_query: requestInfo.query,
       referrer: requestInfo.referrer,
-      response_status: requestInfo.responseStatus || (detectionResult.shouldBlock ? 403 : 200),
+      response_status: requestInfo.responseStatus || this.createBlockResponse(detectionResult)?.status || 200,
       response_time_ms: responseTime,
       headers: requestInfo.headers || {}, // Ensure headers is never undefined
       timestamp: new Date().toISOString(),
       platformType: this.platformType || undefined,
+      event_type: detectionResult.sourceType === 'bot' && LLMS_TXT_PATHS.includes(requestInfo.path) ? 'llms_txt' : undefined,
       metadata
     };
     
@@ -697,6 +1795,54 @@ export class Spyglasses {
       console.log('Spyglasses: Complete payload to be sent:', JSON.stringify(payload, null, 2));
     }
     
+    if (this.collectorQueue) {
+      const accepted = this.collectorQueue.enqueue(payload);
+      if (this.debug) {
+        console.log(`Spyglasses: ${accepted ? 'Queued' : 'Dropped (queue shut down)'} ${detectionResult.sourceType} event for batched delivery`);
+      }
+      return;
+    }
+    
+    const [response] = await Promise.all([
+      this.sendToCollector(payload, detectionResult.sourceType),
+      this.dispatchToSinks([payload])
+    ]);
+    return response;
+  }
+  
+  /**
+   * Rebuild the request context for a logged request
+   * @param requestInfo The logged request information
+   * @returns The client IP, host, path and content type
+   */
+  private getLogContext(requestInfo: LogRequestInfo): DetectionContext {
+    let host: string | undefined;
+    try {
+      host = new URL(requestInfo.url).hostname;
+    } catch (error) {
+      host = undefined;
+    }
+    return { ip: requestInfo.ip, host, path: requestInfo.path, contentType: getContentTypeFromPath(requestInfo.path) };
+  }
+  
+  /**
+   * Send a single payload to the Spyglasses collector
+   * @param payload The collector payload
+   * @param sourceType The detection source type, for debug logging
+   * @returns The collector response, or undefined if it was skipped or failed
+   */
+  private async sendToCollector(payload: CollectorPayload, sourceType: DetectionResult['sourceType']): Promise<Response | undefined> {
+    if (!this.apiKey) {
+      return undefined;
+    }
+    
+    if (!this.collectorBreaker.canRequest()) {
+      if (this.debug) {
+        console.log('Spyglasses: logRequest() skipped - collector circuit breaker is open');
+      }
+      return undefined;
+    }
+    
     try {
       // Stringify the payload first to ensure it's valid JSON
       const jsonPayload = JSON.stringify(payload);
@@ -710,14 +1856,20 @@ export class Spyglasses {
         console.log(`Spyglasses: Payload size: ${jsonPayload.length} bytes`);
       }
       
-      const response = await fetch(this.collectEndpoint, {
+      const response = await fetchWithTimeout(this.collectEndpoint, {
         method: 'POST',
         headers: {
           'Content-Type': 'application/json',
           'x-api-key': this.apiKey
         },
         body: jsonPayload
-      });
+      }, this.requestTimeout);
+      
+      if (response.ok) {
+        this.collectorBreaker.recordSuccess();
+      } else {
+        this.collectorBreaker.recordFailure();
+      }
       
       if (this.debug) {
         console.log(`Spyglasses: Collector response status: ${response.status} ${response.statusText}`);
@@ -732,16 +1884,17 @@ export class Spyglasses {
         }
         
         if (response.ok) {
-          console.log(`Spyglasses: ✅ Successfully logged ${detectionResult.sourceType} event`);
+          console.log(`Spyglasses: ✅ Successfully logged ${sourceType} event`);
         } else {
-          console.error(`Spyglasses: ❌ Failed to log ${detectionResult.sourceType} event`);
+          console.error(`Spyglasses: ❌ Failed to log ${sourceType} event`);
         }
       }
       
       return response;
     } catch (error) {
+      this.collectorBreaker.recordFailure();
       if (this.debug) {
-        console.error(`Spyglasses: ❌ Exception during collector request for ${detectionResult.sourceType}:`, error);
+        console.error(`Spyglasses: ❌ Exception during collector request for ${sourceType}:`, error);
         if (error instanceof TypeError && error.message.includes('fetch')) {
           console.error('Spyglasses: This appears to be a network/fetch error - check network connectivity');
         }
@@ -754,6 +1907,125 @@ export class Spyglasses {
     }
   }
   
+  /**
+   * Deliver a batch of queued payloads to the collector and all sinks
+   * @param batch The payloads to send
+   * @returns A promise that rejects if the collector didn't accept the batch; sink failures are only logged
+   */
+  private async deliverBatch(batch: CollectorPayload[]): Promise<void> {
+    const sinks = this.dispatchToSinks(batch);
+    const collectorSink = this.collectorSink;
+    if (!collectorSink) {
+      return sinks;
+    }
+    
+    if (this.debug) {
+      console.log(`Spyglasses: Sending batch of ${batch.length} events to ${this.collectEndpoint}`);
+    }
+    
+    try {
+      await collectorSink.send(batch);
+    } catch (error) {
+      if (this.debug) {
+        console.error(`Spyglasses: ❌ Sink "${collectorSink.name}" failed:`, error);
+      }
+      throw error;
+    } finally {
+      await sinks;
+    }
+  }
+  
+  /**
+   * Build the sink that delivers batches to the Spyglasses collector
+   * @returns The sink, or null without an API key
+   */
+  private createCollectorSink(): SpyglassesHttpSink | null {
+    if (!this.apiKey) {
+      return null;
+    }
+    return new SpyglassesHttpSink({
+      apiKey: this.apiKey,
+      endpoint: this.collectEndpoint,
+      timeout: this.requestTimeout,
+      circuitBreaker: this.collectorBreaker
+    });
+  }
+  
+  /**
+   * Send payloads to sinks in parallel. A failing sink never affects the others.
+   * @param payloads The payloads to send
+   * @param sinks The sinks to send to (defaults to the configured sinks)
+   */
+  private async dispatchToSinks(payloads: CollectorPayload[], sinks: CollectorSink[] = this.sinks): Promise<void> {
+    if (sinks.length === 0) {
+      return;
+    }
+    
+    const results = await Promise.allSettled(
+      sinks.map(sink => Promise.resolve().then(() => sink.send(payloads)))
+    );
+    
+    if (this.debug) {
+      results.forEach((result, index) => {
+        if (result.status === 'rejected') {
+          console.error(`Spyglasses: ❌ Sink "${sinks[index].name}" failed:`, result.reason);
+        }
+      });
+    }
+  }
+  
+  /**
+   * Send all queued collector payloads now. Resolves immediately when batching is disabled.
+   * @returns A promise that resolves once the queue has been drained
+   */
+  public async flush(): Promise<void> {
+    if (this.collectorQueue) {
+      await this.collectorQueue.flush();
+    }
+  }
+  
+  /**
+   * Flush queued payloads, stop accepting new ones and close sinks, e.g. before process exit
+   * or at the end of a serverless invocation
+   * @returns A promise that resolves once the final flush completes
+   */
+  public async shutdown(): Promise<void> {
+    if (this.collectorQueue) {
+      await this.collectorQueue.shutdown();
+    }
+    
+    await Promise.allSettled(
+      this.sinks.map(sink => (sink.close ? sink.close() : Promise.resolve()))
+    );
+  }
+  
+  /**
+   * Get collector queue statistics
+   * @returns Queue statistics, or null when batching is disabled
+   */
+  public getQueueStats(): CollectorQueueStats | null {
+    return this.collectorQueue ? this.collectorQueue.getStats() : null;
+  }
+  
+  /**
+   * Get detection cache statistics
+   * @returns Hits, misses and size, or null when the cache is disabled
+   */
+  public getCacheStats(): DetectionCacheStats | null {
+    return this.detectionCache ? this.detectionCache.getStats() : null;
+  }
+  
+  /**
+   * Get the circuit breaker state for each remote endpoint
+   * @returns Breaker state for pattern sync and the collector
+   */
+  public getCircuitBreakerState(): { patterns: CircuitBreakerState; collector: CircuitBreakerState } {
+    return {
+      patterns: this.patternsBreaker.getState(),
+      collector: this.collectorBreaker.getState()
+    };
+  }
+  
   /**
    * Get all patterns
    * @returns The current patterns
@@ -805,5 +2077,48 @@ export class Spyglasses {
     if (config.patternsEndpoint !== undefined) this.patternsEndpoint = config.patternsEndpoint;
     if (config.autoSync !== undefined) this.autoSync = config.autoSync;
     if (config.platformType !== undefined) this.platformType = config.platformType;
+    if (config.cacheTtl !== undefined) this.cacheTtl = config.cacheTtl;
+    if (config.requestTimeout !== undefined) this.requestTimeout = config.requestTimeout;
+    if (config.syncRetries !== undefined) this.syncRetries = config.syncRetries;
+    if (config.retryDelay !== undefined) this.retryDelay = config.retryDelay;
+    if (config.apiKey !== undefined || config.collectEndpoint !== undefined || config.requestTimeout !== undefined) {
+      this.collectorSink = this.createCollectorSink();
+    }
+    if (config.refreshJitter !== undefined) this.refreshJitter = config.refreshJitter;
+    if (config.clock !== undefined) this.clock = config.clock;
+    if (config.blockResponseOptions !== undefined) this.blockResponseOptions = config.blockResponseOptions;
+    if (config.robotsTxt !== undefined) {
+      this.robotsTxtOptions = config.robotsTxt === true ? {} : config.robotsTxt || null;
+      this.robotsTxt = null;
+    }
+    if (config.llmsTxt !== undefined) this.setLlmsTxt(config.llmsTxt);
+    if (config.robotsDirectives !== undefined) this.setRobotsDirectives(config.robotsDirectives);
+    if (config.tdmRep !== undefined) this.setTdmRep(config.tdmRep);
+    if (config.robotsCheck !== undefined) {
+      this.robotsCheck = config.robotsCheck === true ? {} : config.robotsCheck || null;
+      
+      // Cached results were checked against the old robots.txt
+      if (this.detectionCache) {
+        this.detectionCache.clear();
+      }
+    }
+    if (config.refreshInterval !== undefined) {
+      this.refreshInterval = config.refreshInterval;
+      this.scheduleRefresh();
+    }
+    if (config.blockAiModelTrainers !== undefined || config.customBlocks !== undefined || config.customAllows !== undefined
+      || config.blockAction !== undefined || config.shadowMode !== undefined) {
+      if (config.blockAction !== undefined) this.blockAction = config.blockAction;
+      if (config.shadowMode !== undefined) this.shadowMode = config.shadowMode;
+      if (config.blockAiModelTrainers !== undefined) this.localBlockAiModelTrainers = config.blockAiModelTrainers;
+      if (config.customBlocks !== undefined) this.localBlocks = config.customBlocks;
+      if (config.customAllows !== undefined) this.localAllows = config.customAllows;
+      this.compileRules();
+      
+      // Cached results were decided by the old rules
+      if (this.detectionCache) {
+        this.detectionCache.clear();
+      }
+    }
   }
 } 
\ No newline at end of file
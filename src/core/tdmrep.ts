@@ -0,0 +1,96 @@
+import { TdmRepRule } from '../types';
+import { compileRobotsPath } from './robots';
+
+/**
+ * Path the TDMRep well-known file is served from
+ */
+export const TDMREP_PATH = '/.well-known/tdmrep.json';
+
+/**
+ * Check a TDMRep rule for mistakes
+ * @param rule The TDMRep rule
+ * @returns A description of the problem, or null if the rule is valid
+ */
+export function validateTdmRepRule(rule: TdmRepRule): string | null {
+  if (typeof rule.location !== 'string' || !rule.location.startsWith('/')) {
+    return 'location must start with "/"';
+  }
+  if (typeof rule.reservation !== 'boolean') {
+    return 'reservation must be true or false';
+  }
+  if (rule.policy !== undefined && !/^https?:\/\//.test(rule.policy)) {
+    return 'policy must be an http(s) URL';
+  }
+  return null;
+}
+
+/**
+ * A per-path text and data mining reservation policy, following the TDM
+ * Reservation Protocol: the first rule whose location matches a path applies
+ */
+export class TdmRepPolicy {
+  private rules: Array<{ rule: TdmRepRule; regex: RegExp }> = [];
+  private invalid: string[] = [];
+
+  /**
+   * Compile a policy
+   * @param rules The TDMRep rules; invalid rules are skipped
+   */
+  constructor(rules: TdmRepRule[]) {
+    for (const rule of rules) {
+      const error = validateTdmRepRule(rule);
+      if (error) {
+        this.invalid.push(`${rule.location}: ${error}`);
+      } else {
+        this.rules.push({ rule, regex: compileRobotsPath(rule.location) });
+      }
+    }
+  }
+
+  /**
+   * Find the rule that applies to a path
+   * @param path The request path
+   * @returns The first matching rule, or null
+   */
+  public match(path: string): TdmRepRule | null {
+    const match = this.rules.find(({ regex }) => regex.test(path));
+    return match ? match.rule : null;
+  }
+
+  /**
+   * Get the tdm-reservation and tdm-policy headers for a path
+   * @param path The request path
+   * @returns The headers, empty if no rule applies
+   */
+  public getHeaders(path: string): Record<string, string> {
+    const rule = this.match(path);
+    if (!rule) {
+      return {};
+    }
+    const headers: Record<string, string> = { 'tdm-reservation': rule.reservation ? '1' : '0' };
+    if (rule.policy) {
+      headers['tdm-policy'] = rule.policy;
+    }
+    return headers;
+  }
+
+  /**
+   * Build the /.well-known/tdmrep.json file
+   * @returns The JSON content
+   */
+  public toJson(): string {
+    return JSON.stringify(this.rules.map(({ rule }) => ({
+      location: rule.location,
+      'tdm-reservation': rule.reservation ? 1 : 0,
+      ...(rule.policy ? { 'tdm-policy': rule.policy } : {})
+    })), null, 2);
+  }
+
+  /**
+   * Rules that were skipped because they are invalid
+   * @returns One message per invalid rule
+   */
+  public getInvalidRules(): string[] {
+    return [...this.invalid];
+  }
+}
@@ -1,4 +1,11 @@
 import { Spyglasses } from './core/spyglasses';
+import { SpyglassesHttpSink, WebhookSink, NdjsonSink, MemorySink } from './sinks';
+import { FileSnapshotStore, MemorySnapshotStore } from './snapshots';
+import { MemoryRateLimitStore } from './rate-limits';
+import { rule } from './core/rule-builder';
+import { validateRule } from './core/rules';
+import { createBlockResponse } from './core/block-response';
+import { buildLlmsTxt, buildLlmsFullTxt } from './core/llms';
 import type { 
   DetectionResult, 
   SpyglassesConfig, 
@@ -6,7 +13,59 @@ import type {
   AiReferrerInfo,
   BotInfo,
   ApiPatternResponse,
-  CollectorPayload
+  CollectorPayload,
+  LogRequestInfo,
+  HandleOptions,
+  HandleResult,
+  BatchingConfig,
+  CollectorQueueStats,
+  CircuitBreakerConfig,
+  CircuitBreakerState,
+  CollectorSink,
+  SpyglassesHttpSinkOptions,
+  WebhookSinkOptions,
+  NdjsonSinkOptions,
+  DetectionContext,
+  BotVerification,
+  VerificationStatus,
+  DnsResolver,
+  IpRangeSource,
+  BotVerifierOptions,
+  DatacenterConfig,
+  DatacenterPolicy,
+  DatacenterRangeFile,
+  DatacenterInfo,
+  DatacenterLoadResult,
+  DetectionCacheStats,
+  PatternSnapshot,
+  PatternSnapshotStore,
+  FileSnapshotStoreOptions,
+  BlockingRule,
+  RuleScope,
+  ScopedRule,
+  MatchedScope,
+  RuleSchedule,
+  ScheduleWindow,
+  Weekday,
+  RateLimit,
+  RateLimitStore,
+  RateLimitOutcome,
+  TokenBucketConfig,
+  TokenBucketResult,
+  MemoryRateLimitStoreOptions,
+  RuleAction,
+  BlockAction,
+  BlockResponseOptions,
+  BlockResponse,
+  PlainResponse,
+  RobotsTxtOptions,
+  RobotsViolation,
+  RobotsCheckConfig,
+  LlmsTxtManifest,
+  LlmsTxtPage,
+  CollectorEventType,
+  RobotsDirectiveRule,
+  TdmRepRule
 } from './types';
 
 // Create a default instance for the simplified API
@@ -73,6 +132,15 @@ export async function syncPatterns(config?: SpyglassesConfig): Promise<ApiPatter
   return getDefaultInstance(config).syncPatterns();
 }
 
+/**
+ * Wait for the default instance's initial pattern sync
+ * @param timeout Optional maximum wait in milliseconds
+ * @returns A promise that resolves with true once ready, or false on timeout
+ */
+export function ready(timeout?: number, config?: SpyglassesConfig): Promise<boolean> {
+  return getDefaultInstance(config).ready(timeout);
+}
+
 /**
  * Get all bot patterns
  * @returns The current bot patterns
@@ -89,6 +157,15 @@ export function getAiReferrers(config?: SpyglassesConfig): AiReferrerInfo[] {
   return getDefaultInstance(config).getAiReferrers();
 }
 
+/**
+ * Generate robots.txt from the current bot patterns and blocking rules
+ * @param options The site's own rules and sitemaps
+ * @returns The robots.txt content
+ */
+export function generateRobotsTxt(options?: RobotsTxtOptions, config?: SpyglassesConfig): string {
+  return getDefaultInstance(config).generateRobotsTxt(options);
+}
+
 // Export types and class
 export type { 
   DetectionResult, 
@@ -97,6 +174,58 @@ export type {
   AiReferrerInfo,
   BotInfo,
   ApiPatternResponse,
-  CollectorPayload
+  CollectorPayload,
+  LogRequestInfo,
+  HandleOptions,
+  HandleResult,
+  BatchingConfig,
+  CollectorQueueStats,
+  CircuitBreakerConfig,
+  CircuitBreakerState,
+  CollectorSink,
+  SpyglassesHttpSinkOptions,
+  WebhookSinkOptions,
+  NdjsonSinkOptions,
+  DetectionContext,
+  BotVerification,
+  VerificationStatus,
+  DnsResolver,
+  IpRangeSource,
+  BotVerifierOptions,
+  DatacenterConfig,
+  DatacenterPolicy,
+  DatacenterRangeFile,
+  DatacenterInfo,
+  DatacenterLoadResult,
+  DetectionCacheStats,
+  PatternSnapshot,
+  PatternSnapshotStore,
+  FileSnapshotStoreOptions,
+  BlockingRule,
+  RuleScope,
+  ScopedRule,
+  MatchedScope,
+  RuleSchedule,
+  ScheduleWindow,
+  Weekday,
+  RateLimit,
+  RateLimitStore,
+  RateLimitOutcome,
+  TokenBucketConfig,
+  TokenBucketResult,
+  MemoryRateLimitStoreOptions,
+  RuleAction,
+  BlockAction,
+  BlockResponseOptions,
+  BlockResponse,
+  PlainResponse,
+  RobotsTxtOptions,
+  RobotsViolation,
+  RobotsCheckConfig,
+  LlmsTxtManifest,
+  LlmsTxtPage,
+  CollectorEventType,
+  RobotsDirectiveRule,
+  TdmRepRule
 };
-export { Spyglasses };
\ No newline at end of file
+export { Spyglasses, SpyglassesHttpSink, WebhookSink, NdjsonSink, MemorySink, FileSnapshotStore, MemorySnapshotStore, MemoryRateLimitStore, rule, validateRule, createBlockResponse, buildLlmsTxt, buildLlmsFullTxt };
\ No newline at end of file
@@ -0,0 +1,199 @@
+import type { IncomingMessage, ServerResponse } from 'http';
+import { Spyglasses } from '../core/spyglasses';
+import { shouldReport } from '../core/block-response';
+import { getContentTypeFromPath, getHeader, isSkippedPath, normalizeHeaders, splitRequestUrl } from '../utils/headers';
+import type { DetectionResult, PlainResponse, SpyglassesConfig } from '../types';
+
+/**
+ * Request shape used by the middleware. Express adds `ip`, `hostname`, `path`,
+ * `protocol` and `originalUrl`; plain Connect/Node requests only provide `url`.
+ */
+export type ExpressRequestLike = IncomingMessage & {
+  ip?: string;
+  hostname?: string;
+  path?: string;
+  protocol?: string;
+  originalUrl?: string;
+};
+
+type NextFunction = (error?: unknown) => void;
+
+/**
+ * Options for the Express/Connect middleware
+ */
+export interface ExpressMiddlewareOptions extends SpyglassesConfig {
+  /** Existing instance to use instead of creating a new one */
+  spyglasses?: Spyglasses;
+  /** Path prefixes or regular expressions that bypass detection */
+  skipPaths?: Array<string | RegExp>;
+  /** Use the first X-Forwarded-For address when the framework does not resolve req.ip */
+  trustProxy?: boolean;
+  /** Custom handler for blocked, redirected and challenged requests; defaults to the response built from blockResponseOptions */
+  onBlocked?: (req: IncomingMessage, res: ServerResponse, result: DetectionResult) => void;
+  /** Custom handler for rate-limited requests; defaults to a 429 response with Retry-After */
+  onThrottled?: (req: IncomingMessage, res: ServerResponse, result: DetectionResult) => void;
+}
+
+/**
+ * Send a response built by the SDK: a served file or a block, redirect, challenge or throttle response
+ */
+function sendResponse(res: ServerResponse, response: PlainResponse): void {
+  res.statusCode = response.status;
+  for (const [name, value] of Object.entries(response.headers)) {
+    res.setHeader(name, value);
+  }
+  res.end(response.body);
+}
+
+/**
+ * Resolve the client IP for a request
+ * @param req The incoming request
+ * @param trustProxy Whether to trust X-Forwarded-For when req.ip is not set
+ * @returns The client IP, if known
+ */
+function getClientIp(req: ExpressRequestLike, trustProxy: boolean): string | undefined {
+  // Express resolves req.ip according to the app's "trust proxy" setting
+  if (req.ip) {
+    return req.ip;
+  }
+
+  if (trustProxy) {
+    const forwardedFor = getHeader(req.headers, 'x-forwarded-for').split(',')[0].trim();
+    if (forwardedFor) {
+      return forwardedFor;
+    }
+  }
+
+  return req.socket?.remoteAddress;
+}
+
+/**
+ * Create an Express/Connect middleware that detects bots and AI referrers,
+ * blocks requests according to the property's rules and logs them to the collector
+ * @param options Spyglasses configuration plus middleware options
+ * @returns A `(req, res, next)` middleware function; its promise resolves once the request has been handed on or
+ *   answered, and never rejects: errors are passed to `next(error)`
+ */
+export function createSpyglassesMiddleware(options: ExpressMiddlewareOptions = {}) {
+  const {
+    spyglasses: instance,
+    skipPaths = [],
+    trustProxy = false,
+    onBlocked,
+    onThrottled,
+    ...config
+  } = options;
+
+  const spyglasses = instance || new Spyglasses({
+    apiKey: typeof process !== 'undefined' ? process.env.SPYGLASSES_API_KEY : undefined,
+    ...config
+  });
+
+  /**
+   * Detect, log and, where the rules say so, answer the request
+   * @returns True if the request should be handed on to the next handler
+   */
+  async function handleRequest(req: ExpressRequestLike, res: ServerResponse): Promise<boolean> {
+    const originalUrl = req.originalUrl || req.url || '/';
+    const { path: pathname, query } = splitRequestUrl(originalUrl);
+    const path = req.path || pathname;
+
+    if (isSkippedPath(path, skipPaths)) {
+      const file = spyglasses.getFileResponse(path, req.method);
+      if (file) {
+        sendResponse(res, file);
+      }
+      return !file;
+    }
+
+    const userAgent = getHeader(req.headers, 'user-agent');
+    const referrer = getHeader(req.headers, 'referer') || getHeader(req.headers, 'referrer');
+
+    const ip = getClientIp(req, trustProxy);
+    const context = {
+      ip,
+      host: req.hostname || getHeader(req.headers, 'host') || undefined,
+      path,
+      contentType: getContentTypeFromPath(path)
+    };
+    const result = await spyglasses.applyRateLimitAsync(spyglasses.detect(userAgent, referrer, context), context);
+    const file = spyglasses.getFileResponse(path, req.method, result);
+
+    // Directives such as X-Robots-Tag go on any response that isn't a block
+    for (const [name, value] of Object.entries(spyglasses.getResponseHeaders(result, context))) {
+      res.setHeader(name, value);
+    }
+
+    if (!shouldReport(result)) {
+      if (file) {
+        sendResponse(res, file);
+      }
+      return !file;
+    }
+
+    const startTime = Date.now();
+    let logged = false;
+
+    const log = () => {
+      if (logged) {
+        return;
+      }
+      logged = true;
+
+      const protocol = req.protocol || ((req.socket as { encrypted?: boolean } | undefined)?.encrypted ? 'https' : 'http');
+      spyglasses.logRequest(result, {
+        url: `${protocol}://${getHeader(req.headers, 'host')}${originalUrl}`,
+        method: req.method || 'GET',
+        path,
+        query,
+        userAgent,
+        referrer: referrer || undefined,
+        ip,
+        headers: normalizeHeaders(req.headers),
+        responseStatus: res.statusCode,
+        responseTime: Date.now() - startTime
+      }).catch(() => {});
+    };
+
+    // Log once the response has been fully handed off, so the real status is reported.
+    // A response that closes without finishing was aborted, and is logged on close.
+    res.on('finish', log);
+    res.on('close', log);
+
+    // Files the SDK serves, such as robots.txt, take the place of the app's response
+    if (file) {
+      sendResponse(res, file);
+      return false;
+    }
+    if (result.shouldBlock && onBlocked) {
+      onBlocked(req, res, result);
+      return false;
+    }
+    if (result.action === 'throttle' && onThrottled) {
+      onThrottled(req, res, result);
+      return false;
+    }
+
+    const response = spyglasses.createBlockResponse(result);
+    if (response) {
+      sendResponse(res, response);
+      return false;
+    }
+
+    return true;
+  }
+
+  return async function spyglassesMiddleware(req: ExpressRequestLike, res: ServerResponse, next: NextFunction): Promise<void> {
+    let handOn: boolean;
+    try {
+      handOn = await handleRequest(req, res);
+    } catch (error) {
+      // Express 4 ignores rejected promises, so pass errors to the app's error handlers
+      return next(error);
+    }
+
+    if (handOn) {
+      next();
+    }
+  };
+}
@@ -0,0 +1,213 @@
+import type { IncomingMessage } from 'http';
+// Brings Fastify's types into the program so the FastifyRequest augmentation below applies
+import type {} from 'fastify';
+import { Spyglasses } from '../core/spyglasses';
+import { shouldReport } from '../core/block-response';
+import { getContentTypeFromPath, getHeader, isSkippedPath, normalizeHeaders, splitRequestUrl } from '../utils/headers';
+import type { DetectionResult, PlainResponse, SpyglassesConfig } from '../types';
+
+/**
+ * Minimal Fastify request shape used by the plugin
+ */
+export interface FastifyRequestLike {
+  raw: IncomingMessage;
+  headers: IncomingMessage['headers'];
+  url: string;
+  method: string;
+  ip?: string;
+  protocol?: string;
+  hostname?: string;
+  routeOptions?: { config?: FastifyRouteConfig };
+  routeConfig?: FastifyRouteConfig;
+  spyglasses?: DetectionResult | null;
+}
+
+/**
+ * Minimal Fastify reply shape used by the plugin
+ */
+export interface FastifyReplyLike {
+  statusCode: number;
+  elapsedTime?: number;
+  getResponseTime?: () => number;
+  code(statusCode: number): FastifyReplyLike;
+  header(name: string, value: string): FastifyReplyLike;
+  send(payload?: unknown): FastifyReplyLike;
+}
+
+/**
+ * Per-route Spyglasses settings, read from the route's `config.spyglasses`
+ */
+export interface FastifyRouteConfig {
+  spyglasses?: {
+    /** Set to false to never block or rate limit on this route (detection and logging still run) */
+    block?: boolean;
+  };
+}
+
+/**
+ * Options for the Fastify plugin
+ */
+export interface FastifyPluginOptions extends SpyglassesConfig {
+  /** Existing instance to use instead of creating a new one */
+  spyglasses?: Spyglasses;
+  /** Path prefixes or regular expressions that bypass detection */
+  skipPaths?: Array<string | RegExp>;
+  /** Custom handler for blocked, redirected and challenged requests; defaults to the reply built from blockResponseOptions */
+  onBlocked?: (request: FastifyRequestLike, reply: FastifyReplyLike, result: DetectionResult) => unknown;
+  /** Custom handler for rate-limited requests; defaults to a 429 reply with Retry-After */
+  onThrottled?: (request: FastifyRequestLike, reply: FastifyReplyLike, result: DetectionResult) => unknown;
+}
+
+declare module 'fastify' {
+  interface FastifyRequest {
+    /** Detection result set by the Spyglasses plugin; null on skipped paths */
+    spyglasses: DetectionResult | null;
+  }
+}
+
+/**
+ * Minimal Fastify instance shape used by the plugin
+ */
+export interface FastifyInstanceLike {
+  decorateRequest(name: string, value: unknown): unknown;
+  addHook(name: 'onRequest' | 'onResponse', hook: (request: FastifyRequestLike, reply: FastifyReplyLike) => Promise<unknown>): unknown;
+}
+
+/**
+ * Send a reply built by the SDK: a served file or a block, redirect, challenge or throttle reply
+ */
+function sendReply(reply: FastifyReplyLike, response: PlainResponse): FastifyReplyLike {
+  reply.code(response.status);
+  for (const [name, value] of Object.entries(response.headers)) {
+    reply.header(name, value);
+  }
+  return reply.send(response.body);
+}
+
+/**
+ * Read the Spyglasses route config, supporting Fastify v4 and v5 request APIs
+ */
+function getRouteConfig(request: FastifyRequestLike): FastifyRouteConfig | undefined {
+  return request.routeOptions?.config || request.routeConfig;
+}
+
+/**
+ * Fastify plugin that detects bots and AI referrers, decorates `request.spyglasses`
+ * with the detection result, blocks according to the property's rules and logs
+ * each detected request once the response has been sent.
+ * @param fastify The Fastify instance
+ * @param options Spyglasses configuration plus plugin options
+ */
+async function spyglassesPlugin(fastify: FastifyInstanceLike, options: FastifyPluginOptions = {}): Promise<void> {
+  const {
+    spyglasses: instance,
+    skipPaths = [],
+    onBlocked,
+    onThrottled,
+    ...config
+  } = options;
+
+  const spyglasses = instance || new Spyglasses({
+    apiKey: typeof process !== 'undefined' ? process.env.SPYGLASSES_API_KEY : undefined,
+    ...config
+  });
+
+  const startTimes = new WeakMap<FastifyRequestLike, number>();
+
+  fastify.decorateRequest('spyglasses', null);
+
+  fastify.addHook('onRequest', async (request, reply) => {
+    const { path } = splitRequestUrl(request.url);
+    if (isSkippedPath(path, skipPaths)) {
+      const file = spyglasses.getFileResponse(path, request.method);
+      return file ? sendReply(reply, file) : undefined;
+    }
+
+    const userAgent = getHeader(request.headers, 'user-agent');
+    const referrer = getHeader(request.headers, 'referer') || getHeader(request.headers, 'referrer');
+    const context = {
+      ip: request.ip,
+      host: request.hostname || getHeader(request.headers, 'host') || undefined,
+      path,
+      contentType: getContentTypeFromPath(path)
+    };
+    let result: DetectionResult = spyglasses.detect(userAgent, referrer, context);
+
+    // Routes that opt out of blocking don't spend rate limit tokens either, and
+    // report their blocks as log-only since the request goes through
+    const routeConfig = getRouteConfig(request);
+    const enforce = routeConfig?.spyglasses?.block !== false;
+    if (enforce) {
+      result = await spyglasses.applyRateLimitAsync(result, context);
+    } else if (result.shouldBlock) {
+      result = { ...result, shouldBlock: false, action: 'log-only', wouldBlock: true };
+    }
+
+    request.spyglasses = result;
+    startTimes.set(request, Date.now());
+
+    // Directives such as X-Robots-Tag go on any reply that isn't a block
+    for (const [name, value] of Object.entries(spyglasses.getResponseHeaders(result, context))) {
+      reply.header(name, value);
+    }
+
+    // Files the SDK serves, such as robots.txt, take the place of the app's response
+    const file = spyglasses.getFileResponse(path, request.method, result);
+    if (file) {
+      return sendReply(reply, file);
+    }
+    if (!enforce) {
+      return;
+    }
+    if (result.shouldBlock && onBlocked) {
+      return onBlocked(request, reply, result);
+    }
+    if (result.action === 'throttle' && onThrottled) {
+      return onThrottled(request, reply, result);
+    }
+
+    const response = spyglasses.createBlockResponse(result);
+    if (response) {
+      return sendReply(reply, response);
+    }
+  });
+
+  fastify.addHook('onResponse', async (request, reply) => {
+    const result = request.spyglasses;
+    if (!result || !shouldReport(result)) {
+      return;
+    }
+
+    const { path, query } = splitRequestUrl(request.url);
+    const userAgent = getHeader(request.headers, 'user-agent');
+    const referrer = getHeader(request.headers, 'referer') || getHeader(request.headers, 'referrer');
+    const responseTime = reply.elapsedTime !== undefined
+      ? Math.round(reply.elapsedTime)
+      : reply.getResponseTime
+        ? Math.round(reply.getResponseTime())
+        : Date.now() - (startTimes.get(request) || Date.now());
+
+    spyglasses.logRequest(result, {
+      url: `${request.protocol || 'http'}://${request.hostname || getHeader(request.headers, 'host')}${request.url}`,
+      method: request.method,
+      path,
+      query,
+      userAgent,
+      referrer: referrer || undefined,
+      ip: request.ip,
+      headers: normalizeHeaders(request.headers),
+      responseStatus: reply.statusCode,
+      responseTime
+    }).catch(() => {});
+  });
+}
+
+// Equivalent of wrapping with fastify-plugin: share the decorator and hooks with the parent scope
+const plugin = Object.assign(spyglassesPlugin, {
+  [Symbol.for('skip-override')]: true,
+  [Symbol.for('fastify.display-name')]: '@spyglasses/sdk',
+  [Symbol.for('plugin-meta')]: { name: '@spyglasses/sdk', fastify: '>=4' }
+});
+
+export { plugin as spyglassesPlugin };
+export default plugin;
\ No newline at end of file
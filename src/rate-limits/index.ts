@@ -0,0 +1 @@
+export { MemoryRateLimitStore } from './memory-rate-limit-store';
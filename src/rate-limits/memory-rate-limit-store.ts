@@ -0,0 +1,51 @@
+import { MemoryRateLimitStoreOptions, RateLimitStore, TokenBucketConfig, TokenBucketResult } from '../types';
+import { LruCache } from '../utils/lru-cache';
+
+/**
+ * Token bucket state
+ */
+interface Bucket {
+  tokens: number;
+  updatedAt: number;
+}
+
+/**
+ * Rate limit store that keeps token buckets in memory. Limits are per process,
+ * so each instance of a horizontally scaled app gets its own budget.
+ */
+export class MemoryRateLimitStore implements RateLimitStore {
+  private buckets: LruCache<string, Bucket>;
+
+  /**
+   * Create a new in-memory rate limit store
+   * @param options Store options
+   */
+  constructor(options: MemoryRateLimitStoreOptions = {}) {
+    this.buckets = new LruCache(options.maxKeys || 10000);
+  }
+
+  /**
+   * Refill a bucket for the time elapsed, then take one token if available
+   * @param key The bucket key
+   * @param bucket The bucket's capacity and refill rate
+   * @param now The current time in milliseconds
+   * @returns Whether the request is allowed and when to retry if not
+   */
+  public take(key: string, bucket: TokenBucketConfig, now: number): TokenBucketResult {
+    const state = this.buckets.get(key);
+    const elapsed = state ? Math.max(0, now - state.updatedAt) : 0;
+    let tokens = state ? Math.min(bucket.capacity, state.tokens + elapsed * bucket.refillRate) : bucket.capacity;
+
+    const allowed = tokens >= 1;
+    if (allowed) {
+      tokens -= 1;
+    }
+    this.buckets.set(key, { tokens, updatedAt: now });
+
+    return {
+      allowed,
+      remaining: Math.floor(tokens),
+      retryAfter: allowed ? 0 : Math.ceil((1 - tokens) / bucket.refillRate)
+    };
+  }
+}
@@ -0,0 +1,69 @@
+import { CircuitBreaker } from '../core/circuit-breaker';
+import { fetchWithTimeout } from '../utils/http';
+import { CollectorPayload, CollectorSink, SpyglassesHttpSinkOptions } from '../types';
+
+/**
+ * Sink that posts payloads to the Spyglasses collector
+ */
+export class SpyglassesHttpSink implements CollectorSink {
+  public readonly name = 'spyglasses';
+
+  private apiKey: string;
+  private endpoint: string;
+  private timeout: number;
+  private breaker: CircuitBreaker;
+
+  /**
+   * Create a new Spyglasses collector sink
+   * @param options Sink options
+   */
+  constructor(options: SpyglassesHttpSinkOptions) {
+    this.apiKey = options.apiKey;
+    this.endpoint = options.endpoint || 'https://www.spyglasses.io/api/collect';
+    this.timeout = options.timeout !== undefined ? options.timeout : 5000;
+    this.breaker = options.circuitBreaker || new CircuitBreaker();
+  }
+
+  /**
+   * Post each payload to the collector as its own request, in order. The
+   * collector endpoint accepts one event per request; the first failure
+   * rejects and leaves the rest of the batch unsent.
+   * @param payloads The payloads to send
+   */
+  public async send(payloads: CollectorPayload[]): Promise<void> {
+    for (const payload of payloads) {
+      await this.post(payload);
+    }
+  }
+
+  /**
+   * Post a single payload, recording the outcome on the circuit breaker
+   */
+  private async post(payload: CollectorPayload): Promise<void> {
+    if (!this.breaker.canRequest()) {
+      throw new Error('Collector circuit breaker is open');
+    }
+
+    let response: Response;
+    try {
+      response = await fetchWithTimeout(this.endpoint, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+          'x-api-key': this.apiKey
+        },
+        body: JSON.stringify(payload)
+      }, this.timeout);
+    } catch (error) {
+      this.breaker.recordFailure();
+      throw error;
+    }
+
+    if (!response.ok) {
+      this.breaker.recordFailure();
+      throw new Error(`Collector HTTP error ${response.status}: ${response.statusText}`);
+    }
+
+    this.breaker.recordSuccess();
+  }
+}
@@ -0,0 +1,4 @@
+export { SpyglassesHttpSink } from './http-sink';
+export { WebhookSink } from './webhook-sink';
+export { NdjsonSink } from './ndjson-sink';
+export { MemorySink } from './memory-sink';
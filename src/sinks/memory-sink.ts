@@ -0,0 +1,33 @@
+import { CollectorPayload, CollectorSink } from '../types';
+
+/**
+ * Sink that keeps payloads in memory, for tests and in-process consumers
+ */
+export class MemorySink implements CollectorSink {
+  public readonly name = 'memory';
+  public readonly records: CollectorPayload[] = [];
+
+  /**
+   * Create a new memory sink
+   * @param maxRecords Maximum records to keep; the oldest are discarded beyond this
+   */
+  constructor(private maxRecords: number = 10000) {}
+
+  /**
+   * Store a batch of payloads
+   * @param payloads The payloads to store
+   */
+  public async send(payloads: CollectorPayload[]): Promise<void> {
+    this.records.push(...payloads);
+    if (this.records.length > this.maxRecords) {
+      this.records.splice(0, this.records.length - this.maxRecords);
+    }
+  }
+
+  /**
+   * Remove all stored records
+   */
+  public clear(): void {
+    this.records.length = 0;
+  }
+}
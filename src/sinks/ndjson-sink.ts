@@ -0,0 +1,61 @@
+import { CollectorPayload, CollectorSink, NdjsonSinkOptions } from '../types';
+
+/**
+ * Sink that writes one JSON payload per line to a file, a stream or stdout
+ */
+export class NdjsonSink implements CollectorSink {
+  public readonly name: string;
+
+  private path?: string;
+  private stream?: { write(chunk: string): unknown };
+  private writing: Promise<void> = Promise.resolve();
+
+  /**
+   * Create a new NDJSON sink. Writes to stdout unless a file path or stream is given.
+   * @param options Sink options
+   */
+  constructor(options: NdjsonSinkOptions = {}) {
+    this.name = options.name || 'ndjson';
+    this.path = options.path;
+    this.stream = options.stream;
+  }
+
+  /**
+   * Append a batch of payloads, one per line
+   * @param payloads The payloads to write
+   */
+  public send(payloads: CollectorPayload[]): Promise<void> {
+    const lines = payloads.map(payload => JSON.stringify(payload) + '\n').join('');
+
+    // Serialize writes so lines from concurrent batches never interleave
+    const write = this.writing.then(() => this.write(lines));
+    this.writing = write.catch(() => {});
+    return write;
+  }
+
+  /**
+   * Wait for pending writes to finish
+   */
+  public close(): Promise<void> {
+    return this.writing;
+  }
+
+  /**
+   * Write a chunk to the configured destination
+   * @param chunk The NDJSON chunk
+   */
+  private async write(chunk: string): Promise<void> {
+    if (this.path) {
+      // Loaded lazily so the SDK stays usable in runtimes without a file system
+      const { appendFile } = await import('fs/promises');
+      await appendFile(this.path, chunk, 'utf8');
+      return;
+    }
+
+    const stream = this.stream || (globalThis as { process?: { stdout?: { write(chunk: string): unknown } } }).process?.stdout;
+    if (!stream) {
+      throw new Error('No output stream available for NDJSON sink');
+    }
+    stream.write(chunk);
+  }
+}
@@ -0,0 +1,43 @@
+import { fetchWithTimeout } from '../utils/http';
+import { CollectorPayload, CollectorSink, WebhookSinkOptions } from '../types';
+
+/**
+ * Sink that posts payloads to an arbitrary HTTP endpoint as a JSON array
+ */
+export class WebhookSink implements CollectorSink {
+  public readonly name: string;
+
+  private url: string;
+  private headers: Record<string, string>;
+  private timeout: number;
+
+  /**
+   * Create a new webhook sink
+   * @param options Sink options
+   */
+  constructor(options: WebhookSinkOptions) {
+    this.name = options.name || 'webhook';
+    this.url = options.url;
+    this.headers = options.headers || {};
+    this.timeout = options.timeout !== undefined ? options.timeout : 5000;
+  }
+
+  /**
+   * Post a batch of payloads
+   * @param payloads The payloads to send
+   */
+  public async send(payloads: CollectorPayload[]): Promise<void> {
+    const response = await fetchWithTimeout(this.url, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        ...this.headers
+      },
+      body: JSON.stringify(payloads)
+    }, this.timeout);
+
+    if (!response.ok) {
+      throw new Error(`Webhook HTTP error ${response.status}: ${response.statusText}`);
+    }
+  }
+}
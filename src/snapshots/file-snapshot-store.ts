@@ -0,0 +1,74 @@
+import { FileSnapshotStoreOptions, PatternSnapshot, PatternSnapshotStore } from '../types';
+
+/**
+ * Snapshot store that keeps the snapshot in a JSON file
+ */
+export class FileSnapshotStore implements PatternSnapshotStore {
+  private path: string;
+  private writing: Promise<void> = Promise.resolve();
+
+  /**
+   * Create a new file snapshot store
+   * @param options Store options
+   */
+  constructor(options: FileSnapshotStoreOptions) {
+    this.path = options.path;
+  }
+
+  /**
+   * Read the snapshot file
+   * @returns The snapshot, or null if the file doesn't exist
+   */
+  public async load(): Promise<PatternSnapshot | null> {
+    // Loaded lazily so the SDK stays usable in runtimes without a file system
+    const { readFile } = await import('fs/promises');
+
+    let contents: string;
+    try {
+      contents = await readFile(this.path, 'utf8');
+    } catch (error) {
+      if ((error as { code?: string }).code === 'ENOENT') {
+        return null;
+      }
+      throw error;
+    }
+
+    const snapshot = JSON.parse(contents) as PatternSnapshot;
+    if (!snapshot || typeof snapshot.savedAt !== 'number' || !snapshot.data || !Array.isArray(snapshot.data.patterns)) {
+      throw new Error(`Invalid pattern snapshot in ${this.path}`);
+    }
+    return snapshot;
+  }
+
+  /**
+   * Write the snapshot file. Writes go to a temporary file that is then renamed,
+   * so a crash mid-write never leaves a truncated snapshot behind. Each write
+   * has its own temporary file, so processes sharing the path can't rename
+   * each other's half-written files into place.
+   * @param snapshot The snapshot to save
+   */
+  public save(snapshot: PatternSnapshot): Promise<void> {
+    const write = this.writing.then(() => this.write(JSON.stringify(snapshot)));
+    this.writing = write.catch(() => {});
+    return write;
+  }
+
+  /**
+   * Atomically replace the snapshot file
+   * @param contents The JSON to write
+   */
+  private async write(contents: string): Promise<void> {
+    const { mkdir, rename, unlink, writeFile } = await import('fs/promises');
+    const { dirname } = await import('path');
+
+    const tempPath = `${this.path}.${process.pid}.${Math.random().toString(36).slice(2)}.tmp`;
+    await mkdir(dirname(this.path), { recursive: true });
+    try {
+      await writeFile(tempPath, contents, 'utf8');
+      await rename(tempPath, this.path);
+    } catch (error) {
+      await unlink(tempPath).catch(() => {});
+      throw error;
+    }
+  }
+}
@@ -0,0 +1,2 @@
+export { FileSnapshotStore } from './file-snapshot-store';
+export { MemorySnapshotStore } from './memory-snapshot-store';
@@ -0,0 +1,29 @@
+import { PatternSnapshot, PatternSnapshotStore } from '../types';
+
+/**
+ * Snapshot store that keeps the snapshot in memory, e.g. to share patterns
+ * between instances in one process or in tests
+ */
+export class MemorySnapshotStore implements PatternSnapshotStore {
+  /**
+   * Create a new memory snapshot store
+   * @param snapshot Initial snapshot, if any
+   */
+  constructor(private snapshot: PatternSnapshot | null = null) {}
+
+  /**
+   * Get the saved snapshot
+   * @returns The snapshot, or null
+   */
+  public load(): PatternSnapshot | null {
+    return this.snapshot;
+  }
+
+  /**
+   * Replace the saved snapshot
+   * @param snapshot The snapshot to keep
+   */
+  public save(snapshot: PatternSnapshot): void {
+    this.snapshot = snapshot;
+  }
+}
@@ -1,12 +1,167 @@
+import type { Spyglasses } from '../core/spyglasses';
+import type { CircuitBreaker } from '../core/circuit-breaker';
+
 /**
  * Base detection result interface
  */
 export interface DetectionResult {
   isBot: boolean;
+  /** True if the request shouldn't reach the content: the action is block, redirect or challenge */
   shouldBlock: boolean;
-  sourceType: 'bot' | 'ai_referrer' | 'none';
+  /** What to do with the request; always set by detection */
+  action?: RuleAction;
+  /** Where to send the request when the action is 'redirect' */
+  redirectUrl?: string;
+  /** True if a block rule or setting matched, whether or not it was enforced (see shadowMode and 'log-only') */
+  wouldBlock?: boolean;
+  /** Set when the site's robots.txt disallows the requested path for the detected bot */
+  robotsViolation?: RobotsViolation;
+  sourceType: 'bot' | 'ai_referrer' | 'datacenter' | 'none';
   matchedPattern?: string;
   info?: BotInfo | AiReferrerInfo;
+  /** Set when the client IP is in a known cloud provider range */
+  datacenter?: DatacenterInfo;
+  /**
+   * Custom block or allow rule that decided shouldBlock, e.g. cidr:203.0.113.0/24.
+   * Blocks by a setting name it instead: blockAiModelTrainers, unverified
+   * (blockUnverifiedBots), robots (robotsCheck) or datacenter.
+   */
+  matchedRule?: string;
+  /** Scope of the matched rule, if it was a scoped rule */
+  matchedScope?: MatchedScope;
+  /** Set when a rate limit applies to the request */
+  rateLimit?: RateLimitOutcome;
+}
+
+/**
+ * What to do with a request. 'log-only' lets a request through that a rule
+ * would have blocked; 'throttle' is set by rate limits.
+ */
+export type RuleAction = 'allow' | 'block' | 'log-only' | 'redirect' | 'challenge' | 'throttle';
+
+/**
+ * What a block decision does
+ */
+export type BlockAction = 'block' | 'log-only' | 'redirect' | 'challenge';
+
+/**
+ * Options for rendering block, redirect, challenge and throttle responses
+ */
+export interface BlockResponseOptions {
+  /** Status code for blocked requests, e.g. 403, 451 or 429 (default 403) */
+  status?: number;
+  /** Body format (default 'text') */
+  format?: 'text' | 'html' | 'json';
+  /** Body for blocked requests; defaults to a short message in the chosen format */
+  body?: string | ((result: DetectionResult) => string);
+  /** Extra headers added to every response */
+  headers?: Record<string, string>;
+  /** Redirect target when the matched rule doesn't set one */
+  redirectUrl?: string;
+  /** Status code for redirects (default 302) */
+  redirectStatus?: number;
+  /** Status code for challenges (default 403) */
+  challengeStatus?: number;
+  /** Body for challenges, e.g. a page with a CAPTCHA; defaults to a short message in the chosen format */
+  challengeBody?: string | ((result: DetectionResult) => string);
+}
+
+/**
+ * Framework-agnostic response: status, headers and body
+ */
+export interface PlainResponse {
+  status: number;
+  headers: Record<string, string>;
+  body: string;
+}
+
+/**
+ * Framework-agnostic response for a request that shouldn't reach the content
+ */
+export type BlockResponse = PlainResponse;
+
+/**
+ * X-Robots-Tag directives for requests matching a rule
+ */
+export interface RobotsDirectiveRule extends RuleScope {
+  rule: BlockingRule;
+  /** Directives such as noai, noimageai or noindex */
+  directives: string[];
+}
+
+/**
+ * Text and data mining reservation for the paths matching a location (TDMRep)
+ */
+export interface TdmRepRule {
+  /** Path pattern, where `*` matches any characters and a trailing `$` anchors the end, e.g. /images/* */
+  location: string;
+  /** True if TDM rights are reserved for these paths */
+  reservation: boolean;
+  /** URL of a TDM policy describing how to license the content */
+  policy?: string;
+}
+
+/**
+ * A robots.txt rule that a bot's request broke
+ */
+export interface RobotsViolation {
+  /** The user agent of the group that applied: the bot's product token, or '*' */
+  userAgent: string;
+  /** The matching rule, e.g. 'Disallow: /private/' */
+  rule: string;
+}
+
+/**
+ * Checks detected bots' requests against the site's robots.txt
+ */
+export interface RobotsCheckConfig {
+  /** The site's robots.txt; defaults to the generated robots.txt when robotsTxt is set */
+  content?: string;
+  /** Block bots on the paths robots.txt disallows for them, with the blockAction (default false: only record violations) */
+  block?: boolean;
+}
+
+/**
+ * A page listed in llms.txt
+ */
+export interface LlmsTxtPage {
+  title: string;
+  /** Absolute or site-relative URL */
+  url: string;
+  /** One-line description shown next to the link */
+  summary?: string;
+  /** The page content as markdown, included in llms-full.txt */
+  body?: string;
+  /** Heading the page is listed under (default 'Pages'); 'Optional' marks pages that can be skipped */
+  section?: string;
+}
+
+/**
+ * Site-supplied manifest that llms.txt and llms-full.txt are built from
+ */
+export interface LlmsTxtManifest {
+  /** The site or project name */
+  title: string;
+  /** Short summary, shown as a blockquote */
+  summary?: string;
+  /** Markdown shown after the summary */
+  details?: string;
+  pages: LlmsTxtPage[];
+}
+
+/**
+ * Kind of collector event; ordinary requests have none
+ */
+export type CollectorEventType = 'llms_txt';
+
+/**
+ * Options for the generated robots.txt
+ */
+export interface RobotsTxtOptions {
+  /** The site's own robots.txt rules, kept ahead of the generated groups */
+  baseRules?: string;
+  /** Sitemap URLs to list, after any from the base rules */
+  sitemaps?: string[];
 }
 
 /**
@@ -37,8 +192,26 @@ export interface BotPattern {
   isAiModelTrainer?: boolean;
   intent?: string;
   instances?: string[];
+  /** How to confirm that a request really comes from this bot's operator */
+  verification?: BotVerification;
 }
 
+/**
+ * Verification settings for a bot pattern
+ */
+export interface BotVerification {
+  /** Domains the operator's crawler hosts reverse-resolve to, e.g. googlebot.com */
+  reverseDnsDomains?: string[];
+  /** Published IP ranges in CIDR notation */
+  ipRanges?: string[];
+}
+
+/**
+ * Outcome of bot verification: true if confirmed, false for impostors,
+ * 'unknown' if the bot can't be verified or the lookup is still pending
+ */
+export type VerificationStatus = boolean | 'unknown';
+
 /**
  * Interface for bot info used in detection results
  */
@@ -52,6 +225,8 @@ export interface BotInfo {
   isAiModelTrainer: boolean;
   intent: string;
   url?: string | null;
+  /** Whether the request was confirmed to come from the bot's operator */
+  verified?: VerificationStatus;
 }
 
 /**
@@ -77,6 +252,485 @@ export interface SpyglassesConfig {
   patternsEndpoint?: string;
   autoSync?: boolean;
   platformType?: string;
+  /** Pattern cache TTL in seconds for Next.js fetch caching (defaults to SPYGLASSES_CACHE_TTL or 24 hours) */
+  cacheTtl?: number;
+  /** Buffer collector payloads and send them in batches instead of one request per event */
+  batching?: BatchingConfig;
+  /** Timeout in milliseconds for pattern sync and collector requests (default 5000, 0 disables) */
+  requestTimeout?: number;
+  /** Retries for failed pattern syncs, with exponential backoff (default 0) */
+  syncRetries?: number;
+  /** Delay in milliseconds before the first sync retry; doubles on each attempt (default 500) */
+  retryDelay?: number;
+  /** Circuit breaker options applied to each remote endpoint, or false to disable */
+  circuitBreaker?: CircuitBreakerConfig | false;
+  /** Additional destinations for collector payloads, run alongside the Spyglasses collector */
+  sinks?: CollectorSink[];
+  /** Verify self-declared bots against reverse DNS and published IP ranges */
+  verifyBots?: boolean | BotVerifierOptions;
+  /** Block bots whose verification failed (impostors), even if the bot they claim to be is allowed */
+  blockUnverifiedBots?: boolean;
+  /** Classify client IPs against cloud provider ranges */
+  datacenter?: DatacenterConfig;
+  /** Maximum user agent/referrer pairs kept in the detection result cache (default 0, disabled) */
+  detectionCacheSize?: number;
+  /** Milliseconds between background pattern syncs when autoSync is on (default 0, disabled) */
+  refreshInterval?: number;
+  /** Random deviation applied to each refresh interval, as a fraction (default 0.1 for ±10%) */
+  refreshJitter?: number;
+  /** Persists the last good pattern response so cold starts and API outages keep the property's rules */
+  snapshotStore?: PatternSnapshotStore;
+  /** Maximum snapshot age in milliseconds; older snapshots are ignored (default 7 days) */
+  snapshotMaxAge?: number;
+  /** Block AI model training crawlers; overrides the platform setting when set */
+  blockAiModelTrainers?: boolean;
+  /** Block rules applied in addition to the platform's */
+  customBlocks?: Array<BlockingRule | ScopedRule>;
+  /** Allow rules applied in addition to the platform's; allow rules always win over block rules */
+  customAllows?: Array<BlockingRule | ScopedRule>;
+  /** Current time in milliseconds, used to evaluate rule schedules and rate limits (default Date.now) */
+  clock?: () => number;
+  /** Token-bucket limits for bots that aren't blocked; the first matching limit applies */
+  rateLimits?: RateLimit[];
+  /** Where rate limit buckets are kept (default an in-memory store) */
+  rateLimitStore?: RateLimitStore;
+  /** What block decisions do by default (default 'block') */
+  blockAction?: BlockAction;
+  /** How createBlockResponse(), handle() and the integrations answer blocked, redirected, challenged and throttled requests */
+  blockResponseOptions?: BlockResponseOptions;
+  /** Evaluate blocking rules without enforcing them: matches are reported with wouldBlock instead of shouldBlock (default false) */
+  shadowMode?: boolean;
+  /** Serve a robots.txt generated from the bot patterns and blocking rules from handle() and the integrations */
+  robotsTxt?: boolean | RobotsTxtOptions;
+  /** Check detected bots' request paths against the site's robots.txt; true uses the generated robots.txt */
+  robotsCheck?: boolean | RobotsCheckConfig;
+  /** Serve /llms.txt and /llms-full.txt built from this manifest from handle() and the integrations */
+  llmsTxt?: LlmsTxtManifest;
+  /** X-Robots-Tag directives to send to matching bots, e.g. noai for training crawlers */
+  robotsDirectives?: RobotsDirectiveRule[];
+  /** Per-path TDM reservations, served as /.well-known/tdmrep.json and tdm-reservation/tdm-policy headers; the first matching location applies */
+  tdmRep?: TdmRepRule[];
+}
+
+/**
+ * Token-bucket rate limit for matching bots
+ */
+export interface RateLimit {
+  /** Bots the limit applies to, e.g. pattern:ChatGPT-User\/[0-9] or company:OpenAI */
+  rule: BlockingRule;
+  /** Requests allowed per interval */
+  limit: number;
+  /** Interval in milliseconds (default 60000) */
+  interval?: number;
+  /** Requests allowed in a burst; the bucket's capacity (default limit) */
+  burst?: number;
+  /** Keep one bucket per matching bot pattern, or per pattern and client IP (default 'bot') */
+  per?: 'bot' | 'ip';
+}
+
+/**
+ * Token bucket parameters passed to a rate limit store
+ */
+export interface TokenBucketConfig {
+  /** Maximum tokens */
+  capacity: number;
+  /** Tokens added per millisecond */
+  refillRate: number;
+}
+
+/**
+ * Result of taking a token from a bucket
+ */
+export interface TokenBucketResult {
+  allowed: boolean;
+  /** Whole tokens left after this request */
+  remaining: number;
+  /** Milliseconds until a token is available; 0 if allowed */
+  retryAfter: number;
+}
+
+/**
+ * Keeps rate limit buckets. Shared stores such as Redis answer with a promise;
+ * those need handleAsync() or applyRateLimitAsync(), which the Express
+ * middleware and the Fastify plugin use.
+ */
+export interface RateLimitStore {
+  /** Refill a bucket for the time elapsed, then take one token if available */
+  take(key: string, bucket: TokenBucketConfig, now: number): TokenBucketResult | Promise<TokenBucketResult>;
+}
+
+/**
+ * Options for the in-memory rate limit store
+ */
+export interface MemoryRateLimitStoreOptions {
+  /** Maximum buckets kept; the least recently used bucket is dropped beyond this (default 10000) */
+  maxKeys?: number;
+}
+
+/**
+ * Rate limit applied to a request
+ */
+export interface RateLimitOutcome {
+  /** Rule of the limit that applied */
+  rule: string;
+  throttled: boolean;
+  /** Requests left in the bucket */
+  remaining: number;
+  /** Seconds to wait before retrying, for the Retry-After header; 0 if not throttled */
+  retryAfter: number;
+}
+
+/**
+ * Block or allow rule string, e.g. `category:Scraper` or `cidr:203.0.113.0/24`
+ */
+export type BlockingRule =
+  | `pattern:${string}`
+  | `category:${string}`
+  | `subcategory:${string}:${string}`
+  | `type:${string}:${string}:${string}`
+  | `company:${string}`
+  | `ip:${string}`
+  | `cidr:${string}`;
+
+/**
+ * Where a scoped rule applies. Every scope that is set must match the request;
+ * within a scope, any entry can match.
+ */
+export interface RuleScope {
+  /** Hostnames; *.example.com matches any subdomain of example.com */
+  hosts?: string[];
+  /** Path globs; * matches within a path segment, ** across segments */
+  paths?: string[];
+  /** Content types; image/* matches any image type */
+  contentTypes?: string[];
+  /** Time windows in which the rule applies */
+  schedule?: RuleSchedule;
+}
+
+/**
+ * Day of the week used in schedule windows
+ */
+export type Weekday = 'mon' | 'tue' | 'wed' | 'thu' | 'fri' | 'sat' | 'sun';
+
+/**
+ * Daily time window, e.g. { days: ['mon', 'tue', 'wed', 'thu', 'fri'], start: '08:00', end: '20:00' }
+ */
+export interface ScheduleWindow {
+  /** Days the window starts on (default every day) */
+  days?: Weekday[];
+  /** Start time, HH:MM, inclusive */
+  start: string;
+  /** End time, HH:MM, exclusive; up to 24:00, or earlier than start to run past midnight */
+  end: string;
+}
+
+/**
+ * Time windows in a time zone
+ */
+export interface RuleSchedule {
+  /** IANA time zone, e.g. Europe/Berlin (default UTC) */
+  timeZone?: string;
+  /** Windows in which the rule applies; any window can match */
+  windows: ScheduleWindow[];
+}
+
+/**
+ * Block or allow rule that only applies to matching requests
+ */
+export interface ScopedRule extends RuleScope {
+  rule: BlockingRule;
+  /** What a matching block rule does (default the blockAction config); ignored for allow rules */
+  action?: BlockAction;
+  /** Redirect target for the 'redirect' action */
+  redirectTo?: string;
+}
+
+/**
+ * Scope entries that matched a request
+ */
+export interface MatchedScope {
+  host?: string;
+  path?: string;
+  contentType?: string;
+  /** Active schedule window, e.g. mon,tue,wed,thu,fri 08:00-20:00 Europe/Berlin */
+  schedule?: string;
+}
+
+/**
+ * Request context used by detection
+ */
+export interface DetectionContext {
+  /** Client IP address */
+  ip?: string;
+  /** Request hostname, used by host-scoped rules */
+  host?: string;
+  /** Request path, used by path-scoped rules */
+  path?: string;
+  /** Content type of the requested resource, used by content-type-scoped rules */
+  contentType?: string;
+}
+
+/**
+ * What to do with datacenter traffic whose user agent doesn't match a bot pattern:
+ * 'allow' only annotates results, 'flag' also reports it as a 'datacenter' event,
+ * 'block' reports and blocks it
+ */
+export type DatacenterPolicy = 'allow' | 'flag' | 'block';
+
+/**
+ * Cloud provider range file to load
+ */
+export interface DatacenterRangeFile {
+  path: string;
+  /** Provider name; inferred from the file's format (AWS, GCP or Azure) when omitted */
+  provider?: string;
+}
+
+/**
+ * Datacenter IP classification options
+ */
+export interface DatacenterConfig {
+  /** Local JSON range files, e.g. AWS ip-ranges.json, GCP cloud.json or Azure ServiceTags; requires a Node.js file system */
+  rangeFiles?: Array<string | DatacenterRangeFile>;
+  /** Additional CIDR ranges keyed by provider name */
+  ranges?: Record<string, string[]>;
+  /** Policy for datacenter traffic with non-bot user agents (default 'flag') */
+  policy?: DatacenterPolicy;
+}
+
+/**
+ * Result of loading datacenter range files
+ */
+export interface DatacenterLoadResult {
+  /** Ranges added across all files */
+  loaded: number;
+  /** One message per file that could not be read or parsed */
+  errors: string[];
+}
+
+/**
+ * Cloud provider range that a client IP belongs to
+ */
+export interface DatacenterInfo {
+  provider: string;
+  /** Matched range in CIDR notation */
+  range: string;
+  region?: string;
+  service?: string;
+}
+
+/**
+ * DNS resolver used for bot verification
+ */
+export interface DnsResolver {
+  /** Reverse-resolve an IP to hostnames (PTR records) */
+  reverse(ip: string): Promise<string[]>;
+  /** Resolve a hostname to its IP addresses */
+  lookup(hostname: string): Promise<string[]>;
+}
+
+/**
+ * Source of published IP ranges for bot verification
+ */
+export interface IpRangeSource {
+  getRanges(pattern: BotPattern): Promise<string[]>;
+}
+
+/**
+ * Options for bot verification
+ */
+export interface BotVerifierOptions {
+  /** DNS resolver (defaults to Node.js DNS) */
+  resolver?: DnsResolver;
+  /** IP range source (defaults to the pattern's own ipRanges) */
+  rangeSource?: IpRangeSource;
+  /** How long verdicts are cached in milliseconds (default 1 hour) */
+  cacheTtl?: number;
+  /** Maximum cached verdicts (default 10000) */
+  maxCacheSize?: number;
+  /** Maximum verifications running at once; the rest wait for a free slot (default 10) */
+  maxConcurrentLookups?: number;
+  /** Maximum verifications running or waiting; beyond this, new IPs stay 'unknown' (default 1000) */
+  maxPendingLookups?: number;
+}
+
+/**
+ * Destination for collector payloads
+ */
+export interface CollectorSink {
+  /** Name used in debug logs */
+  name: string;
+  /** Deliver a batch of payloads; rejections are isolated from other sinks */
+  send(payloads: CollectorPayload[]): Promise<void>;
+  /** Release resources and wait for pending writes */
+  close?(): Promise<void>;
+}
+
+/**
+ * Options for the Spyglasses collector sink
+ */
+export interface SpyglassesHttpSinkOptions {
+  apiKey: string;
+  endpoint?: string;
+  /** Request timeout in milliseconds (default 5000) */
+  timeout?: number;
+  circuitBreaker?: CircuitBreaker;
+}
+
+/**
+ * Options for the webhook sink
+ */
+export interface WebhookSinkOptions {
+  url: string;
+  name?: string;
+  headers?: Record<string, string>;
+  /** Request timeout in milliseconds (default 5000) */
+  timeout?: number;
+}
+
+/**
+ * Options for the NDJSON sink
+ */
+export interface NdjsonSinkOptions {
+  name?: string;
+  /** File to append to; requires a Node.js file system */
+  path?: string;
+  /** Stream to write to instead of stdout */
+  stream?: { write(chunk: string): unknown };
+}
+
+/**
+ * Circuit breaker options
+ */
+export interface CircuitBreakerConfig {
+  /** Consecutive failures before the circuit opens (default 5) */
+  failureThreshold?: number;
+  /** Milliseconds to wait before probing an open circuit (default 30000) */
+  resetTimeout?: number;
+}
+
+/**
+ * Circuit breaker state snapshot
+ */
+export interface CircuitBreakerState {
+  state: 'closed' | 'open' | 'half-open';
+  failures: number;
+  openedAt: number | null;
+}
+
+/**
+ * Batching options for the collector queue
+ */
+export interface BatchingConfig {
+  /** Maximum payloads per collector request (default 50) */
+  maxBatchSize?: number;
+  /** Milliseconds to wait before flushing a partial batch (default 5000) */
+  flushInterval?: number;
+  /** Maximum queued payloads; the oldest are dropped beyond this (default 1000) */
+  maxQueueSize?: number;
+}
+
+/**
+ * Collector queue statistics
+ */
+export interface CollectorQueueStats {
+  queued: number;
+  sent: number;
+  /** Payloads in batches the collector rejected or that were skipped while its circuit breaker was open */
+  failed: number;
+  dropped: number;
+}
+
+/**
+ * Last good pattern response, persisted by a snapshot store
+ */
+export interface PatternSnapshot {
+  data: ApiPatternResponse;
+  /** When the response was fetched or last confirmed unchanged (ms since epoch) */
+  savedAt: number;
+  /** Validators for conditional requests after a restore */
+  etag?: string | null;
+  lastModified?: string | null;
+}
+
+/**
+ * Storage for pattern snapshots. Methods may be synchronous or asynchronous;
+ * a synchronous load() is applied before the constructor returns.
+ */
+export interface PatternSnapshotStore {
+  /** Load the saved snapshot, or null if there is none */
+  load(): PatternSnapshot | null | Promise<PatternSnapshot | null>;
+  /** Replace the saved snapshot */
+  save(snapshot: PatternSnapshot): void | Promise<void>;
+}
+
+/**
+ * Options for the file snapshot store
+ */
+export interface FileSnapshotStoreOptions {
+  /** JSON file to read and write; requires a Node.js file system */
+  path: string;
+}
+
+/**
+ * Detection cache statistics
+ */
+export interface DetectionCacheStats {
+  hits: number;
+  misses: number;
+  size: number;
+  maxSize: number;
+}
+
+/**
+ * Request details passed to logRequest
+ */
+export interface LogRequestInfo {
+  url: string;
+  method: string;
+  path: string;
+  query?: string;
+  userAgent: string;
+  referrer?: string;
+  ip?: string;
+  headers: Record<string, string>;
+  responseStatus?: number;
+  responseTime?: number;
+}
+
+/**
+ * Options for Spyglasses.handle()
+ */
+export interface HandleOptions {
+  /** Runtime hook (e.g. ctx.waitUntil) that keeps the logging promise alive */
+  waitUntil?: (promise: Promise<unknown>) => void;
+  /** Client IP when the runtime exposes it directly */
+  ip?: string;
+  /**
+   * Read the client IP from proxy headers when `ip` is not given: true for
+   * cf-connecting-ip, x-real-ip or x-forwarded-for, or the name of the one
+   * header your proxy sets. Off by default, as clients can forge these headers.
+   */
+  trustProxy?: boolean | string;
+  /** Path prefixes or regular expressions that bypass detection */
+  skipPaths?: Array<string | RegExp>;
+  /** Custom block response factory; defaults to the response built from blockResponseOptions */
+  blockResponse?: (result: DetectionResult) => Response;
+  /** Custom response factory for rate-limited requests; defaults to a 429 response with Retry-After */
+  throttleResponse?: (result: DetectionResult) => Response;
+}
+
+/**
+ * Result of Spyglasses.handle()
+ */
+export interface HandleResult {
+  /** Response to return for blocked requests, or null to continue */
+  response: Response | null;
+  result: DetectionResult;
+  /** Headers to add to the app's response when continuing, e.g. X-Robots-Tag */
+  headers: Record<string, string>;
+  /** Resolves once the collector request settles; never rejects */
+  logging: Promise<void>;
 }
 
 /**
@@ -96,8 +750,13 @@ export interface CollectorPayload {
   headers: Record<string, string>;
   timestamp: string;
   platformType?: string;
+  /** Set for requests logged as their own kind of event, e.g. 'llms_txt' for AI agents fetching llms.txt */
+  event_type?: CollectorEventType;
   metadata: {
     was_blocked: boolean;
+    /** True if a block rule or setting matched, enforced or not */
+    would_block?: boolean;
+    action?: RuleAction;
     agent_type?: string;
     agent_category?: string;
     agent_subcategory?: string;
@@ -109,6 +768,28 @@ export interface CollectorPayload {
     source_type?: string;
     referrer_id?: string;
     referrer_name?: string;
+    is_verified?: VerificationStatus;
+    is_datacenter?: boolean;
+    datacenter_provider?: string;
+    matched_rule?: string;
+    was_throttled?: boolean;
+    rate_limit?: string;
+    /** True if robots.txt disallows the requested path for the bot */
+    robots_violation?: boolean;
+    /** The robots.txt rule the request broke, e.g. 'Disallow: /private/' */
+    robots_rule?: string;
+    /** X-Robots-Tag directives sent with the response */
+    robots_directives?: string[];
+    /** True if an AI model trainer fetched a path reserved from text and data mining */
+    tdm_reserved?: boolean;
+    /** The TDM policy of the reserved path */
+    tdm_policy?: string;
+    matched_scope?: {
+      host?: string;
+      path?: string;
+      content_type?: string;
+      schedule?: string;
+    };
   };
 }
 
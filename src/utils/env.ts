@@ -0,0 +1,19 @@
+/**
+ * Read an environment variable without depending on Node.js globals.
+ * Edge and Fetch-API runtimes may not define `process` at all.
+ * @param name The variable name
+ * @returns The value, or undefined when unavailable
+ */
+export function getEnv(name: string): string | undefined {
+  const runtime = globalThis as { process?: { env?: Record<string, string | undefined> } };
+  return runtime.process?.env?.[name];
+}
+
+/**
+ * Check whether the current runtime exposes environment variables
+ * @returns True if `process.env` is available
+ */
+export function hasEnv(): boolean {
+  const runtime = globalThis as { process?: { env?: Record<string, string | undefined> } };
+  return !!runtime.process?.env;
+}
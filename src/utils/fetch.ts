@@ -0,0 +1,37 @@
+/**
+ * Convert a Fetch-API Headers object into a plain header map
+ * @param headers The request headers
+ * @returns A header map with lower-cased names
+ */
+export function headersToRecord(headers: Headers): Record<string, string> {
+  const record: Record<string, string> = {};
+  headers.forEach((value, name) => {
+    record[name.toLowerCase()] = value;
+  });
+  return record;
+}
+
+/**
+ * Resolve the client IP from proxy and CDN headers. Clients can set these
+ * headers themselves, so only read them behind a proxy that overwrites them.
+ * @param headers The request headers
+ * @param trusted The one header to read, or true for cf-connecting-ip, x-real-ip and x-forwarded-for
+ * @returns The client IP, if present
+ */
+export function getClientIpFromHeaders(headers: Headers, trusted: true | string = true): string | undefined {
+  if (typeof trusted === 'string') {
+    return headers.get(trusted)?.split(',')[0].trim() || undefined;
+  }
+
+  const direct = headers.get('cf-connecting-ip') || headers.get('x-real-ip');
+  if (direct) {
+    return direct.trim();
+  }
+
+  const forwardedFor = headers.get('x-forwarded-for');
+  if (forwardedFor) {
+    return forwardedFor.split(',')[0].trim() || undefined;
+  }
+
+  return undefined;
+}
@@ -0,0 +1,101 @@
+import type { IncomingHttpHeaders } from 'http';
+
+/**
+ * Flatten Node.js incoming headers into the string map expected by the collector
+ * @param headers The raw incoming headers
+ * @returns A header map with lower-cased names and string values
+ */
+export function normalizeHeaders(headers: IncomingHttpHeaders | undefined): Record<string, string> {
+  const normalized: Record<string, string> = {};
+  if (!headers) {
+    return normalized;
+  }
+  
+  for (const [name, value] of Object.entries(headers)) {
+    if (value === undefined) continue;
+    normalized[name.toLowerCase()] = Array.isArray(value) ? value.join(', ') : String(value);
+  }
+  
+  return normalized;
+}
+
+/**
+ * Read a single header value, joining repeated headers
+ * @param headers The raw incoming headers
+ * @param name The lower-cased header name
+ * @returns The header value or an empty string
+ */
+export function getHeader(headers: IncomingHttpHeaders | undefined, name: string): string {
+  const value = headers?.[name];
+  if (value === undefined) {
+    return '';
+  }
+  return Array.isArray(value) ? value.join(', ') : String(value);
+}
+
+/**
+ * Split a request URL into its path and query string at the first `?`, so a
+ * query that contains a literal `?` is kept whole
+ * @param url The request URL, e.g. /search?q=a?b
+ * @returns The path, and the query without its leading `?` if there is one
+ */
+export function splitRequestUrl(url: string): { path: string; query?: string } {
+  const queryIndex = url.indexOf('?');
+  if (queryIndex === -1) {
+    return { path: url };
+  }
+  return { path: url.slice(0, queryIndex), query: url.slice(queryIndex + 1) };
+}
+
+/**
+ * Check whether a request path matches any of the configured skip paths
+ * @param path The request path
+ * @param skipPaths Path prefixes or regular expressions to skip
+ * @returns True if the path should be skipped
+ */
+export function isSkippedPath(path: string, skipPaths: Array<string | RegExp>): boolean {
+  return skipPaths.some(skipPath =>
+    typeof skipPath === 'string' ? path.startsWith(skipPath) : skipPath.test(path)
+  );
+}
+
+/**
+ * Content types of common static assets, keyed by file extension
+ */
+const CONTENT_TYPES: Record<string, string> = {
+  html: 'text/html',
+  htm: 'text/html',
+  txt: 'text/plain',
+  md: 'text/markdown',
+  csv: 'text/csv',
+  css: 'text/css',
+  js: 'text/javascript',
+  mjs: 'text/javascript',
+  json: 'application/json',
+  xml: 'application/xml',
+  pdf: 'application/pdf',
+  png: 'image/png',
+  jpg: 'image/jpeg',
+  jpeg: 'image/jpeg',
+  gif: 'image/gif',
+  webp: 'image/webp',
+  avif: 'image/avif',
+  svg: 'image/svg+xml',
+  ico: 'image/x-icon',
+  mp3: 'audio/mpeg',
+  wav: 'audio/wav',
+  mp4: 'video/mp4',
+  webm: 'video/webm',
+  woff: 'font/woff',
+  woff2: 'font/woff2'
+};
+
+/**
+ * Infer the content type of a requested resource from its file extension
+ * @param path The request path
+ * @returns The content type, or undefined if the path has no known extension
+ */
+export function getContentTypeFromPath(path: string): string | undefined {
+  const match = /\.([a-z0-9]+)$/i.exec(path);
+  return match ? CONTENT_TYPES[match[1].toLowerCase()] : undefined;
+}
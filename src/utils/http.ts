@@ -0,0 +1,73 @@
+/**
+ * Fetch with an AbortController-based timeout. Pass `read` to consume the body
+ * within the same timeout, so a server that stalls after sending headers can't
+ * hang the caller.
+ * @param url The request URL
+ * @param init Fetch options
+ * @param timeout Timeout in milliseconds; 0 or less disables the timeout
+ * @param read Reads the response, e.g. its JSON body
+ * @returns The fetch response, or what read returned
+ */
+export async function fetchWithTimeout(url: string, init: RequestInit, timeout: number): Promise<Response>;
+export async function fetchWithTimeout<T>(url: string, init: RequestInit, timeout: number, read: (response: Response) => Promise<T>): Promise<T>;
+export async function fetchWithTimeout<T>(url: string, init: RequestInit, timeout: number, read?: (response: Response) => Promise<T>): Promise<Response | T> {
+  if (!timeout || timeout <= 0 || typeof AbortController === 'undefined') {
+    const response = await fetch(url, init);
+    return read ? read(response) : response;
+  }
+
+  const controller = new AbortController();
+  const timer = setTimeout(() => controller.abort(), timeout);
+
+  try {
+    const response = await fetch(url, { ...init, signal: controller.signal });
+    return read ? await read(response) : response;
+  } catch (error) {
+    if (controller.signal.aborted) {
+      throw new Error(`Request timed out after ${timeout}ms`);
+    }
+    throw error;
+  } finally {
+    clearTimeout(timer);
+  }
+}
+
+/**
+ * Whether an HTTP status is worth retrying
+ * @param status The response status
+ * @returns True for rate limiting and server errors
+ */
+export function isRetryableStatus(status: number): boolean {
+  return status === 408 || status === 429 || status >= 500;
+}
+
+/**
+ * Exponential backoff delay for a retry attempt
+ * @param attempt Zero-based retry attempt
+ * @param baseDelay Delay for the first retry in milliseconds
+ * @param maxDelay Upper bound in milliseconds
+ * @returns The delay in milliseconds
+ */
+export function getBackoffDelay(attempt: number, baseDelay: number, maxDelay: number = 30000): number {
+  return Math.min(maxDelay, baseDelay * Math.pow(2, attempt));
+}
+
+/**
+ * Randomize a delay so many processes don't hit the API at the same moment
+ * @param delay Base delay in milliseconds
+ * @param jitter Maximum deviation as a fraction of the delay, e.g. 0.1 for ±10%
+ * @param random Random number source in [0, 1)
+ * @returns The jittered delay in milliseconds
+ */
+export function getJitteredDelay(delay: number, jitter: number, random: () => number = Math.random): number {
+  const spread = Math.min(Math.max(jitter, 0), 1);
+  return Math.round(delay * (1 + spread * (2 * random() - 1)));
+}
+
+/**
+ * Wait for a number of milliseconds
+ * @param ms Milliseconds to wait
+ */
+export function sleep(ms: number): Promise<void> {
+  return new Promise(resolve => setTimeout(resolve, ms));
+}
@@ -0,0 +1,315 @@
+/**
+ * Parsed IP address as raw bytes (4 for IPv4, 16 for IPv6)
+ */
+export interface ParsedIp {
+  version: 4 | 6;
+  bytes: number[];
+}
+
+/**
+ * Parsed CIDR block
+ */
+export interface ParsedCidr extends ParsedIp {
+  prefixLength: number;
+}
+
+/**
+ * Parse a dotted-quad IPv4 address
+ * @param ip The address
+ * @returns The address bytes, or null if invalid
+ */
+function parseIpv4(ip: string): number[] | null {
+  const parts = ip.split('.');
+  if (parts.length !== 4) {
+    return null;
+  }
+
+  const bytes: number[] = [];
+  for (const part of parts) {
+    if (!/^\d{1,3}$/.test(part)) {
+      return null;
+    }
+    const value = parseInt(part, 10);
+    if (value > 255) {
+      return null;
+    }
+    bytes.push(value);
+  }
+  return bytes;
+}
+
+/**
+ * Parse an IPv6 address, including `::` compression and embedded IPv4
+ * @param ip The address
+ * @returns The address bytes, or null if invalid
+ */
+function parseIpv6(ip: string): number[] | null {
+  // Strip a zone index such as fe80::1%eth0
+  const address = ip.split('%')[0];
+  const halves = address.split('::');
+  if (halves.length > 2) {
+    return null;
+  }
+
+  const toGroups = (part: string): number[] | null => {
+    if (!part) {
+      return [];
+    }
+    const groups: number[] = [];
+    const pieces = part.split(':');
+    for (let i = 0; i < pieces.length; i++) {
+      const piece = pieces[i];
+      if (i === pieces.length - 1 && piece.includes('.')) {
+        const v4 = parseIpv4(piece);
+        if (!v4) {
+          return null;
+        }
+        groups.push((v4[0] << 8) | v4[1], (v4[2] << 8) | v4[3]);
+      } else if (/^[0-9a-f]{1,4}$/i.test(piece)) {
+        groups.push(parseInt(piece, 16));
+      } else {
+        return null;
+      }
+    }
+    return groups;
+  };
+
+  const head = toGroups(halves[0]);
+  const tail = halves.length === 2 ? toGroups(halves[1]) : [];
+  if (!head || !tail) {
+    return null;
+  }
+
+  let groups: number[];
+  if (halves.length === 2) {
+    const missing = 8 - head.length - tail.length;
+    if (missing < 1) {
+      return null;
+    }
+    groups = [...head, ...new Array(missing).fill(0), ...tail];
+  } else {
+    groups = head;
+  }
+
+  if (groups.length !== 8) {
+    return null;
+  }
+
+  const bytes: number[] = [];
+  for (const group of groups) {
+    bytes.push(group >> 8, group & 0xff);
+  }
+  return bytes;
+}
+
+/**
+ * Parse an IPv4 or IPv6 address. IPv4-mapped IPv6 addresses (::ffff:a.b.c.d)
+ * are returned as IPv4 so they match IPv4 ranges.
+ * @param ip The address
+ * @returns The parsed address, or null if invalid
+ */
+export function parseIp(ip: string): ParsedIp | null {
+  const trimmed = ip.trim().replace(/^\[|\]$/g, '');
+
+  if (!trimmed.includes(':')) {
+    const bytes = parseIpv4(trimmed);
+    return bytes ? { version: 4, bytes } : null;
+  }
+
+  const bytes = parseIpv6(trimmed);
+  if (!bytes) {
+    return null;
+  }
+
+  const isV4Mapped = bytes.slice(0, 10).every(byte => byte === 0) && bytes[10] === 0xff && bytes[11] === 0xff;
+  if (isV4Mapped) {
+    return { version: 4, bytes: bytes.slice(12) };
+  }
+
+  return { version: 6, bytes };
+}
+
+/**
+ * Parse a CIDR block. A bare address is treated as a single-host block.
+ * @param cidr The block, e.g. 192.0.2.0/24 or 2001:db8::/32
+ * @returns The parsed block, or null if invalid
+ */
+export function parseCidr(cidr: string): ParsedCidr | null {
+  const [address, prefix] = cidr.trim().split('/');
+  const parsed = parseIp(address);
+  if (!parsed) {
+    return null;
+  }
+
+  const maxLength = parsed.bytes.length * 8;
+  if (prefix === undefined) {
+    return { ...parsed, prefixLength: maxLength };
+  }
+
+  if (!/^\d{1,3}$/.test(prefix)) {
+    return null;
+  }
+
+  // An IPv4-mapped IPv6 block keeps only the bits that cover the IPv4 part
+  const isMapped = parsed.version === 4 && address.includes(':');
+  const prefixLength = parseInt(prefix, 10) - (isMapped ? 96 : 0);
+  if (prefixLength < 0 || prefixLength > maxLength) {
+    return null;
+  }
+
+  return { ...parsed, prefixLength };
+}
+
+/**
+ * Check whether the first `prefixLength` bits of two byte arrays match
+ * @param a First address bytes
+ * @param b Second address bytes
+ * @param prefixLength Number of leading bits to compare
+ * @returns True if the prefixes match
+ */
+export function prefixMatches(a: number[], b: number[], prefixLength: number): boolean {
+  const fullBytes = Math.floor(prefixLength / 8);
+  for (let i = 0; i < fullBytes; i++) {
+    if (a[i] !== b[i]) {
+      return false;
+    }
+  }
+
+  const remainingBits = prefixLength % 8;
+  if (remainingBits === 0) {
+    return true;
+  }
+
+  const mask = (0xff << (8 - remainingBits)) & 0xff;
+  return (a[fullBytes] & mask) === (b[fullBytes] & mask);
+}
+
+/**
+ * Check whether an IP address falls inside a CIDR block
+ * @param ip The address
+ * @param cidr The block
+ * @returns True if the address is inside the block
+ */
+export function ipInCidr(ip: string | ParsedIp, cidr: string | ParsedCidr): boolean {
+  const parsedIp = typeof ip === 'string' ? parseIp(ip) : ip;
+  const parsedCidr = typeof cidr === 'string' ? parseCidr(cidr) : cidr;
+  if (!parsedIp || !parsedCidr || parsedIp.version !== parsedCidr.version) {
+    return false;
+  }
+
+  return prefixMatches(parsedIp.bytes, parsedCidr.bytes, parsedCidr.prefixLength);
+}
+
+/**
+ * Check whether two addresses are the same, ignoring notation differences
+ * @param a First address
+ * @param b Second address
+ * @returns True if both parse to the same address
+ */
+export function ipEquals(a: string, b: string): boolean {
+  const parsedA = parseIp(a);
+  const parsedB = parseIp(b);
+  return !!parsedA && !!parsedB &&
+    parsedA.version === parsedB.version &&
+    parsedA.bytes.every((byte, i) => byte === parsedB.bytes[i]);
+}
+
+/**
+ * Binary trie node keyed by address bits
+ */
+interface CidrTrieNode<T> {
+  children: [CidrTrieNode<T> | undefined, CidrTrieNode<T> | undefined];
+  entry?: { cidr: string; value: T };
+}
+
+/**
+ * Set of CIDR blocks with longest-prefix lookup, for matching an address
+ * against thousands of ranges without scanning them one by one
+ */
+export class CidrSet<T> {
+  private roots: Record<4 | 6, CidrTrieNode<T>> = {
+    4: { children: [undefined, undefined] },
+    6: { children: [undefined, undefined] }
+  };
+  private count: number = 0;
+
+  /**
+   * Add a CIDR block. Adding a block that is already present keeps the first value.
+   * @param cidr The block, e.g. 192.0.2.0/24, or a bare address
+   * @param value Value returned when an address matches this block
+   * @returns False if the block is invalid
+   */
+  public add(cidr: string, value: T): boolean {
+    const parsed = parseCidr(cidr);
+    if (!parsed) {
+      return false;
+    }
+
+    let node = this.roots[parsed.version];
+    for (let bit = 0; bit < parsed.prefixLength; bit++) {
+      const direction = (parsed.bytes[bit >> 3] >> (7 - (bit & 7))) & 1;
+      let child = node.children[direction];
+      if (!child) {
+        child = { children: [undefined, undefined] };
+        node.children[direction] = child;
+      }
+      node = child;
+    }
+
+    if (!node.entry) {
+      node.entry = { cidr: cidr.trim(), value };
+      this.count++;
+    }
+    return true;
+  }
+
+  /**
+   * Find the most specific block containing an address
+   * @param ip The address
+   * @returns The matching block and its value, or null
+   */
+  public match(ip: string | ParsedIp): { cidr: string; value: T } | null {
+    const parsed = typeof ip === 'string' ? parseIp(ip) : ip;
+    if (!parsed) {
+      return null;
+    }
+
+    let node: CidrTrieNode<T> | undefined = this.roots[parsed.version];
+    let best = node.entry || null;
+    const totalBits = parsed.bytes.length * 8;
+    for (let bit = 0; bit < totalBits && node; bit++) {
+      node = node.children[(parsed.bytes[bit >> 3] >> (7 - (bit & 7))) & 1];
+      if (node?.entry) {
+        best = node.entry;
+      }
+    }
+    return best;
+  }
+
+  /**
+   * Check whether any block contains an address
+   * @param ip The address
+   * @returns True if the address matches a block
+   */
+  public has(ip: string | ParsedIp): boolean {
+    return this.match(ip) !== null;
+  }
+
+  /**
+   * Number of distinct blocks in the set
+   */
+  public get size(): number {
+    return this.count;
+  }
+
+  /**
+   * Remove all blocks
+   */
+  public clear(): void {
+    this.roots = {
+      4: { children: [undefined, undefined] },
+      6: { children: [undefined, undefined] }
+    };
+    this.count = 0;
+  }
+}
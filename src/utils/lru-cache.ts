@@ -0,0 +1,75 @@
+import { DetectionCacheStats } from '../types';
+
+/**
+ * Size-bounded least-recently-used cache with hit and miss counters
+ */
+export class LruCache<K, V> {
+  private entries: Map<K, V> = new Map();
+  private maxSize: number;
+  private hits: number = 0;
+  private misses: number = 0;
+
+  /**
+   * Create a new cache
+   * @param maxSize Maximum number of entries; the least recently used entry is evicted beyond this
+   */
+  constructor(maxSize: number) {
+    this.maxSize = Math.max(1, Math.floor(maxSize));
+  }
+
+  /**
+   * Get an entry and mark it as recently used
+   * @param key The key
+   * @returns The value, or undefined on a miss
+   */
+  public get(key: K): V | undefined {
+    const value = this.entries.get(key);
+    if (value === undefined) {
+      this.misses++;
+      return undefined;
+    }
+
+    // Map iteration order is insertion order, so re-inserting moves the entry to the end
+    this.entries.delete(key);
+    this.entries.set(key, value);
+    this.hits++;
+    return value;
+  }
+
+  /**
+   * Add or replace an entry, evicting the least recently used entry if full
+   * @param key The key
+   * @param value The value
+   */
+  public set(key: K, value: V): void {
+    if (this.entries.has(key)) {
+      this.entries.delete(key);
+    } else if (this.entries.size >= this.maxSize) {
+      const oldest = this.entries.keys().next().value;
+      if (oldest !== undefined) {
+        this.entries.delete(oldest);
+      }
+    }
+    this.entries.set(key, value);
+  }
+
+  /**
+   * Remove all entries. Hit and miss counters are kept.
+   */
+  public clear(): void {
+    this.entries.clear();
+  }
+
+  /**
+   * Get cache statistics
+   * @returns Hits, misses, current size and maximum size
+   */
+  public getStats(): DetectionCacheStats {
+    return {
+      hits: this.hits,
+      misses: this.misses,
+      size: this.entries.size,
+      maxSize: this.maxSize
+    };
+  }
+}